@@ -0,0 +1,44 @@
+// AudioWorklet that turns microphone audio into 16-bit little-endian mono PCM frames
+// at a fixed sample rate, for streaming to a recognition gateway.
+// Posts one ArrayBuffer per frame (default 100 ms) to the node's port.
+
+class PcmEncoderProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetSampleRate = 16000, frameMs = 100 } = options.processorOptions || {};
+    this.ratio = sampleRate / targetSampleRate; // `sampleRate` is the context rate (worklet global)
+    this.frame = new Int16Array(Math.round((targetSampleRate * frameMs) / 1000));
+    this.frameLength = 0;
+    this.position = 0; // Read position in input samples, carried across render quanta (may be -1..0)
+    this.previous = 0; // Last sample of the previous quantum, for interpolating across the boundary
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+
+    // Linear-interpolation resampling from the context rate to the target rate
+    while (this.position < channel.length - 1) {
+      const index = Math.floor(this.position);
+      const fraction = this.position - index;
+      const current = index < 0 ? this.previous : channel[index];
+      const sample = current + (channel[index + 1] - current) * fraction;
+      const clamped = Math.max(-1, Math.min(1, sample));
+
+      this.frame[this.frameLength++] = clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff;
+      if (this.frameLength === this.frame.length) {
+        const buffer = this.frame.slice().buffer;
+        this.port.postMessage(buffer, [buffer]);
+        this.frameLength = 0;
+      }
+
+      this.position += this.ratio;
+    }
+    this.position -= channel.length;
+    this.previous = channel[channel.length - 1];
+
+    return true;
+  }
+}
+
+registerProcessor('pcm-encoder', PcmEncoderProcessor);
@@ -0,0 +1,165 @@
+// Minimal stand-in for a streaming recognition gateway (see src/services/streamingGatewayProvider.ts).
+// Usage: npm run mock:stream  (listens on ws://localhost:8765/v1/stream)
+// Counts incoming PCM and answers with fake partial results every 0.5 s and a final every 3 s of audio.
+import http from 'node:http';
+import crypto from 'node:crypto';
+
+const PORT = Number(process.env.PORT) || 8765;
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const PARTIAL_EVERY_MS = 500;
+const FINAL_EVERY_MS = 3000;
+const WORDS = ['xin', 'chào', 'mọi', 'người', 'đây', 'là', 'kết', 'quả', 'thử', 'nghiệm', 'từ', 'gateway'];
+
+const server = http.createServer((req, res) => {
+  res.writeHead(426, { 'Content-Type': 'text/plain' }).end('WebSocket only\n');
+});
+
+server.on('upgrade', (req, socket) => {
+  if (req.url !== '/v1/stream' || req.headers.upgrade?.toLowerCase() !== 'websocket') {
+    socket.end('HTTP/1.1 404 Not Found\r\n\r\n');
+    return;
+  }
+
+  const accept = crypto.createHash('sha1').update(req.headers['sec-websocket-key'] + WS_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '', ''
+  ].join('\r\n'));
+
+  const session = { sampleRate: 16000, receivedMs: 0, utteranceStartMs: 0, lastPartialMs: 0, speaker: 1 };
+  let pending = Buffer.alloc(0);
+
+  const send = message => socket.write(encodeFrame(0x1, Buffer.from(JSON.stringify(message))));
+  const fakeText = (fromMs, toMs) => {
+    const count = Math.max(1, Math.round((toMs - fromMs) / 400));
+    return Array.from({ length: count }, (_, i) => WORDS[(Math.floor(fromMs / 400) + i) % WORDS.length]);
+  };
+
+  const emitFinal = () => {
+    const startMs = session.utteranceStartMs;
+    const endMs = session.receivedMs;
+    if (endMs - startMs < 200) return;
+    const words = fakeText(startMs, endMs);
+    const step = (endMs - startMs) / words.length;
+    const text = words.join(' ');
+    send({
+      type: 'final',
+      text: text.charAt(0).toUpperCase() + text.slice(1) + '.',
+      startMs,
+      endMs,
+      confidence: 0.9,
+      speaker: String(session.speaker),
+      languageCode: 'vi-VN',
+      words: words.map((word, i) => ({
+        text: word,
+        startMs: Math.round(startMs + i * step),
+        endMs: Math.round(startMs + (i + 1) * step),
+        confidence: 0.9
+      }))
+    });
+    session.speaker = session.speaker === 1 ? 2 : 1;
+    session.utteranceStartMs = endMs;
+    session.lastPartialMs = endMs;
+  };
+
+  const onMessage = (opcode, payload) => {
+    if (socket.writableEnded) return; // Already closing (e.g. the client echoing our close frame)
+
+    if (opcode === 0x1) {
+      const message = JSON.parse(payload.toString('utf8'));
+      console.log('←', message.type, message.type === 'start' ? JSON.stringify({ ...message, token: message.token ? '***' : undefined }) : '');
+      if (message.type === 'start') {
+        session.sampleRate = message.sampleRate || 16000;
+        send({ type: 'ready' });
+      } else if (message.type === 'stop') {
+        emitFinal();
+        socket.end(encodeFrame(0x8, Buffer.from([0x03, 0xe8]))); // 1000 = normal closure
+      }
+      return;
+    }
+
+    if (opcode === 0x2) {
+      // pcm_s16le mono: 2 bytes per sample
+      session.receivedMs += (payload.length / 2 / session.sampleRate) * 1000;
+      if (session.receivedMs - session.utteranceStartMs >= FINAL_EVERY_MS) {
+        emitFinal();
+      } else if (session.receivedMs - session.lastPartialMs >= PARTIAL_EVERY_MS) {
+        session.lastPartialMs = session.receivedMs;
+        send({
+          type: 'partial',
+          text: fakeText(session.utteranceStartMs, session.receivedMs).join(' '),
+          startMs: Math.round(session.utteranceStartMs)
+        });
+      }
+      return;
+    }
+
+    if (opcode === 0x8) socket.end(encodeFrame(0x8, Buffer.alloc(0)));
+    if (opcode === 0x9) socket.write(encodeFrame(0xa, payload));
+  };
+
+  socket.on('data', data => {
+    pending = Buffer.concat([pending, data]);
+    let frame;
+    while ((frame = decodeFrame(pending))) {
+      pending = pending.subarray(frame.length);
+      onMessage(frame.opcode, frame.payload);
+    }
+  });
+  socket.on('error', error => console.log('Socket error:', error.message));
+  socket.on('close', () => console.log(`Stream closed after ${(session.receivedMs / 1000).toFixed(1)} s of audio`));
+});
+
+// Parses one client frame (always masked). Returns null until the whole frame has arrived.
+// Fragmented messages are not supported; the provider never sends them.
+function decodeFrame(buffer) {
+  if (buffer.length < 2) return null;
+  const opcode = buffer[0] & 0x0f;
+  let payloadLength = buffer[1] & 0x7f;
+  let offset = 2;
+  if (payloadLength === 126) {
+    if (buffer.length < 4) return null;
+    payloadLength = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (payloadLength === 127) {
+    if (buffer.length < 10) return null;
+    payloadLength = Number(buffer.readBigUInt64BE(2));
+    offset = 10;
+  }
+  const masked = (buffer[1] & 0x80) !== 0;
+  const maskOffset = offset;
+  if (masked) offset += 4;
+  if (buffer.length < offset + payloadLength) return null;
+
+  const payload = Buffer.from(buffer.subarray(offset, offset + payloadLength));
+  if (masked) {
+    for (let i = 0; i < payload.length; i++) payload[i] ^= buffer[maskOffset + (i % 4)];
+  }
+  return { opcode, payload, length: offset + payloadLength };
+}
+
+// Builds one unmasked server frame
+function encodeFrame(opcode, payload) {
+  let header;
+  if (payload.length < 126) {
+    header = Buffer.from([0x80 | opcode, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+server.listen(PORT, () => {
+  console.log(`Mock streaming gateway listening on ws://localhost:${PORT}/v1/stream`);
+});
@@ -0,0 +1,53 @@
+// Minimal stand-in for an OpenAI/Whisper-compatible transcription server.
+// Usage: npm run mock:whisper  (listens on http://localhost:8080/v1/audio/transcriptions)
+import http from 'node:http';
+
+const PORT = Number(process.env.PORT) || 8080;
+
+const server = http.createServer((req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+
+  if (req.method !== 'POST' || req.url !== '/v1/audio/transcriptions') {
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: { message: 'Not found' } }));
+    return;
+  }
+
+  const chunks = [];
+  req.on('data', chunk => chunks.push(chunk));
+  req.on('end', () => {
+    const body = Buffer.concat(chunks).toString('latin1');
+    const field = name => body.match(new RegExp(`name="${name.replace(/[[\]]/g, '\\$&')}"\\r\\n\\r\\n([^\\r]*)`))?.[1];
+
+    if (!body.includes('name="file"')) {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: { message: 'Missing file' } }));
+      return;
+    }
+
+    const bytes = Buffer.byteLength(body, 'latin1');
+    console.log(`POST ${req.url} model=${field('model')} language=${field('language')} format=${field('response_format')} bytes=${bytes}`);
+
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      task: 'transcribe',
+      language: field('language') || 'vi',
+      duration: 6.5,
+      text: 'Xin chào mọi người. Chúng ta bắt đầu cuộc họp.',
+      segments: [
+        { id: 0, start: 0.4, end: 2.9, text: ' Xin chào mọi người.', avg_logprob: -0.12, no_speech_prob: 0.01 },
+        { id: 1, start: 3.1, end: 6.5, text: ' Chúng ta bắt đầu cuộc họp.', avg_logprob: -0.35, no_speech_prob: 0.02 }
+      ]
+    }));
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock Whisper server on http://localhost:${PORT}/v1/audio/transcriptions`);
+});
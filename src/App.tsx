@@ -1,4 +1,5 @@
 import React, { useState, useEffect, useRef } from 'react';
+import { App as AntdApp } from 'antd';
 import { MetadataPanel } from './components/MetadataPanel';
 import { RecordingControls } from './components/RecordingControls';
 import { NotesEditor } from './components/NotesEditor';
@@ -6,13 +7,24 @@ import { AudioPlayer, AudioPlayerRef } from './components/AudioPlayer';
 import { HelpButton } from './components/HelpButton';
 import { TranscriptionConfig } from './components/TranscriptionConfig';
 import { TranscriptionPanel } from './components/TranscriptionPanel';
+import { SpeakerRegistryPanel } from './components/SpeakerRegistryPanel';
+import { TranscriptionJobModal } from './components/TranscriptionJobModal';
+import { FindReplaceModal, type TranscriptReplacement } from './components/FindReplaceModal';
+import { ProjectSearchBox } from './components/ProjectSearchBox';
+import { FollowUpsPanel } from './components/FollowUpsPanel';
+import { AgendaPanel } from './components/AgendaPanel';
 import { FileManagerService } from './services/fileManager';
 import { saveBackup, loadBackup, clearBackup, hasBackup, getBackupAge } from './services/autoBackup';
 import { speechToTextService, SpeechToTextService } from './services/speechToText';
-import type { MeetingInfo, SpeechToTextConfig, TranscriptionResult } from './types/types';
+import { SpeakerRegistry } from './services/speakerRegistry';
+import { TranscriptDiff } from './services/transcriptDiff';
+import { NoteDocument } from './services/noteDocument';
+import { NoteTemplates } from './services/noteTemplates';
+import type { AudioRange, MeetingInfo, NoteBlock, NoteTemplate, SpeakerProfile, SpeechToTextConfig, TranscriptionResult, TranscriptVersion } from './types/types';
 import './styles/global.css';
 
 export const App: React.FC = () => {
+  const { message } = AntdApp.useApp();
   const [folderPath, setFolderPath] = useState<string>('');
   const [isRecording, setIsRecording] = useState(false);
   const [audioBlob, setAudioBlob] = useState<Blob | null>(null);
@@ -24,14 +36,11 @@ export const App: React.FC = () => {
     host: '',
     attendees: ''
   });
-  const [notes, setNotes] = useState<string>('');
-  const [timestampMap, setTimestampMap] = useState<Map<number, number>>(new Map());
-  const [speakersMap, setSpeakersMap] = useState<Map<number, string>>(new Map());
+  const [noteBlocks, setNoteBlocks] = useState<NoteBlock[]>(() => NoteDocument.empty()); // Lines with their speaker, time, tag and formatting
   const [recordingStartTime, setRecordingStartTime] = useState<number>(0);
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   const [isSaved, setIsSaved] = useState(false);
-  const [savedNotesSnapshot, setSavedNotesSnapshot] = useState<string>('');
-  const [savedSpeakersSnapshot, setSavedSpeakersSnapshot] = useState<Map<number, string>>(new Map());
+  const [savedBlocksSnapshot, setSavedBlocksSnapshot] = useState<NoteBlock[]>([]);
   const [isLiveMode, setIsLiveMode] = useState(true); // true = live recording, false = loaded project
   const [showBackupDialog, setShowBackupDialog] = useState(false);
   const [backupAge, setBackupAge] = useState<number | null>(null);
@@ -40,9 +49,25 @@ export const App: React.FC = () => {
   
   // Speech-to-Text states
   const [showTranscriptionConfig, setShowTranscriptionConfig] = useState(false);
+  const [showTranscriptionJob, setShowTranscriptionJob] = useState(false);
+  const [transcriptionRange, setTranscriptionRange] = useState<AudioRange | null>(null); // null = whole file
   const [transcriptionConfig, setTranscriptionConfig] = useState<SpeechToTextConfig | null>(null);
   const [transcriptions, setTranscriptions] = useState<TranscriptionResult[]>([]);
+  const [transcriptVersions, setTranscriptVersions] = useState<TranscriptVersion[]>([]); // Stored passes, for comparison
+  const [transcriptSource, setTranscriptSource] = useState<TranscriptVersion['source']>('live'); // Pass the transcript in use came from
+  const [pendingFileVersion, setPendingFileVersion] = useState(false); // Store the file pass once its results have rendered
+  const versionFileJobRef = useRef(false); // Running job is a whole-file replace (kept as a version)
   const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [showFindReplace, setShowFindReplace] = useState(false);
+
+  // Latest speaker registry for transcription callbacks captured when recording started
+  const speakerRegistryRef = useRef<SpeakerProfile[]>([]);
+  speakerRegistryRef.current = meetingInfo.speakers || [];
+
+  // Send the open project's vocabulary with every recognition request
+  useEffect(() => {
+    speechToTextService.setProjectPhraseHints(meetingInfo.phraseHints);
+  }, [meetingInfo.phraseHints]);
 
   // Check browser compatibility
   useEffect(() => {
@@ -79,78 +104,21 @@ export const App: React.FC = () => {
   
   // Handle transcribe-audio event from AudioPlayer
   useEffect(() => {
-    const handleTranscribeAudio = async () => {
+    const handleTranscribeAudio = (e: Event) => {
+      const customEvent = e as CustomEvent<{ range?: AudioRange } | null>;
       if (!audioBlob) {
-        alert('No audio file loaded');
+        message.warning('Chưa có file audio');
         return;
       }
 
       if (!speechToTextService.isConfigured()) {
-        alert('Please configure Speech-to-Text settings first');
+        message.warning('Vui lòng cấu hình Speech-to-Text trước');
         setShowTranscriptionConfig(true);
         return;
       }
 
-      const confirmed = window.confirm(
-        'This will transcribe the entire audio file and replace existing transcription results. Continue?'
-      );
-      
-      if (!confirmed) return;
-
-      // console.log('🎬 Starting audio file transcription...');
-      
-      // Clear existing transcriptions
-      setTranscriptions([]);
-
-      try {
-        // Show progress notification
-        const progressDiv = document.createElement('div');
-        progressDiv.id = 'transcribe-progress';
-        progressDiv.style.cssText = `
-          position: fixed;
-          top: 50%;
-          left: 50%;
-          transform: translate(-50%, -50%);
-          background: white;
-          padding: 24px;
-          border-radius: 8px;
-          box-shadow: 0 4px 12px rgba(0,0,0,0.3);
-          z-index: 10000;
-          min-width: 300px;
-          text-align: center;
-        `;
-        progressDiv.innerHTML = `
-          <div style="font-size: 16px; font-weight: bold; margin-bottom: 12px;">🎤 Transcribing Audio...</div>
-          <div id="progress-text" style="font-size: 14px; color: #666;">Starting...</div>
-          <div style="width: 100%; height: 8px; background: #f0f0f0; border-radius: 4px; margin-top: 12px; overflow: hidden;">
-            <div id="progress-bar" style="width: 0%; height: 100%; background: #1890ff; transition: width 0.3s;"></div>
-          </div>
-        `;
-        document.body.appendChild(progressDiv);
-
-        const updateProgress = (progress: number) => {
-          const progressBar = document.getElementById('progress-bar');
-          const progressText = document.getElementById('progress-text');
-          if (progressBar) progressBar.style.width = `${progress}%`;
-          if (progressText) progressText.textContent = `${Math.floor(progress)}% complete`;
-        };
-
-        await speechToTextService.transcribeAudioFile(
-          audioBlob,
-          handleNewTranscription,
-          updateProgress,
-          () => {
-            progressDiv.remove();
-            setHasUnsavedChanges(true); // Mark as unsaved
-            alert('✅ Transcription complete! Click "Save Changes" to save the results.');
-          }
-        );
-      } catch (error: any) {
-        const progressDiv = document.getElementById('transcribe-progress');
-        if (progressDiv) progressDiv.remove();
-        alert(`Transcription failed: ${error.message}`);
-        console.error('Transcription error:', error);
-      }
+      setTranscriptionRange(customEvent.detail?.range || null);
+      setShowTranscriptionJob(true);
     };
 
     window.addEventListener('transcribe-audio', handleTranscribeAudio);
@@ -173,26 +141,15 @@ export const App: React.FC = () => {
 
   // Track unsaved changes
   useEffect(() => {
-    // Check if speakers have been modified
-    const speakersModified = isSaved && !mapsAreEqual(savedSpeakersSnapshot, speakersMap);
-    
     // Có dữ liệu chưa lưu nếu:
     // 1. Đang recording
     // 2. Có audio/notes nhưng chưa save lần đầu
-    // 3. Đã save nhưng notes hoặc speakers bị sửa đổi
-    const notesModified = isSaved && savedNotesSnapshot !== notes;
-    const hasData = isRecording || (!isSaved && (audioBlob !== null || notes.trim().length > 0)) || notesModified || speakersModified;
+    // 3. Đã save nhưng notes (nội dung, speakers, đánh dấu hoặc định dạng) bị sửa đổi
+    const notesModified = isSaved && !NoteDocument.equals(savedBlocksSnapshot, noteBlocks);
+    const hasData = isRecording || (!isSaved && (audioBlob !== null || NoteDocument.hasContent(noteBlocks)))
+      || notesModified;
     setHasUnsavedChanges(hasData);
-  }, [isRecording, audioBlob, notes, speakersMap, isSaved, savedNotesSnapshot, savedSpeakersSnapshot]);
-  
-  // Helper function to compare two Maps
-  function mapsAreEqual(map1: Map<number, string>, map2: Map<number, string>): boolean {
-    if (map1.size !== map2.size) return false;
-    for (const [key, value] of map1) {
-      if (map2.get(key) !== value) return false;
-    }
-    return true;
-  }
+  }, [isRecording, audioBlob, noteBlocks, isSaved, savedBlocksSnapshot]);
   
   // Auto-save to localStorage with debounce (every 3 seconds after changes)
   useEffect(() => {
@@ -212,8 +169,7 @@ export const App: React.FC = () => {
         
         saveBackup(
           meetingInfoForBackup,
-          notes,
-          timestampMap,
+          noteBlocks,
           recordingStartTime,
           audioBlob,
           isSaved
@@ -226,7 +182,7 @@ export const App: React.FC = () => {
         clearTimeout(autoSaveTimeoutRef.current);
       }
     };
-  }, [meetingInfo, notes, timestampMap, recordingStartTime, audioBlob, hasUnsavedChanges, isSaved]);
+  }, [meetingInfo, noteBlocks, recordingStartTime, audioBlob, hasUnsavedChanges, isSaved]);
 
   // Switch to live mode when starting a new recording
   useEffect(() => {
@@ -264,8 +220,7 @@ export const App: React.FC = () => {
   const handleSaveComplete = () => {
     setIsSaved(true);
     setHasUnsavedChanges(false);
-    setSavedNotesSnapshot(notes); // Save snapshot to detect future changes
-    setSavedSpeakersSnapshot(new Map(speakersMap)); // Save speakers snapshot
+    setSavedBlocksSnapshot(noteBlocks); // Save snapshot to detect future changes
     // Clear auto-backup after successful save
     clearBackup();
   };
@@ -281,8 +236,7 @@ export const App: React.FC = () => {
         host: '',
         attendees: backup.meetingInfo.participants
       });
-      setNotes(backup.notes);
-      setTimestampMap(backup.timestampMap);
+      setNoteBlocks(backup.noteBlocks);
       setRecordingStartTime(backup.recordingStartTime);
       if (backup.audioBlob) {
         setAudioBlob(backup.audioBlob);
@@ -301,34 +255,34 @@ export const App: React.FC = () => {
 
   const handleLoadProject = (loadedData: {
     meetingInfo: MeetingInfo;
-    notes: string;
-    timestampMap: Map<number, number>;
-    speakersMap: Map<number, string>;
+    noteBlocks: NoteBlock[];
     audioBlob: Blob | null;
     recordingStartTime: number;
   }) => {
     // console.log('📂 App.handleLoadProject - Data received:', {
     //   meetingInfo: loadedData.meetingInfo,
-    //   notesLength: loadedData.notes.length,
-    //   timestampMapSize: loadedData.timestampMap.size,
-    //   speakersMapSize: loadedData.speakersMap.size,
+    //   blockCount: loadedData.noteBlocks.length,
     //   audioBlobSize: loadedData.audioBlob?.size || 0,
     //   hasAudio: loadedData.audioBlob !== null
     // });
     
     setMeetingInfo(loadedData.meetingInfo);
-    setNotes(loadedData.notes);
-    setTimestampMap(loadedData.timestampMap);
-    setSpeakersMap(loadedData.speakersMap);
+    setNoteBlocks(loadedData.noteBlocks);
     setAudioBlob(loadedData.audioBlob);
     setRecordingStartTime(loadedData.recordingStartTime);
     setIsSaved(true);
     setHasUnsavedChanges(false);
-    setSavedNotesSnapshot(loadedData.notes);
-    setSavedSpeakersSnapshot(new Map(loadedData.speakersMap)); // Save speakers snapshot
+    setSavedBlocksSnapshot(loadedData.noteBlocks);
     setIsLiveMode(false); // Switch to timestamp mode when loading project
   };
 
+  // Start the meeting from a template: info defaults, agenda, speaker presets and section headings
+  const handleApplyTemplate = (template: NoteTemplate) => {
+    setMeetingInfo(prev => NoteTemplates.applyToMeetingInfo(template, prev));
+    setNoteBlocks(NoteTemplates.createBlocks(template));
+    setHasUnsavedChanges(true);
+  };
+
   // Handle transcription config save
   const handleSaveTranscriptionConfig = (config: SpeechToTextConfig) => {
     setTranscriptionConfig(config);
@@ -341,7 +295,14 @@ export const App: React.FC = () => {
     setTranscriptions(prev => 
       prev.map(item => 
         item.id === id 
-          ? { ...item, text: newText, speaker: newSpeaker, isManuallyEdited: true }
+          ? {
+              ...item,
+              text: newText,
+              speaker: newSpeaker,
+              isManuallyEdited: true,
+              // Word timings no longer match once the text is rewritten
+              words: newText === item.text ? item.words : undefined
+            }
           : item
       )
     );
@@ -349,14 +310,155 @@ export const App: React.FC = () => {
     // console.log('✏️ Transcription edited:', { id, newText, newSpeaker });
   };
 
+  // Replace-all from the find/replace dialog; counts as a manual edit of each touched segment
+  const handleReplaceInTranscriptions = (updates: TranscriptReplacement[]) => {
+    const byId = new Map(updates.map(update => [update.id, update]));
+    setTranscriptions(prev =>
+      prev.map(item => {
+        const update = byId.get(item.id);
+        if (!update) return item;
+        const text = update.text ?? item.text;
+        return {
+          ...item,
+          text,
+          speaker: update.speaker ?? item.speaker,
+          // Keep the recognizer's label so the registry still finds the segment
+          speakerLabel: update.speaker !== undefined ? item.speakerLabel ?? item.speaker : item.speakerLabel,
+          isManuallyEdited: true,
+          words: text === item.text ? item.words : undefined
+        };
+      })
+    );
+    setHasUnsavedChanges(true);
+  };
+
+  // Mark a segment as checked (or not) in review mode
+  const handleReviewTranscription = (id: string, reviewed: boolean) => {
+    setTranscriptions(prev =>
+      prev.map(item => (item.id === id ? { ...item, isReviewed: reviewed } : item))
+    );
+    setHasUnsavedChanges(true);
+  };
+
+  // Rename a speaker once: update the registry, every segment still showing the old name and the notes' speakers
+  const handleSpeakerChange = (profile: SpeakerProfile) => {
+    const registry = meetingInfo.speakers || [];
+    const previous = SpeakerRegistry.find(registry, profile.label);
+    const oldName = previous ? SpeakerRegistry.displayName(previous) : profile.label;
+    const newName = SpeakerRegistry.displayName(profile);
+
+    setMeetingInfo({
+      ...meetingInfo,
+      speakers: previous
+        ? registry.map(item => (item.label === profile.label ? profile : item))
+        : [...registry, profile]
+    });
+
+    if (oldName !== newName) {
+      setTranscriptions(prev =>
+        prev.map(item =>
+          SpeakerRegistry.labelOf(item) === profile.label && item.speaker === oldName
+            ? { ...item, speakerLabel: profile.label, speaker: newName }
+            : item
+        )
+      );
+
+      setNoteBlocks(prev => prev.map(block => (block.speaker === oldName ? { ...block, speaker: newName } : block)));
+    }
+
+    setHasUnsavedChanges(true);
+  };
+
+  // Remember the diarization label and show the registered name, if any
+  const withRegisteredSpeaker = (incoming: TranscriptionResult): TranscriptionResult => {
+    const speakerLabel = SpeakerRegistry.labelOf(incoming);
+    const profile = SpeakerRegistry.find(speakerRegistryRef.current, speakerLabel);
+    return {
+      ...incoming,
+      speakerLabel,
+      speaker: profile && !incoming.isManuallyEdited ? SpeakerRegistry.displayName(profile) : incoming.speaker
+    };
+  };
+
+  const isInRange = (item: TranscriptionResult, range: AudioRange): boolean =>
+    item.audioTimeMs !== undefined && item.audioTimeMs >= range.startMs && item.audioTimeMs < range.endMs;
+
+  // Insert before the first segment that starts later (segments without audio time are skipped over)
+  const insertByAudioTime = (list: TranscriptionResult[], result: TranscriptionResult): TranscriptionResult[] => {
+    const startMs = result.audioTimeMs ?? 0;
+    const insertAt = list.findIndex(item => item.audioTimeMs !== undefined && item.audioTimeMs > startMs);
+    if (insertAt === -1) return [...list, result];
+    return [...list.slice(0, insertAt), result, ...list.slice(insertAt)];
+  };
+
+  // Results of a region transcription go in by audio time instead of after the last segment
+  const handleRegionTranscription = (incoming: TranscriptionResult) => {
+    if (!incoming || !incoming.text || !incoming.isFinal) return;
+
+    const result = withRegisteredSpeaker(incoming);
+    setTranscriptions(prev => insertByAudioTime(prev.filter(item => item.isFinal), result));
+  };
+
+  // Store a transcript as a named version, unless an identical one is already stored
+  const storeTranscriptVersion = (source: TranscriptVersion['source'], items: TranscriptionResult[]) => {
+    const finalResults = items.filter(item => item.isFinal);
+    if (finalResults.length === 0) return;
+
+    const createdAt = new Date();
+    const version: TranscriptVersion = {
+      id: `version-${createdAt.getTime()}`,
+      name: `${source === 'live' ? 'Ghi trực tiếp' : 'Chuyển đổi file'} ${createdAt.toLocaleString('vi-VN', { hour: '2-digit', minute: '2-digit', day: '2-digit', month: '2-digit' })}`,
+      source,
+      createdAt: createdAt.toISOString(),
+      transcriptions: finalResults
+    };
+    setTranscriptVersions(prev =>
+      prev.some(item => TranscriptDiff.isSameTranscript(item.transcriptions, finalResults)) ? prev : [...prev, version]
+    );
+  };
+
+  // A whole-file pass becomes a version too, once its last results are in state
+  useEffect(() => {
+    if (!pendingFileVersion) return;
+    setPendingFileVersion(false);
+    storeTranscriptVersion('file', transcriptions);
+  }, [pendingFileVersion, transcriptions]);
+
+  // Take one compared row from a stored version into the transcript in use
+  const handleAcceptSegments = (removeIds: string[], insert: TranscriptionResult[]) => {
+    setTranscriptions(prev => {
+      const kept = prev.filter(item => item.isFinal && !removeIds.includes(item.id));
+      const keptIds = new Set(kept.map(item => item.id));
+      return insert
+        .filter(item => !keptIds.has(item.id))
+        .reduce((list, item) => insertByAudioTime(list, withRegisteredSpeaker(item)), kept);
+    });
+    setHasUnsavedChanges(true);
+  };
+
+  const handleAcceptVersion = (version: TranscriptVersion) => {
+    storeTranscriptVersion(transcriptSource, transcriptions);
+    setTranscriptions(version.transcriptions.map(withRegisteredSpeaker));
+    setTranscriptSource(version.source);
+    setHasUnsavedChanges(true);
+  };
+
+  const handleClearTranscriptions = () => {
+    setTranscriptions([]);
+    setTranscriptVersions([]);
+    setTranscriptSource('live');
+  };
+
   // Handle new transcription result
-  const handleNewTranscription = (result: TranscriptionResult) => {
+  const handleNewTranscription = (incoming: TranscriptionResult) => {
     // Validate result has text
-    if (!result || !result.text) {
-      console.warn('⚠️ Received invalid transcription result:', result);
+    if (!incoming || !incoming.text) {
+      console.warn('⚠️ Received invalid transcription result:', incoming);
       return;
     }
 
+    const result = withRegisteredSpeaker(incoming);
+
     setTranscriptions(prev => {
       // Nếu là kết quả final
       if (result.isFinal) {
@@ -447,6 +549,12 @@ export const App: React.FC = () => {
     }
   };
 
+  const handlePlayAudioRange = (range: AudioRange) => {
+    if (audioPlayerRef.current) {
+      audioPlayerRef.current.playRange(range.startMs, range.endMs);
+    }
+  };
+
   return (
     <div className="app-container">
       {/* Backup Restoration Dialog */}
@@ -519,6 +627,11 @@ export const App: React.FC = () => {
       
       <header className="app-header">
         <h1>📝 Live Meeting Notes</h1>
+        <ProjectSearchBox
+          noteBlocks={noteBlocks}
+          recordingStartTime={recordingStartTime}
+          transcriptions={transcriptions}
+        />
         <div className="status-indicator">
           {navigator.onLine ? '🌐 Online' : '📴 Offline'}
           {hasUnsavedChanges && <span className="unsaved-indicator" title="Bạn có dữ liệu chưa lưu">⚠️ Chưa lưu</span>}
@@ -528,6 +641,16 @@ export const App: React.FC = () => {
 
       <MetadataPanel meetingInfo={meetingInfo} onChange={setMeetingInfo} />
 
+      <AgendaPanel
+        agenda={meetingInfo.agenda}
+        attendees={meetingInfo.attendees}
+        isRecording={isRecording}
+        onChange={(agenda) => {
+          setMeetingInfo(prev => ({ ...prev, agenda }));
+          setHasUnsavedChanges(true);
+        }}
+      />
+
       <RecordingControls
         folderPath={folderPath}
         onFolderSelect={setFolderPath}
@@ -537,9 +660,7 @@ export const App: React.FC = () => {
         onSaveComplete={handleSaveComplete}
         onLoadProject={handleLoadProject}
         meetingInfo={meetingInfo}
-        notes={notes}
-        timestampMap={timestampMap}
-        speakersMap={speakersMap}
+        noteBlocks={noteBlocks}
         recordingStartTime={recordingStartTime}
         onRecordingStartTimeChange={setRecordingStartTime}
         audioBlob={audioBlob}
@@ -549,8 +670,17 @@ export const App: React.FC = () => {
         transcriptionConfig={transcriptionConfig}
         shouldBlink={!transcriptionConfig} 
         onNewTranscription={handleNewTranscription}
-        onClearTranscriptions={() => setTranscriptions([])}
+        onClearTranscriptions={handleClearTranscriptions}
         transcriptions={transcriptions}
+        transcriptVersions={transcriptVersions}
+        transcriptSource={transcriptSource}
+        onLoadTranscripts={(items, versions, source) => {
+          // Saved with their registered names; the registry in state may still be the previous project's
+          setTranscriptions(items);
+          setTranscriptVersions(versions);
+          setTranscriptSource(source);
+        }}
+        onApplyTemplate={handleApplyTemplate}
       />
 
       {/* Transcription Panel - Only show when online and configured */}
@@ -561,21 +691,74 @@ export const App: React.FC = () => {
           isOnline={isOnline}
           onSeekAudio={handleSeekToAudio}
           onEditTranscription={handleEditTranscription}
+          speakers={meetingInfo.speakers}
+          versions={transcriptVersions}
+          onAcceptSegments={handleAcceptSegments}
+          onAcceptVersion={handleAcceptVersion}
+          onPlayAudioRange={handlePlayAudioRange}
+          onReviewTranscription={handleReviewTranscription}
         />
       )}
 
+      <SpeakerRegistryPanel
+        speakers={meetingInfo.speakers}
+        transcriptions={transcriptions}
+        attendees={meetingInfo.attendees}
+        onSpeakerChange={handleSpeakerChange}
+      />
+
       <NotesEditor
-        notes={notes}
-        onNotesChange={setNotes}
-        timestampMap={timestampMap}
-        onTimestampMapChange={setTimestampMap}
+        blocks={noteBlocks}
+        onBlocksChange={setNoteBlocks}
         recordingStartTime={recordingStartTime}
         isLiveMode={isLiveMode}
-        onSpeakersChange={setSpeakersMap}
-        initialSpeakers={speakersMap}
+        onOpenFindReplace={() => setShowFindReplace(true)}
       />
 
-      <AudioPlayer ref={audioPlayerRef} audioBlob={audioBlob} transcriptionConfig={transcriptionConfig} />
+      <FollowUpsPanel
+        noteBlocks={noteBlocks}
+        recordingStartTime={recordingStartTime}
+      />
+
+      <AudioPlayer ref={audioPlayerRef} audioBlob={audioBlob} />
+
+      {/* Whole-file or selected-region transcription job */}
+      <TranscriptionJobModal
+        open={showTranscriptionJob}
+        audioBlob={audioBlob}
+        range={transcriptionRange}
+        existingCount={transcriptions.filter(t => t.isFinal && (!transcriptionRange || isInRange(t, transcriptionRange))).length}
+        onClose={() => setShowTranscriptionJob(false)}
+        onStart={(mode) => {
+          versionFileJobRef.current = mode === 'replace' && !transcriptionRange;
+          if (mode !== 'replace') return;
+          if (transcriptionRange) {
+            setTranscriptions(prev => prev.filter(t => t.isFinal && !isInRange(t, transcriptionRange)));
+          } else {
+            // The replaced pass stays available for comparison
+            storeTranscriptVersion(transcriptSource, transcriptions);
+            setTranscriptions([]);
+            setTranscriptSource('file');
+          }
+        }}
+        onTranscription={transcriptionRange ? handleRegionTranscription : handleNewTranscription}
+        onFinished={() => {
+          if (versionFileJobRef.current) setPendingFileVersion(true);
+          versionFileJobRef.current = false;
+          setHasUnsavedChanges(true);
+        }}
+      />
+
+      {/* Find and replace across notes and transcripts */}
+      <FindReplaceModal
+        open={showFindReplace}
+        onClose={() => setShowFindReplace(false)}
+        noteBlocks={noteBlocks}
+        recordingStartTime={recordingStartTime}
+        transcriptions={transcriptions}
+        onReplaceTranscriptions={handleReplaceInTranscriptions}
+        onSeekAudio={handleSeekToAudio}
+      />
 
       {/* Transcription Configuration Modal */}
       <TranscriptionConfig
@@ -583,6 +766,11 @@ export const App: React.FC = () => {
         onClose={() => setShowTranscriptionConfig(false)}
         onSave={handleSaveTranscriptionConfig}
         currentConfig={transcriptionConfig}
+        projectPhraseHints={meetingInfo.phraseHints}
+        onProjectPhraseHintsChange={(phraseHints) => {
+          setMeetingInfo(prev => ({ ...prev, phraseHints }));
+          setHasUnsavedChanges(true);
+        }}
       />
     </div>
   );
@@ -0,0 +1,220 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Collapse, Tag, Input, InputNumber, AutoComplete, Button, Tooltip } from 'antd';
+import { DeleteOutlined, PlusOutlined, StepForwardOutlined, UnorderedListOutlined } from '@ant-design/icons';
+import type { AgendaItem } from '../types/types';
+import { Agenda } from '../services/agenda';
+
+interface Props {
+  agenda?: AgendaItem[];
+  attendees: string; // Free-text attendee list from MeetingInfo, used as presenter suggestions
+  isRecording: boolean;
+  onChange: (agenda: AgendaItem[]) => void;
+}
+
+// mm:ss, or h:mm:ss past an hour
+const formatElapsed = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const mmss = `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+};
+
+export const AgendaPanel: React.FC<Props> = ({
+  agenda,
+  attendees,
+  isRecording,
+  onChange
+}) => {
+  const items = agenda || [];
+  const [now, setNow] = useState(Date.now());
+  const wasRecordingRef = useRef(isRecording);
+
+  const activeIndex = Agenda.activeIndex(items);
+  const nextIndex = Agenda.nextIndex(items);
+  const active = activeIndex >= 0 ? items[activeIndex] : undefined;
+
+  // Tick the running item's clock while recording
+  useEffect(() => {
+    if (!isRecording) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isRecording]);
+
+  // Stopping the recording ends the running item
+  useEffect(() => {
+    if (wasRecordingRef.current && !isRecording && active) {
+      onChange(items.map((item, index) => (index === activeIndex ? { ...item, endMs: Date.now() } : item)));
+    }
+    wasRecordingRef.current = isRecording;
+  }, [isRecording]);
+
+  // End the running item, start the next one and open a section for it in the notes
+  const advance = () => {
+    if (!isRecording || (!active && nextIndex < 0)) return;
+    const time = Date.now();
+    const { items: updated, started } = Agenda.advance(items, time);
+    onChange(updated);
+    setNow(time);
+    if (started) {
+      window.dispatchEvent(new CustomEvent('insert-note-heading', {
+        detail: {
+          text: started.title.trim() || `Mục ${nextIndex + 1}`,
+          speaker: started.presenter,
+          timeMs: time
+        }
+      }));
+    }
+  };
+
+  // Ctrl+Alt+N: next agenda item (only while recording, from anywhere on the page)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey && e.altKey && e.code === 'KeyN') {
+        if (!isRecording) return;
+        e.preventDefault();
+        advance();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [items, isRecording]);
+
+  const attendeeOptions = attendees
+    .split(/[,;\n]/)
+    .map(name => name.trim())
+    .filter(name => name.length > 0)
+    .map(name => ({ value: name }));
+
+  const updateItem = (index: number, changes: Partial<AgendaItem>) => {
+    onChange(items.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const addItem = () => onChange([...items, Agenda.createItem()]);
+
+  const removeItem = (index: number) => onChange(items.filter((_, i) => i !== index));
+
+  const renderStatus = () => {
+    if (active) {
+      const overTime = Agenda.overTimeMs(active, now) > 0;
+      return (
+        <>
+          <Tag color={overTime ? 'red' : 'green'} style={{ marginLeft: 8 }}>
+            {activeIndex + 1}. {active.title || 'Chưa đặt tên'} · {formatElapsed(Agenda.actualMs(active, now) || 0)} / {active.plannedMinutes} phút
+          </Tag>
+          {overTime && <Tag color="red">⚠️ Quá giờ {formatElapsed(Agenda.overTimeMs(active, now))}</Tag>}
+        </>
+      );
+    }
+    if (isRecording && nextIndex >= 0) {
+      return <span style={{ marginLeft: 8, fontSize: '12px', color: '#888' }}>Nhấn Ctrl+Alt+N để bắt đầu mục {nextIndex + 1}</span>;
+    }
+    return (
+      <Tag color="blue" style={{ marginLeft: 8 }}>
+        {items.length} mục · {Agenda.formatMinutes(Agenda.totalPlannedMinutes(items))}
+      </Tag>
+    );
+  };
+
+  // Actual vs. planned once an item has been run
+  const renderActual = (item: AgendaItem, index: number) => {
+    if (item.startMs === undefined) return null;
+    const actualMinutes = (Agenda.actualMs(item, now) || 0) / 60000;
+    const overTime = Agenda.overTimeMs(item, now) > 0;
+    return (
+      <Tooltip title={index === activeIndex ? 'Đang diễn ra' : 'Thời gian thực tế'}>
+        <Tag color={overTime ? 'red' : index === activeIndex ? 'green' : 'default'} style={{ minWidth: '70px', textAlign: 'center' }}>
+          {index === activeIndex ? formatElapsed(Agenda.actualMs(item, now) || 0) : Agenda.formatMinutes(actualMinutes)}
+        </Tag>
+      </Tooltip>
+    );
+  };
+
+  return (
+    <Collapse
+      defaultActiveKey={[]}
+      items={[
+        {
+          key: '1',
+          label: (
+            <span>
+              <UnorderedListOutlined /> Chương trình họp {items.length > 0 && renderStatus()}
+            </span>
+          ),
+          extra: isRecording && (active || nextIndex >= 0) ? (
+            <Button
+              size="small"
+              type="primary"
+              icon={<StepForwardOutlined />}
+              onClick={(e) => {
+                e.stopPropagation(); // Don't toggle the panel
+                advance();
+              }}
+            >
+              {active && nextIndex < 0 ? 'Kết thúc mục cuối' : 'Mục tiếp theo'} (Ctrl+Alt+N)
+            </Button>
+          ) : undefined,
+          children: (
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+              <div style={{ fontSize: '12px', color: '#888' }}>
+                Lập chương trình trước cuộc họp. Khi ghi âm, nhấn Ctrl+Alt+N để chuyển sang mục tiếp theo - mỗi mục trở thành một tiêu đề mục trong ghi chú.
+              </div>
+              {items.map((item, index) => (
+                <div key={item.id} style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                  <span style={{ minWidth: '20px', color: index === activeIndex ? '#52c41a' : '#888' }}>{index + 1}.</span>
+                  <Input
+                    size="small"
+                    style={{ flex: 3 }}
+                    value={item.title}
+                    placeholder="Nội dung"
+                    onChange={(e) => updateItem(index, { title: e.target.value })}
+                  />
+                  <AutoComplete
+                    size="small"
+                    style={{ flex: 2 }}
+                    options={attendeeOptions}
+                    value={item.presenter || ''}
+                    placeholder="Người trình bày"
+                    filterOption={(input, option) =>
+                      (option?.value as string).toLowerCase().includes(input.toLowerCase())
+                    }
+                    onChange={(value: string) => updateItem(index, { presenter: value || undefined })}
+                  />
+                  <InputNumber
+                    size="small"
+                    min={1}
+                    max={600}
+                    style={{ width: '110px' }}
+                    value={item.plannedMinutes}
+                    addonAfter="phút"
+                    onChange={(value) => updateItem(index, { plannedMinutes: value || 1 })}
+                  />
+                  {renderActual(item, index)}
+                  <Button
+                    size="small"
+                    type="text"
+                    danger
+                    icon={<DeleteOutlined />}
+                    disabled={index === activeIndex}
+                    onClick={() => removeItem(index)}
+                  />
+                </div>
+              ))}
+              <div style={{ display: 'flex', gap: '8px' }}>
+                <Button size="small" icon={<PlusOutlined />} onClick={addItem}>
+                  Thêm mục
+                </Button>
+                {!isRecording && Agenda.hasTimes(items) && (
+                  <Button size="small" onClick={() => onChange(Agenda.resetTimes(items))}>
+                    Đặt lại thời gian
+                  </Button>
+                )}
+              </div>
+            </div>
+          )
+        }
+      ]}
+    />
+  );
+};
@@ -10,17 +10,19 @@ import {
   ZoomOutOutlined
 } from '@ant-design/icons';
 import WaveSurfer from 'wavesurfer.js';
+import RegionsPlugin from 'wavesurfer.js/dist/plugins/regions.js';
+import { speechToTextService } from '../services/speechToText';
 
 interface Props {
   audioBlob: Blob | null;
-  transcriptionConfig?: any;
 }
 
 export interface AudioPlayerRef {
   seekTo: (timeMs: number) => void;
+  playRange: (startMs: number, endMs: number) => void; // Play a snippet, then pause
 }
 
-export const AudioPlayer = forwardRef<AudioPlayerRef, Props>(({ audioBlob, transcriptionConfig}, ref) => {
+export const AudioPlayer = forwardRef<AudioPlayerRef, Props>(({ audioBlob }, ref) => {
   const audioRef = useRef<HTMLAudioElement>(null);
   const waveformRef = useRef<HTMLDivElement>(null);
   const wavesurferRef = useRef<WaveSurfer | null>(null);
@@ -31,6 +33,7 @@ export const AudioPlayer = forwardRef<AudioPlayerRef, Props>(({ audioBlob, trans
   const [playbackRate, setPlaybackRate] = useState(1.0);
   const [volume, setVolume] = useState(100);
   const [zoom, setZoom] = useState(50);
+  const stopAtRef = useRef<number | null>(null); // Seconds; set while a snippet plays
 
   // Expose seekTo method to parent
   useImperativeHandle(ref, () => ({
@@ -40,6 +43,14 @@ export const AudioPlayer = forwardRef<AudioPlayerRef, Props>(({ audioBlob, trans
         wavesurferRef.current.seekTo(timeSeconds / duration);
         // console.log(`🎵 Seeked to ${timeSeconds.toFixed(2)}s`);
       }
+    },
+    playRange: (startMs: number, endMs: number) => {
+      if (!wavesurferRef.current) return;
+      wavesurferRef.current.setTime(startMs / 1000);
+      stopAtRef.current = endMs / 1000;
+      wavesurferRef.current.play().catch((error) => {
+        console.error('Failed to play audio:', error);
+      });
     }
   }));
 
@@ -87,6 +98,15 @@ export const AudioPlayer = forwardRef<AudioPlayerRef, Props>(({ audioBlob, trans
       hideScrollbar: false,
     });
 
+    // Drag across the waveform to select a region (one at a time), e.g. to re-transcribe it
+    const regions = wavesurfer.registerPlugin(RegionsPlugin.create());
+    regions.enableDragSelection({ color: 'rgba(250, 173, 20, 0.25)' });
+    regions.on('region-created', (region) => {
+      regions.getRegions().forEach(other => {
+        if (other !== region) other.remove();
+      });
+    });
+
     // Load audio
     wavesurfer.load(audioUrl);
 
@@ -97,6 +117,12 @@ export const AudioPlayer = forwardRef<AudioPlayerRef, Props>(({ audioBlob, trans
 
     wavesurfer.on('timeupdate', (time) => {
       setCurrentTime(time);
+      if (stopAtRef.current !== null && time >= stopAtRef.current) {
+        stopAtRef.current = null;
+        wavesurfer.pause();
+      }
+      // Let TranscriptionPanel follow playback (word highlighting)
+      window.dispatchEvent(new CustomEvent('audio-time-update', { detail: { time } }));
     });
 
     wavesurfer.on('play', () => {
@@ -104,6 +130,7 @@ export const AudioPlayer = forwardRef<AudioPlayerRef, Props>(({ audioBlob, trans
     });
 
     wavesurfer.on('pause', () => {
+      stopAtRef.current = null;
       setIsPlaying(false);
     });
 
@@ -113,6 +140,7 @@ export const AudioPlayer = forwardRef<AudioPlayerRef, Props>(({ audioBlob, trans
 
     // Add interaction event for better UX
     wavesurfer.on('interaction', () => {
+      stopAtRef.current = null; // Clicking the waveform ends snippet playback
       // User clicked on waveform
       if (!isPlaying) {
         // Optional: auto-play when clicking on waveform
@@ -154,6 +182,8 @@ export const AudioPlayer = forwardRef<AudioPlayerRef, Props>(({ audioBlob, trans
     const handleContextMenu = (e: MouseEvent) => {
       e.preventDefault();
       const time = wavesurfer.getCurrentTime();
+      const selection = regions.getRegions()[0];
+      const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
       
       // Remove existing menu if any
       const existingMenu = document.getElementById('audio-context-menu');
@@ -189,7 +219,7 @@ export const AudioPlayer = forwardRef<AudioPlayerRef, Props>(({ audioBlob, trans
             );
             // Show visual feedback
             const notification = document.createElement('div');
-            notification.textContent = `📝 Inserting note at ${Math.floor(time / 60)}:${String(Math.floor(time % 60)).padStart(2, '0')}`;
+            notification.textContent = `📝 Inserting note at ${formatTime(time)}`;
             notification.style.cssText = `
               position: fixed;
               top: 50%;
@@ -208,18 +238,41 @@ export const AudioPlayer = forwardRef<AudioPlayerRef, Props>(({ audioBlob, trans
             document.body.appendChild(notification);
             setTimeout(() => notification.remove(), 1500);
           }
-        },
-        {
+        }
+      ];
+
+      // Only offer transcription if a file transcription provider is configured
+      if (speechToTextService.canTranscribeAudioFile()) {
+        if (selection) {
+          menuItems.push({
+            label: `🎯 Transcribe selection (${formatTime(selection.start)} - ${formatTime(selection.end)})`,
+            action: () => {
+              window.dispatchEvent(
+                new CustomEvent('transcribe-audio', {
+                  detail: {
+                    range: {
+                      startMs: Math.floor(selection.start * 1000),
+                      endMs: Math.ceil(selection.end * 1000)
+                    }
+                  }
+                })
+              );
+            }
+          });
+        }
+        menuItems.push({
           label: '🎤 Transcribe entire audio',
           action: () => {
             window.dispatchEvent(new CustomEvent('transcribe-audio'));
           }
-        }
-      ];
-      
-      // Only show 'Transcribe entire audio' if API Key is present
-      if (!transcriptionConfig?.apiKey) {
-        menuItems.pop(); // Remove the last item (Transcribe entire audio)
+        });
+      }
+
+      if (selection) {
+        menuItems.push({
+          label: '✖ Clear selection',
+          action: () => regions.clearRegions()
+        });
       }
 
       menuItems.forEach(item => {
@@ -0,0 +1,244 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Modal, Input, Checkbox, Space, Button, Alert, List, Tag, Typography } from 'antd';
+import { SearchOutlined } from '@ant-design/icons';
+import type { FindReplaceScope, NoteBlock, TranscriptionResult } from '../types/types';
+import { FindReplace, type TextMatch } from '../services/findReplace';
+import { NoteDocument } from '../services/noteDocument';
+
+const { Text } = Typography;
+
+const MAX_PREVIEW_ROWS = 200; // Counting continues past this, only the list is cut
+
+export interface TranscriptReplacement {
+  id: string;
+  text?: string;
+  speaker?: string;
+}
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+  noteBlocks: NoteBlock[];
+  recordingStartTime: number;
+  transcriptions: TranscriptionResult[];
+  onReplaceTranscriptions: (updates: TranscriptReplacement[]) => void;
+  onSeekAudio: (timeMs: number) => void;
+}
+
+interface PreviewRow {
+  key: string;
+  scope: FindReplaceScope;
+  text: string;
+  match: TextMatch;
+  timeMs?: number; // Relative to the recording
+}
+
+const SCOPE_OPTIONS: Array<{ label: string; value: FindReplaceScope }> = [
+  { label: 'Nội dung ghi chú', value: 'notes' },
+  { label: 'Người nói (ghi chú)', value: 'noteSpeakers' },
+  { label: 'Nội dung transcript', value: 'transcripts' },
+  { label: 'Người nói (transcript)', value: 'transcriptSpeakers' }
+];
+
+const SCOPE_TAG: Record<FindReplaceScope, { label: string; color: string }> = {
+  notes: { label: 'Ghi chú', color: 'blue' },
+  noteSpeakers: { label: 'Người nói', color: 'cyan' },
+  transcripts: { label: 'Transcript', color: 'purple' },
+  transcriptSpeakers: { label: 'Người nói', color: 'magenta' }
+};
+
+const formatTime = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+};
+
+export const FindReplaceModal: React.FC<Props> = ({
+  open,
+  onClose,
+  noteBlocks,
+  recordingStartTime,
+  transcriptions,
+  onReplaceTranscriptions,
+  onSeekAudio
+}) => {
+  const [query, setQuery] = useState<string>('');
+  const [replacement, setReplacement] = useState<string>('');
+  const [matchCase, setMatchCase] = useState<boolean>(false);
+  const [useRegex, setUseRegex] = useState<boolean>(false);
+  const [scopes, setScopes] = useState<FindReplaceScope[]>(['notes', 'transcripts']);
+
+  // Keep the query between openings, but clear the replacement so it isn't applied twice by accident
+  useEffect(() => {
+    if (open) setReplacement('');
+  }, [open]);
+
+  const { pattern, patternError } = useMemo(() => {
+    try {
+      return { pattern: FindReplace.buildPattern({ query, matchCase, useRegex }), patternError: null };
+    } catch (error) {
+      return { pattern: null, patternError: (error as Error).message };
+    }
+  }, [query, matchCase, useRegex]);
+
+  const rows = useMemo<PreviewRow[]>(() => {
+    if (!pattern) return [];
+    const result: PreviewRow[] = [];
+    const addMatches = (scope: FindReplaceScope, key: string, text: string, timeMs?: number) => {
+      FindReplace.findMatches(text, pattern).forEach((match, index) => {
+        result.push({ key: `${key}-${index}`, scope, text, match, timeMs });
+      });
+    };
+
+    if (scopes.includes('notes') || scopes.includes('noteSpeakers')) {
+      noteBlocks.forEach(block => {
+        const timeMs = NoteDocument.audioTimeMs(block, recordingStartTime);
+        if (scopes.includes('noteSpeakers') && block.speaker) addMatches('noteSpeakers', `ns-${block.id}`, block.speaker, timeMs);
+        if (scopes.includes('notes')) addMatches('notes', `n-${block.id}`, block.text, timeMs);
+      });
+    }
+
+    transcriptions.filter(item => item.isFinal).forEach(item => {
+      if (scopes.includes('transcriptSpeakers') && item.speaker) {
+        addMatches('transcriptSpeakers', `ts-${item.id}`, item.speaker, item.audioTimeMs);
+      }
+      if (scopes.includes('transcripts')) addMatches('transcripts', `t-${item.id}`, item.text, item.audioTimeMs);
+    });
+
+    return result;
+  }, [pattern, scopes, noteBlocks, recordingStartTime, transcriptions]);
+
+  const handleReplaceAll = () => {
+    if (!pattern || rows.length === 0) return;
+
+    const inText = scopes.includes('notes');
+    const inSpeakers = scopes.includes('noteSpeakers');
+    if (inText || inSpeakers) {
+      // NotesEditor applies it, so the whole replacement is one undo step
+      window.dispatchEvent(new CustomEvent('replace-in-notes', {
+        detail: { pattern, replacement, useRegex, inText, inSpeakers }
+      }));
+    }
+
+    const updates: TranscriptReplacement[] = [];
+    transcriptions.filter(item => item.isFinal).forEach(item => {
+      const update: TranscriptReplacement = { id: item.id };
+      if (scopes.includes('transcripts')) {
+        const text = FindReplace.replace(item.text, pattern, replacement, useRegex);
+        if (text !== item.text) update.text = text;
+      }
+      if (scopes.includes('transcriptSpeakers') && item.speaker) {
+        const speaker = FindReplace.replace(item.speaker, pattern, replacement, useRegex).trim();
+        if (speaker && speaker !== item.speaker) update.speaker = speaker;
+      }
+      if (update.text !== undefined || update.speaker !== undefined) updates.push(update);
+    });
+    if (updates.length > 0) onReplaceTranscriptions(updates);
+  };
+
+  const renderContext = ({ text, match }: PreviewRow) => {
+    const CONTEXT_CHARS = 40;
+    const before = text.slice(Math.max(0, match.index - CONTEXT_CHARS), match.index);
+    const after = text.slice(match.index + match.length, match.index + match.length + CONTEXT_CHARS);
+    return (
+      <span>
+        {match.index > CONTEXT_CHARS && '…'}
+        {before}
+        <mark style={{ backgroundColor: '#d48806', color: '#fff', padding: 0 }}>
+          {text.slice(match.index, match.index + match.length)}
+        </mark>
+        {after}
+        {match.index + match.length + CONTEXT_CHARS < text.length && '…'}
+      </span>
+    );
+  };
+
+  return (
+    <Modal
+      title={<span><SearchOutlined /> Tìm và thay thế</span>}
+      open={open}
+      onCancel={onClose}
+      width={720}
+      footer={[
+        <Button key="close" onClick={onClose}>
+          Đóng
+        </Button>,
+        <Button
+          key="replace"
+          type="primary"
+          danger
+          disabled={!pattern || rows.length === 0}
+          onClick={handleReplaceAll}
+        >
+          Thay thế tất cả ({rows.length})
+        </Button>
+      ]}
+    >
+      <Space direction="vertical" style={{ width: '100%' }}>
+        <Input
+          placeholder="Tìm..."
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          allowClear
+          autoFocus
+        />
+        <Input
+          placeholder={useRegex ? 'Thay bằng... ($1, $<tên> để dùng nhóm)' : 'Thay bằng...'}
+          value={replacement}
+          onChange={(e) => setReplacement(e.target.value)}
+          allowClear
+        />
+        <Space wrap>
+          <Checkbox checked={matchCase} onChange={(e) => setMatchCase(e.target.checked)}>
+            Phân biệt hoa/thường
+          </Checkbox>
+          <Checkbox checked={useRegex} onChange={(e) => setUseRegex(e.target.checked)}>
+            Biểu thức chính quy (regex)
+          </Checkbox>
+        </Space>
+        <Checkbox.Group
+          options={SCOPE_OPTIONS}
+          value={scopes}
+          onChange={(values) => setScopes(values as FindReplaceScope[])}
+        />
+
+        {patternError && (
+          <Alert type="error" showIcon message={`Regex không hợp lệ: ${patternError}`} />
+        )}
+
+        {pattern && (
+          <List
+            size="small"
+            bordered
+            style={{ maxHeight: 360, overflowY: 'auto' }}
+            locale={{ emptyText: 'Không tìm thấy kết quả' }}
+            header={
+              rows.length > MAX_PREVIEW_ROWS
+                ? <Text type="secondary">{rows.length} kết quả, hiển thị {MAX_PREVIEW_ROWS} kết quả đầu</Text>
+                : <Text type="secondary">{rows.length} kết quả</Text>
+            }
+            dataSource={rows.slice(0, MAX_PREVIEW_ROWS)}
+            renderItem={(row) => (
+              <List.Item
+                key={row.key}
+                style={{ cursor: row.timeMs !== undefined ? 'pointer' : 'default' }}
+                onClick={() => row.timeMs !== undefined && onSeekAudio(row.timeMs)}
+                title={row.timeMs !== undefined ? 'Nhấn để nghe tại thời điểm này' : undefined}
+              >
+                <Space align="start">
+                  <Tag color={SCOPE_TAG[row.scope].color}>{SCOPE_TAG[row.scope].label}</Tag>
+                  <Text type="secondary" style={{ fontFamily: 'monospace', whiteSpace: 'nowrap' }}>
+                    {row.timeMs !== undefined ? formatTime(row.timeMs) : '--:--:--'}
+                  </Text>
+                  {renderContext(row)}
+                </Space>
+              </List.Item>
+            )}
+          />
+        )}
+      </Space>
+    </Modal>
+  );
+};
@@ -0,0 +1,135 @@
+import React, { useMemo } from 'react';
+import { Collapse, Tag, Input, Checkbox, Typography } from 'antd';
+import { CheckSquareOutlined } from '@ant-design/icons';
+import type { FollowUpItem, NoteBlock, NoteTag, NoteTagKind } from '../types/types';
+import { NoteTags, NOTE_TAG_LABELS, NOTE_TAG_COLORS } from '../services/noteTags';
+
+const { Text } = Typography;
+
+interface Props {
+  noteBlocks: NoteBlock[];
+  recordingStartTime: number;
+}
+
+const SECTION_ORDER: NoteTagKind[] = ['action', 'decision', 'question'];
+
+const formatTime = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+};
+
+// Edits go back to the notes editor, which owns the tags and their undo history
+const updateTag = (blockId: string, tag: NoteTag | null) => {
+  window.dispatchEvent(new CustomEvent('update-note-tag', { detail: { blockId, tag } }));
+};
+
+export const FollowUpsPanel: React.FC<Props> = ({
+  noteBlocks,
+  recordingStartTime
+}) => {
+  const items = useMemo(
+    () => NoteTags.collect(noteBlocks, recordingStartTime),
+    [noteBlocks, recordingStartTime]
+  );
+
+  if (items.length === 0) {
+    return null;
+  }
+
+  const openActions = items.filter(item => item.tag.kind === 'action' && !item.tag.done).length;
+
+  const handleReveal = (item: FollowUpItem) => {
+    window.dispatchEvent(new CustomEvent('reveal-note-line', { detail: { lineIndex: item.lineIndex } }));
+    if (item.timeMs !== undefined) {
+      window.dispatchEvent(new CustomEvent('seek-audio', { detail: { time: item.timeMs / 1000 } }));
+    }
+  };
+
+  const renderItem = (item: FollowUpItem) => {
+    const { tag } = item;
+    return (
+      <div
+        key={item.blockId}
+        style={{ display: 'flex', alignItems: 'center', gap: '8px', padding: '4px 0', borderBottom: '1px solid #2d2d2d' }}
+      >
+        {tag.kind === 'action' && (
+          <Checkbox checked={!!tag.done} onChange={(e) => updateTag(item.blockId, { ...tag, done: e.target.checked })} />
+        )}
+        <div
+          onClick={() => handleReveal(item)}
+          style={{ flex: 1, cursor: 'pointer', minWidth: 0 }}
+          title="Nhấn để chuyển đến dòng ghi chú"
+        >
+          {item.timeMs !== undefined && (
+            <Text type="secondary" style={{ fontFamily: 'monospace', fontSize: '12px', marginRight: 8 }}>
+              {formatTime(item.timeMs)}
+            </Text>
+          )}
+          {item.speaker && tag.kind !== 'action' && <Text type="secondary">{item.speaker}: </Text>}
+          <Text delete={!!tag.done}>{item.text || <Text type="secondary" italic>(dòng trống)</Text>}</Text>
+        </div>
+        {tag.kind === 'action' && (
+          <>
+            <Input
+              key={`${item.blockId}-${tag.owner || ''}`}
+              size="small"
+              style={{ width: 140 }}
+              placeholder="Người phụ trách"
+              defaultValue={tag.owner}
+              onBlur={(e) => {
+                const owner = e.target.value.trim();
+                if (owner !== (tag.owner || '')) updateTag(item.blockId, { ...tag, owner: owner || undefined });
+              }}
+              onPressEnter={(e) => (e.target as HTMLInputElement).blur()}
+            />
+            <Input
+              size="small"
+              type="date"
+              style={{ width: 140 }}
+              value={tag.dueDate || ''}
+              onChange={(e) => updateTag(item.blockId, { ...tag, dueDate: e.target.value || undefined })}
+            />
+            {NoteTags.isOverdue(tag) && <Tag color="red">Quá hạn</Tag>}
+          </>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Collapse
+      defaultActiveKey={[]}
+      items={[
+        {
+          key: '1',
+          label: (
+            <span>
+              <CheckSquareOutlined /> Việc cần làm, quyết định & câu hỏi
+              <Tag color="orange" style={{ marginLeft: 8 }}>{openActions} việc chưa xong</Tag>
+            </span>
+          ),
+          children: (
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+              <div style={{ fontSize: '12px', color: '#888' }}>
+                Đánh dấu dòng ghi chú bằng Ctrl+Alt+A / D / Q, hoặc gõ "AI: Tên 15/3", "QĐ:", "?:" vào cột người nói.
+              </div>
+              {SECTION_ORDER.map(kind => {
+                const sectionItems = items.filter(item => item.tag.kind === kind);
+                if (sectionItems.length === 0) return null;
+                return (
+                  <div key={kind}>
+                    <Tag color={NOTE_TAG_COLORS[kind]}>{NOTE_TAG_LABELS[kind]} ({sectionItems.length})</Tag>
+                    {sectionItems.map(renderItem)}
+                  </div>
+                );
+              })}
+            </div>
+          )
+        }
+      ]}
+    />
+  );
+};
@@ -85,6 +85,7 @@ export const HelpButton: React.FC = () => {
                 <List.Item>• Controls: Play/Pause, Skip ±10s, Volume, Zoom In/ Zoom Out</List.Item>
                 <List.Item>• <strong>Double-click</strong> vào waveform → seek đến vị trí</List.Item>
                 <List.Item>• <strong>Chuột phải</strong> → chèn timestamp tại vị trí đang nghe</List.Item>
+                <List.Item>• <strong>Kéo chuột</strong> trên waveform để chọn vùng → chuột phải → chuyển đổi lại riêng vùng đó</List.Item>
               </List>
             </div>
 
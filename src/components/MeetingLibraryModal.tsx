@@ -0,0 +1,272 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { App, Modal, Input, Table, Tag, Button, Space, Progress, Alert, Typography } from 'antd';
+import { BookOutlined, FolderOpenOutlined, ReloadOutlined, SearchOutlined } from '@ant-design/icons';
+import type { FileManagerService } from '../services/fileManager';
+import { MeetingLibrary, type LibraryHit, type LibraryMeeting } from '../services/meetingLibrary';
+import { loadLibraryMeetings, saveLibraryMeetings, loadLibraryRoot, saveLibraryRoot } from '../services/libraryStore';
+import { HitSnippet } from './ProjectSearchBox';
+
+const { Text } = Typography;
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+  fileManager: FileManagerService;
+  onRootSelected: (folderName: string) => void; // The library folder is also where new projects are saved
+  onOpenProject: (projectHandle: FileSystemDirectoryHandle, rootHandle: FileSystemDirectoryHandle) => Promise<boolean>;
+}
+
+const formatDuration = (ms: number): string => {
+  const totalMinutes = Math.round(ms / 60000);
+  if (totalMinutes < 60) return `${totalMinutes} phút`;
+  return `${Math.floor(totalMinutes / 60)} giờ ${totalMinutes % 60} phút`;
+};
+
+const formatTime = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+};
+
+export const MeetingLibraryModal: React.FC<Props> = ({
+  open,
+  onClose,
+  fileManager,
+  onRootSelected,
+  onOpenProject
+}) => {
+  const { message } = App.useApp();
+  const [root, setRoot] = useState<FileSystemDirectoryHandle | null>(null);
+  const [pendingRoot, setPendingRoot] = useState<FileSystemDirectoryHandle | null>(null); // Remembered, needs permission again
+  const [meetings, setMeetings] = useState<LibraryMeeting[]>([]);
+  const [scanProgress, setScanProgress] = useState<{ done: number; total: number } | null>(null);
+  const [query, setQuery] = useState<string>('');
+  const [openingFolder, setOpeningFolder] = useState<string | null>(null);
+
+  const index = useMemo(() => MeetingLibrary.buildIndex(meetings), [meetings]);
+  const hits = useMemo(() => MeetingLibrary.search(index, query), [index, query]);
+  const hosts = useMemo(
+    () => Array.from(new Set(meetings.map(meeting => meeting.host).filter(Boolean))).sort(),
+    [meetings]
+  );
+
+  // Show the stored index right away, then bring it up to date with the folder
+  const openRoot = async (handle: FileSystemDirectoryHandle) => {
+    setRoot(handle);
+    setPendingRoot(null);
+    const cached = await loadLibraryMeetings(handle.name);
+    setMeetings(cached);
+    await rescan(handle, cached);
+  };
+
+  const rescan = async (handle: FileSystemDirectoryHandle, previous: LibraryMeeting[]) => {
+    setScanProgress({ done: 0, total: 0 });
+    try {
+      const scanned = await MeetingLibrary.scan(fileManager, handle, previous, (done, total) => {
+        setScanProgress({ done, total });
+      });
+      setMeetings(scanned);
+      await saveLibraryMeetings(handle.name, scanned);
+      await saveLibraryRoot(handle);
+    } catch (error: any) {
+      console.error('Library scan error:', error);
+      message.error(`Không thể đọc thư mục: ${error.message}`);
+    } finally {
+      setScanProgress(null);
+    }
+  };
+
+  // Workspace folder: the one selected in this session, else the one remembered from last time.
+  // Reopening rescans, so projects saved in the meantime show up.
+  useEffect(() => {
+    if (!open) return;
+
+    const restoreRoot = async () => {
+      const current = fileManager.getDirHandle();
+      if (current && current !== root) {
+        await openRoot(current);
+        return;
+      }
+      if (root) {
+        await rescan(root, meetings);
+        return;
+      }
+      const stored = await loadLibraryRoot();
+      if (!stored) return;
+      if ((await stored.queryPermission?.({ mode: 'readwrite' })) === 'granted') {
+        fileManager.setDirHandle(stored);
+        onRootSelected(stored.name);
+        await openRoot(stored);
+      } else {
+        setPendingRoot(stored);
+      }
+    };
+
+    restoreRoot();
+  }, [open]);
+
+  const handleGrantAccess = async () => {
+    if (!pendingRoot) return;
+    // Needs the click's user activation, so this runs straight from the button
+    if ((await pendingRoot.requestPermission?.({ mode: 'readwrite' })) !== 'granted') {
+      message.warning('Chưa được cấp quyền truy cập thư mục');
+      return;
+    }
+    fileManager.setDirHandle(pendingRoot);
+    onRootSelected(pendingRoot.name);
+    await openRoot(pendingRoot);
+  };
+
+  const handleChooseFolder = async () => {
+    try {
+      const folder = await fileManager.selectFolder();
+      const handle = fileManager.getDirHandle();
+      if (!folder || !handle) return;
+      onRootSelected(folder);
+      await openRoot(handle);
+    } catch (error: any) {
+      message.error(error.message);
+    }
+  };
+
+  const handleOpen = async (meeting: LibraryMeeting) => {
+    if (!root || openingFolder) return;
+    setOpeningFolder(meeting.folderName);
+    try {
+      const projectHandle = await root.getDirectoryHandle(meeting.folderName);
+      if (await onOpenProject(projectHandle, root)) onClose();
+    } catch (error: any) {
+      // Folder renamed or removed since the last scan
+      message.error(`Không mở được "${meeting.folderName}": ${error.message}`);
+    } finally {
+      setOpeningFolder(null);
+    }
+  };
+
+  return (
+    <Modal
+      title={<span><BookOutlined /> Thư viện cuộc họp{root ? ` — ${root.name}` : ''}</span>}
+      open={open}
+      onCancel={onClose}
+      width={1000}
+      footer={null}
+    >
+      <Space direction="vertical" style={{ width: '100%' }}>
+        {pendingRoot && !root && (
+          <Alert
+            type="info"
+            showIcon
+            message={`Cần cấp lại quyền đọc thư mục "${pendingRoot.name}"`}
+            action={<Button size="small" type="primary" onClick={handleGrantAccess}>Cho phép</Button>}
+          />
+        )}
+
+        <Space wrap style={{ width: '100%', justifyContent: 'space-between' }}>
+          <Input
+            style={{ width: 420 }}
+            allowClear
+            prefix={<SearchOutlined />}
+            placeholder="Tìm trong tất cả cuộc họp (tiêu đề, người tham dự, ghi chú, transcript)..."
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            disabled={!root}
+          />
+          <Space>
+            <Button icon={<FolderOpenOutlined />} onClick={handleChooseFolder} disabled={!!scanProgress}>
+              {root ? 'Chọn thư mục khác' : 'Chọn thư mục làm việc'}
+            </Button>
+            <Button
+              icon={<ReloadOutlined />}
+              onClick={() => root && rescan(root, meetings)}
+              disabled={!root || !!scanProgress}
+            >
+              Quét lại
+            </Button>
+          </Space>
+        </Space>
+
+        {scanProgress && (
+          <Progress
+            percent={scanProgress.total > 0 ? Math.round((scanProgress.done / scanProgress.total) * 100) : 0}
+            size="small"
+            format={() => `${scanProgress.done}/${scanProgress.total} thư mục`}
+          />
+        )}
+
+        <Table<LibraryHit>
+          size="small"
+          rowKey={(hit) => hit.meeting.folderName}
+          dataSource={hits}
+          loading={!!openingFolder}
+          pagination={{ pageSize: 20, hideOnSinglePage: true }}
+          locale={{
+            emptyText: root
+              ? (query ? 'Không tìm thấy cuộc họp phù hợp' : 'Chưa có dự án nào trong thư mục này')
+              : 'Chọn thư mục chứa các dự án đã lưu'
+          }}
+          onRow={(hit) => ({
+            onClick: () => handleOpen(hit.meeting),
+            style: { cursor: 'pointer' }
+          })}
+          columns={[
+            {
+              title: 'Ngày',
+              key: 'date',
+              width: 130,
+              defaultSortOrder: 'descend',
+              sorter: (a, b) => a.meeting.sortKey.localeCompare(b.meeting.sortKey),
+              render: (_, { meeting }) => (
+                <span style={{ whiteSpace: 'nowrap' }}>
+                  {meeting.date}
+                  {meeting.time && <Text type="secondary"> {meeting.time}</Text>}
+                </span>
+              )
+            },
+            {
+              title: 'Cuộc họp',
+              key: 'title',
+              render: (_, { meeting, snippets, hitCount }) => (
+                <div>
+                  <div>
+                    <Text strong>{meeting.title}</Text>
+                    {meeting.durationMs > 0 && (
+                      <Text type="secondary" style={{ fontSize: '12px' }}> · {formatDuration(meeting.durationMs)}</Text>
+                    )}
+                    {hitCount > 0 && <Tag color="orange" style={{ marginLeft: 8 }}>{hitCount} kết quả</Tag>}
+                  </div>
+                  {meeting.location && <Text type="secondary" style={{ fontSize: '12px' }}>{meeting.location}</Text>}
+                  {snippets.map(hit => (
+                    <div key={hit.entry.key} style={{ fontSize: '12px', marginTop: 2 }}>
+                      <Tag color={hit.entry.source === 'note' ? 'blue' : 'purple'} style={{ fontSize: '11px' }}>
+                        {hit.entry.timeMs !== undefined ? formatTime(hit.entry.timeMs) : (hit.entry.source === 'note' ? 'Ghi chú' : 'Transcript')}
+                      </Tag>
+                      {hit.entry.speaker && <Text type="secondary">{hit.entry.speaker}: </Text>}
+                      <HitSnippet hit={hit} />
+                    </div>
+                  ))}
+                </div>
+              )
+            },
+            {
+              title: 'Chủ trì',
+              key: 'host',
+              width: 150,
+              filters: hosts.map(host => ({ text: host, value: host })),
+              onFilter: (value, { meeting }) => meeting.host === value,
+              render: (_, { meeting }) => meeting.host
+            },
+            {
+              title: 'Người tham dự',
+              key: 'attendees',
+              width: 220,
+              ellipsis: true,
+              render: (_, { meeting }) => meeting.attendees
+            }
+          ]}
+        />
+      </Space>
+    </Modal>
+  );
+};
@@ -0,0 +1,182 @@
+import React, { useRef, useState } from 'react';
+import { App, Modal, Input, Table, Button, Space, Popconfirm, Typography } from 'antd';
+import { DeleteOutlined, DownloadOutlined, ImportOutlined, SaveOutlined, SnippetsOutlined } from '@ant-design/icons';
+import type { MeetingInfo, NoteBlock, NoteTemplate } from '../types/types';
+import { NoteTemplates } from '../services/noteTemplates';
+
+const { Text } = Typography;
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+  templates: NoteTemplate[];
+  onTemplatesChange: (templates: NoteTemplate[]) => void;
+  meetingInfo: MeetingInfo; // Current meeting, for "save as template"
+  noteBlocks: NoteBlock[];
+  canApply: boolean; // Templates only apply before a new recording
+  onApply: (template: NoteTemplate) => void;
+}
+
+export const NoteTemplatesModal: React.FC<Props> = ({
+  open,
+  onClose,
+  templates,
+  onTemplatesChange,
+  meetingInfo,
+  noteBlocks,
+  canApply,
+  onApply
+}) => {
+  const { message } = App.useApp();
+  const [name, setName] = useState<string>('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Save the current meeting; a template with the same name is overwritten
+  const handleSaveCurrent = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    const template = NoteTemplates.fromMeeting(trimmed, meetingInfo, noteBlocks);
+    const exists = templates.some(item => item.name.toLowerCase() === trimmed.toLowerCase());
+    onTemplatesChange(NoteTemplates.merge(templates, [template]));
+    setName('');
+    message.success(exists ? `Đã cập nhật mẫu "${trimmed}"` : `Đã lưu mẫu "${trimmed}"`);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = ''; // Allow importing the same file again
+    let merged = templates;
+    for (const file of files) {
+      try {
+        const imported = NoteTemplates.parseFile(await file.text());
+        merged = NoteTemplates.merge(merged, imported);
+        message.success(`Đã nhập ${imported.length} mẫu từ ${file.name}`);
+      } catch (error: any) {
+        message.error(`Không nhập được ${file.name}: ${error.message}`);
+      }
+    }
+    if (merged !== templates) onTemplatesChange(merged);
+  };
+
+  const handleDelete = (template: NoteTemplate) => {
+    onTemplatesChange(templates.filter(item => item.id !== template.id));
+  };
+
+  return (
+    <Modal
+      title={<span><SnippetsOutlined /> Mẫu cuộc họp</span>}
+      open={open}
+      onCancel={onClose}
+      width={800}
+      footer={null}
+    >
+      <Space direction="vertical" style={{ width: '100%' }}>
+        <Text type="secondary" style={{ fontSize: '12px' }}>
+          Mẫu lưu thông tin cuộc họp, người tham dự, chương trình họp, các tiêu đề mục trong ghi chú và tên người nói - dùng lại cho họp giao ban, họp hội đồng, phỏng vấn...
+        </Text>
+
+        <Space wrap style={{ width: '100%', justifyContent: 'space-between' }}>
+          <Space.Compact style={{ width: 420 }}>
+            <Input
+              value={name}
+              placeholder="Tên mẫu (VD: Họp giao ban tuần)"
+              onChange={(e) => setName(e.target.value)}
+              onPressEnter={handleSaveCurrent}
+            />
+            <Button icon={<SaveOutlined />} onClick={handleSaveCurrent} disabled={!name.trim()}>
+              Lưu cuộc họp hiện tại
+            </Button>
+          </Space.Compact>
+          <Space>
+            <Button icon={<ImportOutlined />} onClick={() => fileInputRef.current?.click()}>
+              Nhập JSON
+            </Button>
+            <Button
+              icon={<DownloadOutlined />}
+              onClick={() => NoteTemplates.exportFile(templates)}
+              disabled={templates.length === 0}
+            >
+              Xuất tất cả
+            </Button>
+          </Space>
+        </Space>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          multiple
+          style={{ display: 'none' }}
+          onChange={handleImport}
+        />
+
+        <Table<NoteTemplate>
+          size="small"
+          rowKey="id"
+          dataSource={templates}
+          pagination={{ pageSize: 10, hideOnSinglePage: true }}
+          locale={{ emptyText: 'Chưa có mẫu nào - lưu cuộc họp hiện tại hoặc nhập từ file JSON' }}
+          columns={[
+            {
+              title: 'Mẫu',
+              key: 'name',
+              sorter: (a, b) => a.name.localeCompare(b.name),
+              render: (_, template) => (
+                <div>
+                  <Text strong>{template.name}</Text>
+                  {template.title && <Text type="secondary"> · {template.title}</Text>}
+                  <div>
+                    <Text type="secondary" style={{ fontSize: '12px' }}>{NoteTemplates.summary(template)}</Text>
+                  </div>
+                </div>
+              )
+            },
+            {
+              title: 'Cập nhật',
+              key: 'updatedAt',
+              width: 110,
+              defaultSortOrder: 'descend',
+              sorter: (a, b) => a.updatedAt.localeCompare(b.updatedAt),
+              render: (_, template) => new Date(template.updatedAt).toLocaleDateString('vi-VN')
+            },
+            {
+              title: '',
+              key: 'actions',
+              width: 190,
+              render: (_, template) => (
+                <Space size="small">
+                  <Button
+                    size="small"
+                    type="primary"
+                    disabled={!canApply}
+                    title={canApply ? undefined : 'Chỉ dùng mẫu trước khi bắt đầu ghi âm mới'}
+                    onClick={() => {
+                      onApply(template);
+                      onClose();
+                    }}
+                  >
+                    Dùng mẫu
+                  </Button>
+                  <Button
+                    size="small"
+                    icon={<DownloadOutlined />}
+                    title="Xuất JSON"
+                    onClick={() => NoteTemplates.exportFile([template])}
+                  />
+                  <Popconfirm
+                    title={`Xóa mẫu "${template.name}"?`}
+                    okText="Xóa"
+                    cancelText="Hủy"
+                    onConfirm={() => handleDelete(template)}
+                  >
+                    <Button size="small" danger icon={<DeleteOutlined />} />
+                  </Popconfirm>
+                </Space>
+              )
+            }
+          ]}
+        />
+      </Space>
+    </Modal>
+  );
+};
@@ -1,29 +1,55 @@
 import React, { useRef, useState } from 'react';
-import { Input } from 'antd';
+import { Input, Popover, Select, Checkbox, Button, Space, Modal } from 'antd';
 import type { TextAreaRef } from 'antd/es/input/TextArea';
+import type { NoteBlock, NoteListKind, NoteSection, NoteTag, NoteTagKind } from '../types/types';
+import { FindReplace } from '../services/findReplace';
+import { NoteDocument } from '../services/noteDocument';
+import { NoteOutline } from '../services/noteOutline';
+import { NoteTags, NOTE_TAG_LABELS, NOTE_TAG_COLORS } from '../services/noteTags';
+import { RichText, type RichTextMark } from '../services/richText';
 
 const { TextArea } = Input;
 
+// Ctrl+Alt+<key> toggles a follow-up tag on the focused line
+const TAG_SHORTCUTS: Record<string, NoteTagKind> = {
+  KeyA: 'action',
+  KeyD: 'decision',
+  KeyQ: 'question'
+};
+
+type FormatCommand = RichTextMark | NoteListKind | 'link';
+
+// Ctrl+B / Ctrl+I / Ctrl+K format the selection; Ctrl+Shift+8 / Ctrl+Shift+7 toggle a list
+const FORMAT_SHORTCUTS: Record<string, FormatCommand> = {
+  KeyB: 'bold',
+  KeyI: 'italic',
+  KeyK: 'link'
+};
+const LIST_SHORTCUTS: Record<string, FormatCommand> = {
+  Digit8: 'bullet',
+  Digit7: 'ordered'
+};
+
+// Tab / Shift+Tab nest the line; Ctrl+Alt+H makes it a section heading
+type OutlineCommand = 'heading' | 'indent' | 'outdent';
+
+// Width of one outline level in the text column
+const OUTLINE_INDENT_PX = 24;
+
 interface Props {
-  notes: string;
-  onNotesChange: (notes: string) => void;
-  timestampMap: Map<number, number>;
-  onTimestampMapChange: (map: Map<number, number>) => void;
+  blocks: NoteBlock[];
+  onBlocksChange: (blocks: NoteBlock[]) => void;
   recordingStartTime: number;
   isLiveMode?: boolean; // true when recording/just recorded, false when loaded from project
-  onSpeakersChange?: (speakers: Map<number, string>) => void; // Callback to sync speaker data
-  initialSpeakers?: Map<number, string>; // Initial speakers data when loading project
+  onOpenFindReplace?: () => void; // Ctrl+H / toolbar button
 }
 
 export const NotesEditor: React.FC<Props> = ({
-  notes,
-  onNotesChange,
-  timestampMap,
-  onTimestampMapChange,
+  blocks,
+  onBlocksChange,
   recordingStartTime,
   isLiveMode = true,
-  onSpeakersChange,
-  initialSpeakers
+  onOpenFindReplace
 }) => {
   const [showTimestamps, setShowTimestamps] = useState(true);
   const [editingDatetimeIndex, setEditingDatetimeIndex] = useState<number | null>(null);
@@ -38,6 +64,9 @@ export const NotesEditor: React.FC<Props> = ({
   const containerRef = useRef<HTMLDivElement>(null);
   const speakerRefs = useRef<Map<number, TextAreaRef>>(new Map());
   const textRefs = useRef<Map<number, TextAreaRef>>(new Map());
+  const lineRefs = useRef<Map<number, HTMLDivElement>>(new Map());
+  const [revealedLine, setRevealedLine] = useState<number | null>(null); // Briefly highlighted search hit
+  const revealTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   
   // Multi-line selection states
   const [selectedLines, setSelectedLines] = useState<Set<number>>(new Set());
@@ -45,94 +74,44 @@ export const NotesEditor: React.FC<Props> = ({
   const [isDragging, setIsDragging] = useState(false);
   
   // Undo/Redo history
-  const [history, setHistory] = useState<Array<{ notes: string; timestamps: Map<number, number>; speakers: Map<number, string> }>>([]);
+  const [history, setHistory] = useState<NoteBlock[][]>([]);
   const [historyIndex, setHistoryIndex] = useState(-1);
   const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const lastSavedNotesRef = useRef<string>('');
-  
-  // Use line-index-based timestamps (lineIndex → dateTimeMs) as source of truth
-  const BLOCK_SEPARATOR = '§§§';
-  const [lineTimestamps, setLineTimestamps] = useState<Map<number, number>>(() => {
-    // Initialize from parent's timestampMap only once on mount
-    const initialLineTimestamps = new Map<number, number>();
-    const lines = notes.split(BLOCK_SEPARATOR);
-    
-    timestampMap.forEach((time, position) => {
-      let currentPos = 0;
-      for (let i = 0; i < lines.length; i++) {
-        const lineStartPos = i === 0 ? 0 : currentPos;
-        if (position === lineStartPos) {
-          initialLineTimestamps.set(i, time);
-          break;
-        }
-        currentPos += lines[i].length + 1;
-      }
-    });
-    
-    return initialLineTimestamps;
-  });
-  
-  // Speaker names for each line (lineIndex → speakerName)
-  const [lineSpeakers, setLineSpeakers] = useState<Map<number, string>>(() => {
-    // Initialize from initialSpeakers if provided (when loading project)
-    return initialSpeakers ? new Map(initialSpeakers) : new Map();
-  });
+  const lastSavedBlocksRef = useRef<NoteBlock[]>([]);
 
-  // Sync lineTimestamps when parent timestampMap changes (e.g., when loading project)
-  React.useEffect(() => {
-    const newLineTimestamps = new Map<number, number>();
-    const lines = notes.split(BLOCK_SEPARATOR);
-    
-    timestampMap.forEach((time, position) => {
-      let currentPos = 0;
-      for (let i = 0; i < lines.length; i++) {
-        const lineStartPos = i === 0 ? 0 : currentPos;
-        if (position === lineStartPos) {
-          newLineTimestamps.set(i, time);
-          break;
-        }
-        currentPos += lines[i].length + (i < lines.length - 1 ? BLOCK_SEPARATOR.length : 0);
-      }
-    });
-    
-    setLineTimestamps(newLineTimestamps);
-    // console.log('📊 NotesEditor synced lineTimestamps:', {
-    //   timestampMapSize: timestampMap.size,
-    //   lineTimestampsSize: newLineTimestamps.size,
-    //   linesCount: lines.length,
-    //   sampleLineTimestamps: Array.from(newLineTimestamps.entries()).slice(0, 3)
-    // });
-  }, [timestampMap, notes]);
-  
-  // Sync lineSpeakers when initialSpeakers changes (e.g., when loading project)
-  React.useEffect(() => {
-    if (initialSpeakers && initialSpeakers.size > 0) {
-      setLineSpeakers(new Map(initialSpeakers));
+  const activeLineRef = useRef<number | null>(null); // Line the toolbar formats
+  const backdropRefs = useRef<Map<number, HTMLDivElement>>(new Map());
+  const [linkEditor, setLinkEditor] = useState<{ index: number; start: number; end: number; url: string } | null>(null);
+
+  // Collapsed section headings (block ids); their sections' lines are not rendered
+  const [collapsedSections, setCollapsedSections] = useState<Set<string>>(new Set());
+  const hiddenLines = NoteOutline.hiddenIndices(blocks, collapsedSections);
+
+  const toggleSection = (blockId: string) => {
+    const newCollapsed = new Set(collapsedSections);
+    if (newCollapsed.has(blockId)) {
+      newCollapsed.delete(blockId);
+    } else {
+      newCollapsed.add(blockId);
     }
-  }, [initialSpeakers]);
-  
-  // Sync speakers back to parent when they change (with deep equality check to avoid loops)
-  const lastNotifiedSpeakersRef = React.useRef<Map<number, string>>(new Map());
-  React.useEffect(() => {
-    if (onSpeakersChange) {
-      // Deep compare with last notified state
-      let isDifferent = lineSpeakers.size !== lastNotifiedSpeakersRef.current.size;
-      if (!isDifferent) {
-        for (const [key, value] of lineSpeakers.entries()) {
-          if (lastNotifiedSpeakersRef.current.get(key) !== value) {
-            isDifferent = true;
-            break;
-          }
-        }
-      }
-      
-      if (isDifferent) {
-        onSpeakersChange(lineSpeakers);
-        lastNotifiedSpeakersRef.current = new Map(lineSpeakers);
-      }
+    setCollapsedSections(newCollapsed);
+  };
+
+  // Expand the collapsed headings a line is hidden under (and the heading itself, if it is one)
+  const expandSectionsAround = (index: number) => {
+    const ids = [...NoteOutline.ancestors(blocks, index), blocks[index]].map(block => block.id);
+    if (!ids.some(id => collapsedSections.has(id))) return;
+    setCollapsedSections(new Set(Array.from(collapsedSections).filter(id => !ids.includes(id))));
+  };
+
+  // Nearest line shown on screen above (step -1) or below (step 1)
+  const visibleLine = (index: number, step: 1 | -1): number | undefined => {
+    for (let i = index + step; i >= 0 && i < blocks.length; i += step) {
+      if (!hiddenLines.has(i)) return i;
     }
-  }, [lineSpeakers, onSpeakersChange]);
-  
+    return undefined;
+  };
+
   // Listen for insert-note-at-time event from AudioPlayer
   React.useEffect(() => {
     const handleInsertNote = (event: CustomEvent) => {
@@ -141,24 +120,20 @@ export const NotesEditor: React.FC<Props> = ({
       
       // console.log('📝 Insert note at time:', { time, timestampMs, recordingStartTime });
       
-      // Build a mapping of line index to timestamp for all current lines
-      const lines = notes.split(BLOCK_SEPARATOR);
-      
       // Build array of [lineIndex, timestamp] for lines with timestamps
       const timestampedLines: Array<[number, number]> = [];
-      for (let i = 0; i < lines.length; i++) {
-        const ts = lineTimestamps.get(i);
-        if (ts !== undefined) {
-          timestampedLines.push([i, ts]);
+      blocks.forEach((block, i) => {
+        if (block.timeMs !== undefined) {
+          timestampedLines.push([i, block.timeMs]);
         }
-      }
+      });
       
       // Sort by timestamp
       timestampedLines.sort((a, b) => a[1] - b[1]);
       
       // Find where to insert in the PHYSICAL array (not the sorted array)
       // We need to insert after the last line whose timestamp is < timestampMs
-      let insertIndex = lines.length; // Default: append at end
+      let insertIndex = blocks.length; // Default: append at end
       
       for (let i = timestampedLines.length - 1; i >= 0; i--) {
         const [lineIdx, lineTime] = timestampedLines[i];
@@ -170,7 +145,7 @@ export const NotesEditor: React.FC<Props> = ({
       }
       
       // If all lines have timestamps > new timestamp, insert at beginning
-      if (insertIndex === lines.length && timestampedLines.length > 0) {
+      if (insertIndex === blocks.length && timestampedLines.length > 0) {
         const firstLineTime = timestampedLines[0][1];
         if (timestampMs < firstLineTime) {
           insertIndex = 0;
@@ -179,38 +154,13 @@ export const NotesEditor: React.FC<Props> = ({
       
       // console.log('📍 Inserting at index:', insertIndex, 'with timestamp:', timestampMs);
       
-      // Insert new empty line at the calculated position
-      lines.splice(insertIndex, 0, '');
-      
-      // Update lineTimestamps: shift all lines at or after insertIndex
-      const newLineTimestamps = new Map<number, number>();
-      lineTimestamps.forEach((time, lineIndex) => {
-        if (lineIndex < insertIndex) {
-          newLineTimestamps.set(lineIndex, time);
-        } else {
-          newLineTimestamps.set(lineIndex + 1, time);
-        }
-      });
-      newLineTimestamps.set(insertIndex, timestampMs);
-      
-      // Update lineSpeakers: shift all speakers at or after insertIndex
-      const newLineSpeakers = new Map<number, string>();
-      lineSpeakers.forEach((speaker, lineIndex) => {
-        if (lineIndex < insertIndex) {
-          newLineSpeakers.set(lineIndex, speaker);
-        } else {
-          newLineSpeakers.set(lineIndex + 1, speaker);
-        }
-      });
-      // New line has no speaker initially (empty)
-      
-      // console.log('📊 Speaker map before:', Array.from(lineSpeakers.entries()));
-      // console.log('📊 Speaker map after:', Array.from(newLineSpeakers.entries()));
-      
-      setLineTimestamps(newLineTimestamps);
-      setLineSpeakers(newLineSpeakers);
-      onNotesChange(lines.join(BLOCK_SEPARATOR));
-      syncToParentTimestampMap(lines, newLineTimestamps);
+      // Insert new empty line at the calculated position (no speaker initially),
+      // in the section of the line above it
+      const depth = NoteOutline.nextLineDepth(blocks[insertIndex - 1]);
+      const newBlocks = [...blocks];
+      newBlocks.splice(insertIndex, 0, NoteDocument.createBlock({ timeMs: timestampMs, ...(depth ? { indent: depth } : {}) }));
+      if (insertIndex > 0) expandSectionsAround(insertIndex - 1);
+      onBlocksChange(newBlocks);
       
       // Focus the new line
       setTimeout(() => {
@@ -226,7 +176,105 @@ export const NotesEditor: React.FC<Props> = ({
     return () => {
       window.removeEventListener('insert-note-at-time', handleInsertNote as EventListener);
     };
-  }, [notes, lineTimestamps, lineSpeakers, recordingStartTime, onNotesChange]);
+  }, [blocks, collapsedSections, recordingStartTime, onBlocksChange]);
+
+  // Listen for insert-note-heading from the agenda: the started item becomes a section
+  // heading with an empty line under it to type into
+  React.useEffect(() => {
+    const handleInsertHeading = (event: CustomEvent) => {
+      const { text, speaker, timeMs } = event.detail as { text: string; speaker?: string; timeMs: number };
+
+      // A trailing empty line is taken over instead of leaving a blank line above the heading
+      const last = blocks[blocks.length - 1];
+      const reuseLast = blocks.length > 0 && !last.heading && !last.text.trim();
+      const headingIndex = reuseLast ? blocks.length - 1 : blocks.length;
+
+      const heading = NoteDocument.createBlock({ text, timeMs, heading: true, ...(speaker ? { speaker } : {}) });
+      const child = NoteDocument.createBlock({ indent: NoteOutline.nextLineDepth(heading) });
+      commitBlocks([...blocks.slice(0, headingIndex), heading, child]);
+
+      setTimeout(() => {
+        const childText = textRefs.current.get(headingIndex + 1)?.resizableTextArea?.textArea;
+        if (childText) {
+          childText.scrollIntoView({ block: 'nearest' });
+          childText.focus();
+        }
+      }, 50);
+    };
+
+    window.addEventListener('insert-note-heading', handleInsertHeading as EventListener);
+    return () => {
+      window.removeEventListener('insert-note-heading', handleInsertHeading as EventListener);
+    };
+  }, [blocks, history, historyIndex, onBlocksChange]);
+
+  // Listen for reveal-note-line from the project search
+  React.useEffect(() => {
+    const handleReveal = (event: CustomEvent) => {
+      const { lineIndex } = event.detail as { lineIndex: number };
+      if (lineIndex >= blocks.length) return;
+      // A hit inside a collapsed section opens it first
+      const isHidden = hiddenLines.has(lineIndex);
+      if (isHidden) expandSectionsAround(lineIndex);
+      setTimeout(() => lineRefs.current.get(lineIndex)?.scrollIntoView({ block: 'center', behavior: 'smooth' }), isHidden ? 50 : 0);
+      setRevealedLine(lineIndex);
+      if (revealTimeoutRef.current) clearTimeout(revealTimeoutRef.current);
+      revealTimeoutRef.current = setTimeout(() => setRevealedLine(null), 2000);
+    };
+
+    window.addEventListener('reveal-note-line', handleReveal as EventListener);
+    return () => {
+      window.removeEventListener('reveal-note-line', handleReveal as EventListener);
+    };
+  }, [blocks, collapsedSections]);
+
+  React.useEffect(() => () => {
+    if (revealTimeoutRef.current) clearTimeout(revealTimeoutRef.current);
+  }, []);
+
+  // Listen for update-note-tag from the follow-ups panel (tag: null removes it)
+  React.useEffect(() => {
+    const handleUpdateTag = (event: CustomEvent) => {
+      const { blockId, tag } = event.detail as { blockId: string; tag: NoteTag | null };
+      const index = blocks.findIndex(block => block.id === blockId);
+      if (index >= 0) setLineTag(index, tag || undefined);
+    };
+
+    window.addEventListener('update-note-tag', handleUpdateTag as EventListener);
+    return () => window.removeEventListener('update-note-tag', handleUpdateTag as EventListener);
+  }, [blocks, history, historyIndex]);
+
+  // Listen for replace-in-notes from the find/replace dialog
+  React.useEffect(() => {
+    const handleReplace = (event: CustomEvent) => {
+      const { pattern, replacement, useRegex, inText, inSpeakers } = event.detail as {
+        pattern: RegExp;
+        replacement: string;
+        useRegex: boolean;
+        inText: boolean;
+        inSpeakers: boolean;
+      };
+      const replaceIn = (value: string) => FindReplace.replace(value, pattern, replacement, useRegex);
+
+      const newBlocks = blocks.map(block => {
+        const text = inText ? replaceIn(block.text) : block.text;
+        const speaker = inSpeakers && block.speaker ? replaceIn(block.speaker) || undefined : block.speaker;
+        if (text === block.text && speaker === block.speaker) return block;
+        // Formatting follows the text around each replacement
+        const format = block.format && RichText.normalize({ ...block.format, spans: RichText.applyEdit(block.format.spans, block.text, text) });
+        return { ...block, text, speaker, format };
+      });
+      if (newBlocks.every((block, i) => block === blocks[i])) return;
+
+      // One Ctrl+Z undoes the whole replacement
+      commitBlocks(newBlocks);
+    };
+
+    window.addEventListener('replace-in-notes', handleReplace as EventListener);
+    return () => {
+      window.removeEventListener('replace-in-notes', handleReplace as EventListener);
+    };
+  }, [blocks, history, historyIndex, onBlocksChange]);
 
   const formatDatetime = (datetimeMs: number): string => {
     const date = new Date(datetimeMs);
@@ -272,7 +320,7 @@ export const NotesEditor: React.FC<Props> = ({
   };
 
   const handleDatetimeClick = (index: number) => {
-    const timeMs = lineTimestamps.get(index);
+    const timeMs = blocks[index]?.timeMs;
     if (timeMs !== undefined) {
       setEditingDatetimeIndex(index);
       setEditingDatetimeValue(formatDatetime(timeMs));
@@ -287,12 +335,7 @@ export const NotesEditor: React.FC<Props> = ({
     if (editingDatetimeIndex !== null) {
       const newTimeMs = parseDatetime(editingDatetimeValue);
       if (newTimeMs !== null) {
-        const newLineTimestamps = new Map(lineTimestamps);
-        newLineTimestamps.set(editingDatetimeIndex, newTimeMs);
-        setLineTimestamps(newLineTimestamps);
-        
-        const lines = notes.split(BLOCK_SEPARATOR);
-        syncToParentTimestampMap(lines, newLineTimestamps);
+        onBlocksChange(NoteDocument.update(blocks, editingDatetimeIndex, { timeMs: newTimeMs }));
       }
     }
     setEditingDatetimeIndex(null);
@@ -373,54 +416,17 @@ export const NotesEditor: React.FC<Props> = ({
     
     saveToHistory();
     
-    const lines = notes.split(BLOCK_SEPARATOR);
-    const indicesToDelete = Array.from(selectedLines).sort((a, b) => b - a); // Delete from end to start
-    
-    indicesToDelete.forEach(idx => {
-      lines.splice(idx, 1);
-    });
-    
-    // Update timestamps
-    const newLineTimestamps = new Map<number, number>();
-    const deletedSet = new Set(indicesToDelete);
-    let offset = 0;
-    
-    lineTimestamps.forEach((time, lineIndex) => {
-      if (deletedSet.has(lineIndex)) {
-        offset++;
-      } else {
-        const newIndex = lineIndex - offset;
-        newLineTimestamps.set(newIndex, time);
-      }
-    });
-    
-    // Update speakers - same logic as timestamps
-    const newLineSpeakers = new Map<number, string>();
-    offset = 0;
-    
-    lineSpeakers.forEach((speaker, lineIndex) => {
-      if (deletedSet.has(lineIndex)) {
-        offset++;
-      } else {
-        const newIndex = lineIndex - offset;
-        newLineSpeakers.set(newIndex, speaker);
-      }
-    });
-    
-    setLineTimestamps(newLineTimestamps);
-    setLineSpeakers(newLineSpeakers);
+    const remaining = blocks.filter((_, index) => !selectedLines.has(index));
     setSelectedLines(new Set());
-    onNotesChange(lines.join(BLOCK_SEPARATOR));
-    syncToParentTimestampMap(lines, newLineTimestamps);
+    onBlocksChange(remaining.length > 0 ? remaining : NoteDocument.empty());
   };
   
   // Handle copy selected lines
   const handleCopySelected = () => {
     if (selectedLines.size === 0) return;
     
-    const lines = notes.split(BLOCK_SEPARATOR);
     const selectedIndices = Array.from(selectedLines).sort((a, b) => a - b);
-    const textToCopy = selectedIndices.map(idx => lines[idx]).join('\n');
+    const textToCopy = selectedIndices.map(idx => blocks[idx].text).join('\n');
     
     navigator.clipboard.writeText(textToCopy).then(() => {
       // console.log('📋 Copied selected lines to clipboard');
@@ -448,11 +454,7 @@ export const NotesEditor: React.FC<Props> = ({
           e.preventDefault();
           const prevState = history[historyIndex - 1];
           setHistoryIndex(historyIndex - 1);
-          onNotesChange(prevState.notes);
-          setLineTimestamps(new Map(prevState.timestamps));
-          setLineSpeakers(new Map(prevState.speakers));
-          const lines = prevState.notes.split(BLOCK_SEPARATOR);
-          syncToParentTimestampMap(lines, prevState.timestamps);
+          onBlocksChange(prevState);
           // Clear selection after undo
           setSelectedLines(new Set());
         }
@@ -463,15 +465,16 @@ export const NotesEditor: React.FC<Props> = ({
           e.preventDefault();
           const nextState = history[historyIndex + 1];
           setHistoryIndex(historyIndex + 1);
-          onNotesChange(nextState.notes);
-          setLineTimestamps(new Map(nextState.timestamps));
-          setLineSpeakers(new Map(nextState.speakers));
-          const lines = nextState.notes.split(BLOCK_SEPARATOR);
-          syncToParentTimestampMap(lines, nextState.timestamps);
+          onBlocksChange(nextState);
           // Clear selection after redo
           setSelectedLines(new Set());
         }
       }
+      // Ctrl+H: Find and replace across notes and transcripts
+      else if ((e.ctrlKey || e.metaKey) && e.key === 'h' && onOpenFindReplace) {
+        e.preventDefault();
+        onOpenFindReplace();
+      }
       // Ctrl+C: Copy selected lines
       else if ((e.ctrlKey || e.metaKey) && e.key === 'c' && selectedLines.size > 0) {
         // Only handle if not inside textarea (let textarea handle its own copy)
@@ -492,77 +495,55 @@ export const NotesEditor: React.FC<Props> = ({
     
     window.addEventListener('keydown', handleGlobalKeyDown);
     return () => window.removeEventListener('keydown', handleGlobalKeyDown);
-  }, [history, historyIndex, selectedLines, notes, lineTimestamps]);
+  }, [history, historyIndex, selectedLines, blocks, onOpenFindReplace]);
 
   const handleLineChange = (index: number, value: string) => {
-    const BLOCK_SEPARATOR = '§§§';
-    const lines = notes.split(BLOCK_SEPARATOR);
-    const oldLine = lines[index];
+    const block = blocks[index];
     
     // Don't auto-delete line when it becomes empty
     // Let user explicitly delete via Backspace/Delete keys (handled in handleKeyDown)
     // Just update the content
-    lines[index] = value;
+    const changes: Partial<NoteBlock> = { text: value };
+
+    // Keep bold/italic/links on the characters they were applied to
+    if (block.format && block.format.spans.length > 0) {
+      changes.format = RichText.normalize({ ...block.format, spans: RichText.applyEdit(block.format.spans, block.text, value) });
+    }
     
     // Auto-create timestamp: Only in Live Mode when line goes from empty to having content
     if (isLiveMode) {
-      const oldLineEmpty = oldLine.trim().length === 0;
+      const oldLineEmpty = block.text.trim().length === 0;
       const newLineHasContent = value.trim().length > 0;
       
-      if (oldLineEmpty && newLineHasContent && !lineTimestamps.has(index)) {
+      if (oldLineEmpty && newLineHasContent && block.timeMs === undefined) {
         // Save datetime with delay offset (người gõ note thường chậm hơn người nói)
-        const currentDatetime = Date.now() - (timestampDelay * 1000);
-        
-        const newLineTimestamps = new Map(lineTimestamps);
-        newLineTimestamps.set(index, currentDatetime);
-        setLineTimestamps(newLineTimestamps);
-        
-        onNotesChange(lines.join(BLOCK_SEPARATOR));
-        syncToParentTimestampMap(lines, newLineTimestamps);
+        const timeMs = Date.now() - (timestampDelay * 1000);
+        changes.timeMs = timeMs;
+        // Pre-filled section headings (from a template) take the time of the first line written in them
+        const untimedHeadings = NoteOutline.ancestors(blocks, index)
+          .filter(heading => heading.timeMs === undefined)
+          .map(heading => heading.id);
+        onBlocksChange(NoteDocument.update(blocks, index, changes).map(item =>
+          untimedHeadings.includes(item.id) ? { ...item, timeMs } : item
+        ));
         return;
       }
     }
     // In Loaded Mode: Never auto-create timestamp, user must use right-click on waveform
     
-    // Always sync timestamps when text changes (to update positions)
-    onNotesChange(lines.join(BLOCK_SEPARATOR));
-    syncToParentTimestampMap(lines, lineTimestamps);
+    onBlocksChange(NoteDocument.update(blocks, index, changes));
     debouncedSaveToHistory(); // Auto-save after typing
   };
   
-  // Convert line-based timestamps to position-based for parent state
-  const syncToParentTimestampMap = (lines: string[], lineTimestamps: Map<number, number>) => {
-    const BLOCK_SEPARATOR = '§§§';
-    const newMap = new Map<number, number>();
-    
-    lineTimestamps.forEach((time, lineIndex) => {
-      // Calculate position for this line
-      let pos = 0;
-      for (let i = 0; i < lineIndex && i < lines.length; i++) {
-        pos += lines[i].length;
-        if (i < lines.length - 1) {
-          pos += BLOCK_SEPARATOR.length;
-        }
-      }
-      newMap.set(pos, time);
-    });
-    
-    onTimestampMapChange(newMap);
-  };
-  
   // Save current state to history
   const saveToHistory = () => {
     // Don't save if no actual changes
-    if (notes === lastSavedNotesRef.current) {
+    if (NoteDocument.equals(blocks, lastSavedBlocksRef.current)) {
       return;
     }
     
     const newHistory = history.slice(0, historyIndex + 1);
-    newHistory.push({
-      notes: notes,
-      timestamps: new Map(lineTimestamps),
-      speakers: new Map(lineSpeakers)
-    });
+    newHistory.push(blocks);
     // Limit history to 50 entries
     if (newHistory.length > 50) {
       newHistory.shift();
@@ -570,7 +551,7 @@ export const NotesEditor: React.FC<Props> = ({
       setHistoryIndex(historyIndex + 1);
     }
     setHistory(newHistory);
-    lastSavedNotesRef.current = notes;
+    lastSavedBlocksRef.current = blocks;
   };
   
   // Debounced auto-save to history (for typing)
@@ -583,11 +564,171 @@ export const NotesEditor: React.FC<Props> = ({
     }, 1000); // Save after 1 second of inactivity
   };
 
+  // Apply a change in one step (tags, formatting, a replacement), recording the state before
+  // and after so Ctrl+Z undoes it
+  const commitBlocks = (newBlocks: NoteBlock[]) => {
+    if (saveTimeoutRef.current) {
+      clearTimeout(saveTimeoutRef.current);
+      saveTimeoutRef.current = null;
+    }
+    const newHistory = history.slice(0, historyIndex + 1);
+    newHistory.push(blocks, newBlocks);
+    const trimmedHistory = newHistory.slice(-50); // Limit history to 50 entries
+    setHistory(trimmedHistory);
+    setHistoryIndex(trimmedHistory.length - 1);
+    lastSavedBlocksRef.current = newBlocks;
+
+    onBlocksChange(newBlocks);
+  };
+
+  // Set or remove (tag undefined) the follow-up tag of a line
+  const setLineTag = (index: number, tag: NoteTag | undefined) => {
+    commitBlocks(NoteDocument.update(blocks, index, { tag }));
+  };
+
+  // Ctrl+Alt+A/D/Q: tag the line, or remove the tag if it already has that kind
+  const handleTagShortcut = (index: number, e: React.KeyboardEvent<HTMLTextAreaElement>): boolean => {
+    const kind = e.ctrlKey && e.altKey ? TAG_SHORTCUTS[e.code] : undefined;
+    if (!kind) return false;
+    e.preventDefault();
+    const current = blocks[index].tag;
+    setLineTag(index, current?.kind === kind ? undefined : { ...current, kind });
+    return true;
+  };
+
+  // "AI: Lan 15/3", "QĐ:", "?:" typed in the speaker column tag the line
+  const handleSpeakerBlur = (index: number) => {
+    const block = blocks[index];
+    const parsed = NoteTags.parsePrefix(block.speaker || '');
+    if (!parsed) return;
+
+    commitBlocks(NoteDocument.update(blocks, index, {
+      tag: { ...block.tag, ...parsed.tag },
+      speaker: parsed.speaker || undefined
+    }));
+  };
+
+  // Toolbar / shortcut formatting of the selection (bold, italic, link) or the whole line (lists)
+  const handleFormatCommand = (index: number, command: FormatCommand) => {
+    const textArea = textRefs.current.get(index)?.resizableTextArea?.textArea;
+    const line = blocks[index].text;
+    const format = blocks[index].format || { spans: [] };
+    const start = textArea?.selectionStart ?? 0;
+    const end = textArea?.selectionEnd ?? 0;
+
+    if (command === 'bullet' || command === 'ordered') {
+      commitBlocks(NoteDocument.update(blocks, index, { format: RichText.normalize({ ...format, list: format.list === command ? undefined : command }) }));
+      return;
+    }
+
+    if (command === 'link') {
+      // With no selection, edit the link the caret is in
+      const link = RichText.linkAt(format.spans, start);
+      if (start === end && !link) return;
+      setLinkEditor(start === end && link
+        ? { index, start: link.start, end: link.end, url: link.link || '' }
+        : { index, start, end, url: link?.link || '' });
+      return;
+    }
+
+    if (start === end) return;
+    commitBlocks(NoteDocument.update(blocks, index, {
+      format: RichText.normalize({ ...format, spans: RichText.toggleMark(line, format.spans, start, end, command) })
+    }));
+  };
+
+  const handleFormatShortcut = (index: number, e: React.KeyboardEvent<HTMLTextAreaElement>): boolean => {
+    if (!(e.ctrlKey || e.metaKey) || e.altKey) return false;
+    const command = e.shiftKey ? LIST_SHORTCUTS[e.code] : FORMAT_SHORTCUTS[e.code];
+    if (!command) return false;
+    e.preventDefault();
+    handleFormatCommand(index, command);
+    return true;
+  };
+
+  // Toggle a section heading, or nest the line (a heading moves with its section)
+  const handleOutlineCommand = (index: number, command: OutlineCommand) => {
+    if (command === 'heading') {
+      commitBlocks(NoteDocument.update(blocks, index, { heading: blocks[index].heading ? undefined : true }));
+      return;
+    }
+    const shifted = NoteOutline.shift(blocks, index, command === 'indent' ? 1 : -1);
+    if (shifted !== blocks) commitBlocks(shifted);
+  };
+
+  const handleOutlineShortcut = (index: number, e: React.KeyboardEvent<HTMLTextAreaElement>): boolean => {
+    let command: OutlineCommand | undefined;
+    if (e.key === 'Tab' && !e.ctrlKey && !e.altKey && !e.metaKey) {
+      command = e.shiftKey ? 'outdent' : 'indent';
+    } else if (e.ctrlKey && e.altKey && e.code === 'KeyH') {
+      command = 'heading';
+    }
+    if (!command) return false;
+    e.preventDefault();
+    handleOutlineCommand(index, command);
+    return true;
+  };
+
+  // Link dialog: an empty address removes the link
+  const handleSaveLink = (url: string) => {
+    if (!linkEditor) return;
+    const { index, start, end } = linkEditor;
+    const line = blocks[index].text;
+    const format = blocks[index].format || { spans: [] };
+    const trimmedUrl = url.trim();
+    const href = trimmedUrl && !/^[a-z][a-z0-9+.-]*:/i.test(trimmedUrl) ? `https://${trimmedUrl}` : trimmedUrl;
+
+    commitBlocks(NoteDocument.update(blocks, index, {
+      format: RichText.normalize({ ...format, spans: RichText.setLink(line, format.spans, start, end, href) })
+    }));
+    setLinkEditor(null);
+    setTimeout(() => textRefs.current.get(index)?.resizableTextArea?.textArea?.focus(), 10);
+  };
+
+  const renderTagEditor = (index: number, tag: NoteTag) => (
+    <Space direction="vertical" size="small" style={{ width: 220 }}>
+      <Select<NoteTagKind>
+        size="small"
+        style={{ width: '100%' }}
+        value={tag.kind}
+        onChange={(kind) => setLineTag(index, { ...tag, kind })}
+        options={(Object.keys(NOTE_TAG_LABELS) as NoteTagKind[]).map(kind => ({ value: kind, label: NOTE_TAG_LABELS[kind] }))}
+      />
+      {tag.kind === 'action' && (
+        <>
+          <Input
+            size="small"
+            placeholder="Người phụ trách"
+            defaultValue={tag.owner}
+            onBlur={(e) => {
+              const owner = e.target.value.trim();
+              if (owner !== (tag.owner || '')) setLineTag(index, { ...tag, owner: owner || undefined });
+            }}
+          />
+          <Input
+            size="small"
+            type="date"
+            value={tag.dueDate || ''}
+            onChange={(e) => setLineTag(index, { ...tag, dueDate: e.target.value || undefined })}
+          />
+          <Checkbox checked={!!tag.done} onChange={(e) => setLineTag(index, { ...tag, done: e.target.checked })}>
+            Đã xong
+          </Checkbox>
+        </>
+      )}
+      <Button size="small" danger block onClick={() => setLineTag(index, undefined)}>
+        Bỏ đánh dấu
+      </Button>
+    </Space>
+  );
+
   const handleSpeakerKeyDown = (index: number, e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     const target = e.target as HTMLTextAreaElement;
     const cursorPos = target.selectionStart;
     const speakerText = target.value;
 
+    if (handleTagShortcut(index, e)) return;
+
     // Enter (without Shift): Move to text column at end
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -614,9 +755,10 @@ export const NotesEditor: React.FC<Props> = ({
     }
 
     // ArrowUp: Move to previous speaker textarea if cursor at beginning of first line
-    if (e.key === 'ArrowUp' && cursorPos === 0 && index > 0) {
+    const prevIndex = visibleLine(index, -1);
+    if (e.key === 'ArrowUp' && cursorPos === 0 && prevIndex !== undefined) {
       e.preventDefault();
-      const prevSpeakerRef = speakerRefs.current.get(index - 1);
+      const prevSpeakerRef = speakerRefs.current.get(prevIndex);
       const prevSpeaker = prevSpeakerRef?.resizableTextArea?.textArea;
       if (prevSpeaker) {
         prevSpeaker.focus();
@@ -626,9 +768,10 @@ export const NotesEditor: React.FC<Props> = ({
     }
 
     // ArrowDown: Move to next speaker textarea if cursor at end of last line
-    if (e.key === 'ArrowDown' && cursorPos === speakerText.length && index < notes.split('§§§').length - 1) {
+    const nextIndex = visibleLine(index, 1);
+    if (e.key === 'ArrowDown' && cursorPos === speakerText.length && nextIndex !== undefined) {
       e.preventDefault();
-      const nextSpeakerRef = speakerRefs.current.get(index + 1);
+      const nextSpeakerRef = speakerRefs.current.get(nextIndex);
       const nextSpeaker = nextSpeakerRef?.resizableTextArea?.textArea;
       if (nextSpeaker) {
         nextSpeaker.focus();
@@ -639,12 +782,15 @@ export const NotesEditor: React.FC<Props> = ({
   };
 
   const handleKeyDown = (index: number, e: React.KeyboardEvent<HTMLTextAreaElement>) => {
-    const BLOCK_SEPARATOR = '§§§';
-    const lines = notes.split(BLOCK_SEPARATOR);
-    const currentLine = lines[index];
+    const currentBlock = blocks[index];
+    const currentLine = currentBlock.text;
     const target = e.target as HTMLTextAreaElement;
     const cursorPos = target.selectionStart;
 
+    if (handleTagShortcut(index, e)) return;
+    if (handleFormatShortcut(index, e)) return;
+    if (handleOutlineShortcut(index, e)) return;
+
     // ArrowLeft: Move to speaker column if cursor at beginning
     if (e.key === 'ArrowLeft' && cursorPos === 0) {
       e.preventDefault();
@@ -658,9 +804,10 @@ export const NotesEditor: React.FC<Props> = ({
     }
 
     // ArrowUp: Move to previous textarea if cursor at beginning
-    if (e.key === 'ArrowUp' && cursorPos === 0 && index > 0) {
+    const prevIndex = visibleLine(index, -1);
+    if (e.key === 'ArrowUp' && cursorPos === 0 && prevIndex !== undefined) {
       e.preventDefault();
-      const prevTextRef = textRefs.current.get(index - 1);
+      const prevTextRef = textRefs.current.get(prevIndex);
       const prevText = prevTextRef?.resizableTextArea?.textArea;
       if (prevText) {
         prevText.focus();
@@ -670,9 +817,10 @@ export const NotesEditor: React.FC<Props> = ({
     }
 
     // ArrowDown: Move to next textarea if cursor at end
-    if (e.key === 'ArrowDown' && cursorPos === currentLine.length && index < lines.length - 1) {
+    const nextIndex = visibleLine(index, 1);
+    if (e.key === 'ArrowDown' && cursorPos === currentLine.length && nextIndex !== undefined) {
       e.preventDefault();
-      const nextTextRef = textRefs.current.get(index + 1);
+      const nextTextRef = textRefs.current.get(nextIndex);
       const nextText = nextTextRef?.resizableTextArea?.textArea;
       if (nextText) {
         nextText.focus();
@@ -698,38 +846,27 @@ export const NotesEditor: React.FC<Props> = ({
       const beforeCursor = currentLine.substring(0, cursorPos);
       const afterCursor = currentLine.substring(cursorPos);
       
-      lines[index] = beforeCursor;
-      lines.splice(index + 1, 0, afterCursor);
-      
-      // Shift timestamps for lines after the split
-      const newLineTimestamps = new Map<number, number>();
-      lineTimestamps.forEach((time, lineIndex) => {
-        if (lineIndex < index + 1) {
-          newLineTimestamps.set(lineIndex, time);
-        } else {
-          newLineTimestamps.set(lineIndex + 1, time);
-        }
-      });
+      // Formatting is split with the text; the new line continues the list
+      const format = currentBlock.format;
+      const [beforeSpans, afterSpans] = format ? RichText.split(format.spans, cursorPos) : [[], []];
       
-      // Shift speakers for lines after the split
-      const newLineSpeakers = new Map<number, string>();
-      lineSpeakers.forEach((speaker, lineIndex) => {
-        if (lineIndex < index + 1) {
-          newLineSpeakers.set(lineIndex, speaker);
-        } else {
-          newLineSpeakers.set(lineIndex + 1, speaker);
-        }
-      });
-      // New line starts with empty speaker (user can fill in manually)
-      
-      // Don't auto-assign timestamp to new line
-      // Timestamp will be created when user types first character (in handleLineChange)
-      
-      setLineTimestamps(newLineTimestamps);
-      setLineSpeakers(newLineSpeakers);
-      
-      onNotesChange(lines.join(BLOCK_SEPARATOR));
-      syncToParentTimestampMap(lines, newLineTimestamps);
+      // The speaker, time and tag stay on the line they were set on. The new line starts
+      // without them; its timestamp is created when the user types (in handleLineChange).
+      // It keeps the outline depth, or goes one level under a heading.
+      const newDepth = NoteOutline.nextLineDepth(currentBlock);
+      const newBlocks = [...blocks];
+      newBlocks.splice(
+        index,
+        1,
+        { ...currentBlock, text: beforeCursor, format: format && RichText.normalize({ ...format, spans: beforeSpans }) },
+        NoteDocument.createBlock({
+          text: afterCursor,
+          format: format && RichText.normalize({ ...format, spans: afterSpans }),
+          ...(newDepth ? { indent: newDepth } : {})
+        })
+      );
+      expandSectionsAround(index);
+      onBlocksChange(newBlocks);
       
       // Focus next line after React re-renders
       setTimeout(() => {
@@ -744,6 +881,20 @@ export const NotesEditor: React.FC<Props> = ({
     // Shift+Enter: Allow natural newline (browser default behavior)
     // No preventDefault for Shift+Enter - let textarea handle it naturally
     
+    // Backspace at the start of a list item ends the list first
+    if (e.key === 'Backspace' && cursorPos === 0 && target.selectionEnd === 0 && currentBlock.format?.list) {
+      e.preventDefault();
+      handleFormatCommand(index, currentBlock.format.list);
+      return;
+    }
+
+    // Then an indented line moves out one level
+    if (e.key === 'Backspace' && cursorPos === 0 && target.selectionEnd === 0 && NoteOutline.depth(currentBlock) > 0) {
+      e.preventDefault();
+      handleOutlineCommand(index, 'outdent');
+      return;
+    }
+
     if (e.key === 'Backspace' && cursorPos === 0 && index > 0) {
       // Check if user has selected text
       const selectionStart = target.selectionStart;
@@ -761,35 +912,13 @@ export const NotesEditor: React.FC<Props> = ({
       
       // Save to history before merge/delete
       saveToHistory();
+
+      // The line above may be inside a collapsed section
+      expandSectionsAround(index - 1);
       
       if (currentLine.trim().length === 0) {
         // Current line is empty, just remove it
-        lines.splice(index, 1);
-        
-        // Remove timestamp for deleted line and shift others
-        const newLineTimestamps = new Map<number, number>();
-        lineTimestamps.forEach((time, lineIndex) => {
-          if (lineIndex < index) {
-            newLineTimestamps.set(lineIndex, time);
-          } else if (lineIndex > index) {
-            newLineTimestamps.set(lineIndex - 1, time);
-          }
-        });
-        setLineTimestamps(newLineTimestamps);
-        
-        // Remove speaker for deleted line and shift others
-        const newLineSpeakers = new Map<number, string>();
-        lineSpeakers.forEach((speaker, lineIndex) => {
-          if (lineIndex < index) {
-            newLineSpeakers.set(lineIndex, speaker);
-          } else if (lineIndex > index) {
-            newLineSpeakers.set(lineIndex - 1, speaker);
-          }
-        });
-        setLineSpeakers(newLineSpeakers);
-        
-        onNotesChange(lines.join(BLOCK_SEPARATOR));
-        syncToParentTimestampMap(lines, newLineTimestamps);
+        onBlocksChange(blocks.filter((_, i) => i !== index));
         
         // Focus previous line at end
         setTimeout(() => {
@@ -802,36 +931,18 @@ export const NotesEditor: React.FC<Props> = ({
         }, 10);
       } else {
         // Current line has content, merge with previous
-        const prevLine = lines[index - 1];
-        const prevLength = prevLine.length;
-        
-        lines[index - 1] = prevLine + currentLine;
-        lines.splice(index, 1);
+        const prevBlock = blocks[index - 1];
+        const prevLength = prevBlock.text.length;
         
-        // Remove timestamp for deleted line and shift others
-        const newLineTimestamps = new Map<number, number>();
-        lineTimestamps.forEach((time, lineIndex) => {
-          if (lineIndex < index) {
-            newLineTimestamps.set(lineIndex, time);
-          } else if (lineIndex > index) {
-            newLineTimestamps.set(lineIndex - 1, time);
-          }
-        });
-        setLineTimestamps(newLineTimestamps);
-        
-        // Remove speaker for deleted line and shift others
-        const newLineSpeakers = new Map<number, string>();
-        lineSpeakers.forEach((speaker, lineIndex) => {
-          if (lineIndex < index) {
-            newLineSpeakers.set(lineIndex, speaker);
-          } else if (lineIndex > index) {
-            newLineSpeakers.set(lineIndex - 1, speaker);
-          }
+        // The merged line keeps the previous line's speaker, time, tag, list style and both lines' formatting
+        const mergedSpans = RichText.concat(prevBlock.format?.spans || [], prevLength, currentBlock.format?.spans || []);
+        const newBlocks = [...blocks];
+        newBlocks.splice(index - 1, 2, {
+          ...prevBlock,
+          text: prevBlock.text + currentLine,
+          format: RichText.normalize({ ...prevBlock.format, spans: mergedSpans })
         });
-        setLineSpeakers(newLineSpeakers);
-        
-        onNotesChange(lines.join(BLOCK_SEPARATOR));
-        syncToParentTimestampMap(lines, newLineTimestamps);
+        onBlocksChange(newBlocks);
         
         // Focus previous line
         setTimeout(() => {
@@ -847,38 +958,13 @@ export const NotesEditor: React.FC<Props> = ({
     }
     
     // Delete key: delete entire line if it's empty
-    if (e.key === 'Delete' && currentLine.trim().length === 0 && lines.length > 1) {
+    if (e.key === 'Delete' && currentLine.trim().length === 0 && blocks.length > 1) {
       e.preventDefault();
-      lines.splice(index, 1);
-      
-      // Remove timestamp for deleted line and shift others
-      const newLineTimestamps = new Map<number, number>();
-      lineTimestamps.forEach((time, lineIndex) => {
-        if (lineIndex < index) {
-          newLineTimestamps.set(lineIndex, time);
-        } else if (lineIndex > index) {
-          newLineTimestamps.set(lineIndex - 1, time);
-        }
-      });
-      setLineTimestamps(newLineTimestamps);
-      
-      // Remove speaker for deleted line and shift others
-      const newLineSpeakers = new Map<number, string>();
-      lineSpeakers.forEach((speaker, lineIndex) => {
-        if (lineIndex < index) {
-          newLineSpeakers.set(lineIndex, speaker);
-        } else if (lineIndex > index) {
-          newLineSpeakers.set(lineIndex - 1, speaker);
-        }
-      });
-      setLineSpeakers(newLineSpeakers);
-      
-      onNotesChange(lines.join(BLOCK_SEPARATOR));
-      syncToParentTimestampMap(lines, newLineTimestamps);
+      onBlocksChange(blocks.filter((_, i) => i !== index));
       
       // Focus current position (which will now be the next line)
       setTimeout(() => {
-        const focusIndex = Math.min(index, lines.length - 1);
+        const focusIndex = Math.min(index, blocks.length - 2);
         const focusTextRef = textRefs.current.get(focusIndex);
         const focusText = focusTextRef?.resizableTextArea?.textArea;
         if (focusText) {
@@ -890,7 +976,7 @@ export const NotesEditor: React.FC<Props> = ({
 
   const handleDatetimeDoubleClick = (e: React.MouseEvent, lineIndex: number) => {
     e.stopPropagation();
-    const datetimeMs = lineTimestamps.get(lineIndex);
+    const datetimeMs = blocks[lineIndex].timeMs;
     if (datetimeMs !== undefined && recordingStartTime > 0) {
       // Convert datetime to relative time from recording start
       const relativeTimeMs = datetimeMs - recordingStartTime;
@@ -902,10 +988,17 @@ export const NotesEditor: React.FC<Props> = ({
     }
   };
 
-  const lines = notes.split(BLOCK_SEPARATOR);
-  if (lines.length === 0 || (lines.length === 1 && lines[0] === '')) {
-    lines[0] = '';
-  }
+  const listMarkers = RichText.listMarkers(blocks);
+  const sections = new Map(NoteOutline.sections(blocks).map(section => [section.blockId, section]));
+
+  // "00:05:10 – 00:17:42 · 13 phút" from the section's timestamps, in the timestamp column's style
+  const formatSectionRange = (section: NoteSection): string => {
+    if (section.startMs === undefined || section.endMs === undefined) return '';
+    const format = (timeMs: number) => (isLiveMode ? formatDatetime(timeMs).slice(11) : formatTimestamp(timeMs));
+    if (section.endMs === section.startMs) return format(section.startMs);
+    const minutes = Math.max(1, Math.round((section.endMs - section.startMs) / 60000));
+    return `${format(section.startMs)} – ${format(section.endMs)} · ${minutes} phút`;
+  };
 
   return (
     <div className="notes-editor-container">
@@ -914,8 +1007,8 @@ export const NotesEditor: React.FC<Props> = ({
         <div className="editor-controls">
           <span className="recording-hint">
             {isLiveMode 
-              ? '💡 Gõ để tạo ngày giờ • Enter để xuống dòng mới • Shift+Enter để ngắt dòng'
-              : '💡 Nhấp chuột phải vào sóng âm để chèn ghi chú • Enter/Shift+Enter để ngắt dòng trong văn bản'
+              ? '💡 Gõ để tạo ngày giờ • Enter để xuống dòng mới • Shift+Enter để ngắt dòng • Tab/Shift+Tab: thụt lề • Ctrl+Alt+H: tiêu đề mục • Ctrl+Alt+A/D/Q: việc/quyết định/câu hỏi'
+              : '💡 Nhấp chuột phải vào sóng âm để chèn ghi chú • Enter/Shift+Enter để ngắt dòng trong văn bản • Tab/Shift+Tab: thụt lề • Ctrl+Alt+H: tiêu đề mục • Ctrl+Alt+A/D/Q: việc/quyết định/câu hỏi'
             }
           </span>
           {isLiveMode && (
@@ -949,6 +1042,55 @@ export const NotesEditor: React.FC<Props> = ({
             
             </div>
           )}
+          <span className="format-toolbar" style={{ display: 'inline-flex', gap: '4px', marginRight: '8px' }}>
+            {([
+              ['bold', <b>B</b>, 'In đậm (Ctrl+B)'],
+              ['italic', <i>I</i>, 'In nghiêng (Ctrl+I)'],
+              ['bullet', '•', 'Danh sách (Ctrl+Shift+8)'],
+              ['ordered', '1.', 'Danh sách đánh số (Ctrl+Shift+7)'],
+              ['link', '🔗', 'Liên kết (Ctrl+K)']
+            ] as Array<[FormatCommand, React.ReactNode, string]>).map(([command, label, title]) => (
+              <button
+                key={command}
+                className="toggle-timestamps-btn"
+                title={title}
+                // Keep the focus and selection in the notes line
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => activeLineRef.current !== null && handleFormatCommand(activeLineRef.current, command)}
+                style={{ minWidth: '28px' }}
+              >
+                {label}
+              </button>
+            ))}
+          </span>
+          <span className="outline-toolbar" style={{ display: 'inline-flex', gap: '4px', marginRight: '8px' }}>
+            {([
+              ['heading', 'H', 'Tiêu đề mục (Ctrl+Alt+H)'],
+              ['outdent', '⇤', 'Giảm thụt lề (Shift+Tab)'],
+              ['indent', '⇥', 'Thụt lề (Tab)']
+            ] as Array<[OutlineCommand, React.ReactNode, string]>).map(([command, label, title]) => (
+              <button
+                key={command}
+                className="toggle-timestamps-btn"
+                title={title}
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => activeLineRef.current !== null && handleOutlineCommand(activeLineRef.current, command)}
+                style={{ minWidth: '28px' }}
+              >
+                {label}
+              </button>
+            ))}
+          </span>
+          {onOpenFindReplace && (
+            <button
+              className="toggle-timestamps-btn"
+              onClick={onOpenFindReplace}
+              title="Tìm và thay thế trong ghi chú và transcript (Ctrl+H)"
+              style={{ marginRight: '8px' }}
+            >
+              🔍 Tìm & thay thế
+            </button>
+          )}
           <button
             className="toggle-timestamps-btn"
             onClick={() => setShowTimestamps(!showTimestamps)}
@@ -969,18 +1111,34 @@ export const NotesEditor: React.FC<Props> = ({
           overflowY: 'auto'
         }}
       >
-        {lines.map((line, index) => {
-        const timeMs = lineTimestamps.get(index);
+        {blocks.map((block, index) => {
+        if (hiddenLines.has(index)) return null;
+        const { text: line, timeMs, tag } = block;
         const isSelected = selectedLines.has(index);
+        const spans = block.format?.spans || [];
+        const listMarker = listMarkers.get(block.id);
+        const depth = NoteOutline.depth(block);
+        const section = block.heading ? sections.get(block.id) : undefined;
+        const childCount = section ? section.endIndex - section.index - 1 : 0;
+        const isCollapsed = collapsedSections.has(block.id);
+        // Headings are bold; the backdrop of formatted lines must match the text area
+        const headingStyle: React.CSSProperties = block.heading ? { fontWeight: 'bold' } : {};
           return (
             <div
-              key={index}
+              key={block.id}
+              ref={(element) => {
+                if (element) lineRefs.current.set(index, element);
+                else lineRefs.current.delete(index);
+              }}
               onMouseDown={(e) => handleLineMouseDown(index, e)}
               onMouseEnter={() => handleLineMouseEnter(index)}
               style={{
                 display: 'flex',
-                borderBottom: index < lines.length - 1 ? '1px solid #2d2d2d' : 'none',
-                backgroundColor: isSelected ? 'rgba(24, 144, 255, 0.15)' : 'transparent',
+                borderBottom: index < blocks.length - 1 ? '1px solid #2d2d2d' : 'none',
+                backgroundColor: isSelected
+                  ? 'rgba(24, 144, 255, 0.15)'
+                  : revealedLine === index ? 'rgba(250, 173, 20, 0.2)' : block.heading ? 'rgba(255, 255, 255, 0.04)' : 'transparent',
+                transition: 'background-color 0.3s ease',
                 outline: isSelected ? '2px solid rgba(24, 144, 255, 0.5)' : 'none',
                 outlineOffset: '-2px',
                 userSelect: 'none' // Prevent text selection during drag
@@ -1040,7 +1198,8 @@ export const NotesEditor: React.FC<Props> = ({
                   padding: '4px',
                   flexShrink: 0,
                   display: 'flex',
-                  alignItems: 'flex-start',
+                  flexDirection: 'column',
+                  gap: '4px',
                   paddingTop: '8px'
                 }}
               >
@@ -1052,17 +1211,10 @@ export const NotesEditor: React.FC<Props> = ({
                       speakerRefs.current.delete(index);
                     }
                   }}
-                  value={lineSpeakers.get(index) || ''}
-                  onChange={(e) => {
-                    const newSpeakers = new Map(lineSpeakers);
-                    if (e.target.value) {
-                      newSpeakers.set(index, e.target.value);
-                    } else {
-                      newSpeakers.delete(index);
-                    }
-                    setLineSpeakers(newSpeakers);
-                  }}
+                  value={block.speaker || ''}
+                  onChange={(e) => onBlocksChange(NoteDocument.update(blocks, index, { speaker: e.target.value || undefined }))}
                   onKeyDown={(e) => handleSpeakerKeyDown(index, e)}
+                  onBlur={() => handleSpeakerBlur(index)}
                   placeholder="Người nói"
                   autoSize={{ minRows: 1, maxRows: 10 }}
                   style={{
@@ -1077,48 +1229,211 @@ export const NotesEditor: React.FC<Props> = ({
                     resize: 'none'
                   }}
                 />
+                {tag && (
+                  <Popover trigger="click" placement="bottomLeft" content={renderTagEditor(index, tag)}>
+                    <span
+                      onMouseDown={(e) => e.stopPropagation()}
+                      title="Nhấn để sửa đánh dấu"
+                      style={{
+                        cursor: 'pointer',
+                        fontSize: '11px',
+                        lineHeight: '16px',
+                        padding: '1px 4px',
+                        borderRadius: '3px',
+                        color: '#fff',
+                        backgroundColor: NOTE_TAG_COLORS[tag.kind],
+                        opacity: tag.done ? 0.5 : 1,
+                        textDecoration: tag.done ? 'line-through' : 'none',
+                        border: NoteTags.isOverdue(tag) ? '1px solid #ff4d4f' : '1px solid transparent',
+                        wordBreak: 'break-word'
+                      }}
+                    >
+                      {NOTE_TAG_LABELS[tag.kind]}
+                      {tag.owner && ` · ${tag.owner}`}
+                      {tag.dueDate && ` · ${NoteTags.formatDueDate(tag.dueDate)}`}
+                    </span>
+                  </Popover>
+                )}
               </div>
 
               {/* Text Input */}
-              <TextArea
-                ref={(el) => {
-                  if (el) {
-                    textRefs.current.set(index, el);
-                  } else {
-                    textRefs.current.delete(index);
-                  }
-                }}
-                value={line}
-                onChange={(e) => handleLineChange(index, e.target.value)}
-                onKeyDown={(e) => handleKeyDown(index, e)}
-                onMouseDown={(e) => {
-                  // If Ctrl or Shift is pressed, prevent focus and let parent handle selection
-                  if (e.ctrlKey || e.metaKey || e.shiftKey) {
-                    e.preventDefault();
-                  }
-                }}
-                onInput={(e) => {
-                  // Handle undo/redo operations
-                  const target = e.target as HTMLTextAreaElement;
-                  handleLineChange(index, target.value);
-                }}
-                placeholder={index === 0 ? "Bắt đầu nhập..." : ""}
-                autoSize={{ minRows: 1, maxRows: 10 }}
+              <div
                 style={{
                   flex: 1,
-                  fontFamily: 'monospace',
-                  fontSize: '14px',
-                  lineHeight: '1.6',
-                  border: 'none',
-                  backgroundColor: isSelected ? 'rgba(30, 30, 30, 0.9)' : 'transparent',
-                  resize: 'none',
-                  padding: '8px'
+                  display: 'flex',
+                  minWidth: 0,
+                  backgroundColor: isSelected && spans.length > 0 ? 'rgba(30, 30, 30, 0.9)' : 'transparent'
                 }}
-              />
+              >
+                {depth > 0 && <span style={{ width: depth * OUTLINE_INDENT_PX, flexShrink: 0 }} />}
+                {block.heading && (
+                  <span
+                    onMouseDown={(e) => e.stopPropagation()}
+                    onClick={() => childCount > 0 && toggleSection(block.id)}
+                    title={childCount > 0 ? (isCollapsed ? 'Mở rộng mục' : 'Thu gọn mục') : undefined}
+                    style={{
+                      padding: '8px 0 8px 8px',
+                      fontFamily: 'monospace',
+                      fontSize: '14px',
+                      lineHeight: '1.6',
+                      color: childCount > 0 ? '#d4d4d4' : '#555',
+                      cursor: childCount > 0 ? 'pointer' : 'default',
+                      flexShrink: 0
+                    }}
+                  >
+                    {isCollapsed ? '▸' : '▾'}
+                  </span>
+                )}
+                {listMarker && (
+                  <span
+                    style={{
+                      padding: '8px 0 8px 12px',
+                      fontFamily: 'monospace',
+                      fontSize: '14px',
+                      lineHeight: '1.6',
+                      color: '#888',
+                      flexShrink: 0
+                    }}
+                  >
+                    {listMarker}
+                  </span>
+                )}
+                <div style={{ position: 'relative', flex: 1, minWidth: 0 }}>
+                  {spans.length > 0 && (
+                    <div
+                      aria-hidden
+                      ref={(element) => {
+                        if (element) backdropRefs.current.set(index, element);
+                        else backdropRefs.current.delete(index);
+                      }}
+                      style={{
+                        position: 'absolute',
+                        inset: 0,
+                        padding: '8px',
+                        fontFamily: 'monospace',
+                        fontSize: '14px',
+                        lineHeight: '1.6',
+                        whiteSpace: 'pre-wrap',
+                        overflowWrap: 'break-word',
+                        overflow: 'hidden',
+                        pointerEvents: 'none',
+                        color: 'rgba(255, 255, 255, 0.85)',
+                        ...headingStyle
+                      }}
+                    >
+                      {RichText.segments(line, spans).map(segment => (
+                        <span
+                          key={segment.start}
+                          style={{
+                            fontWeight: segment.bold ? 'bold' : undefined,
+                            fontStyle: segment.italic ? 'italic' : undefined,
+                            ...(segment.link ? { color: '#4096ff', textDecoration: 'underline' } : {})
+                          }}
+                        >
+                          {segment.text}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                  <TextArea
+                    ref={(el) => {
+                      if (el) {
+                        textRefs.current.set(index, el);
+                      } else {
+                        textRefs.current.delete(index);
+                      }
+                    }}
+                    value={line}
+                    onChange={(e) => handleLineChange(index, e.target.value)}
+                    onKeyDown={(e) => handleKeyDown(index, e)}
+                    onFocus={() => { activeLineRef.current = index; }}
+                    onScroll={(e) => {
+                      const backdrop = backdropRefs.current.get(index);
+                      if (backdrop) backdrop.scrollTop = e.currentTarget.scrollTop;
+                    }}
+                    onMouseDown={(e) => {
+                      // If Ctrl or Shift is pressed, prevent focus and let parent handle selection
+                      if (e.ctrlKey || e.metaKey || e.shiftKey) {
+                        e.preventDefault();
+                      }
+                    }}
+                    onInput={(e) => {
+                      // Handle undo/redo operations
+                      const target = e.target as HTMLTextAreaElement;
+                      handleLineChange(index, target.value);
+                    }}
+                    placeholder={block.heading ? 'Tiêu đề mục' : index === 0 ? "Bắt đầu nhập..." : ""}
+                    autoSize={{ minRows: 1, maxRows: 10 }}
+                    style={{
+                      position: 'relative',
+                      width: '100%',
+                      fontFamily: 'monospace',
+                      fontSize: '14px',
+                      lineHeight: '1.6',
+                      border: 'none',
+                      backgroundColor: isSelected && spans.length === 0 ? 'rgba(30, 30, 30, 0.9)' : 'transparent',
+                      // Formatted lines show the backdrop's text through a transparent one, caret kept
+                      ...(spans.length > 0 ? { color: 'transparent', caretColor: 'rgba(255, 255, 255, 0.85)' } : {}),
+                      ...headingStyle,
+                      resize: 'none',
+                      padding: '8px'
+                    }}
+                  />
+                </div>
+                {section && (section.startMs !== undefined || (isCollapsed && childCount > 0)) && (
+                  <span
+                    title="Thời gian của mục, theo mốc thời gian các dòng trong mục"
+                    style={{
+                      padding: '8px 12px 8px 8px',
+                      fontFamily: 'monospace',
+                      fontSize: '12px',
+                      lineHeight: '1.6',
+                      color: '#888',
+                      whiteSpace: 'nowrap',
+                      flexShrink: 0
+                    }}
+                  >
+                    {formatSectionRange(section)}
+                    {isCollapsed && childCount > 0 && `${section.startMs !== undefined ? ' · ' : ''}${childCount} dòng`}
+                  </span>
+                )}
+              </div>
             </div>
           );
         })}
       </div>
+
+      <Modal
+        title="Liên kết"
+        open={linkEditor !== null}
+        onCancel={() => setLinkEditor(null)}
+        onOk={() => linkEditor && handleSaveLink(linkEditor.url)}
+        okText="Lưu"
+        cancelText="Hủy"
+        destroyOnClose
+      >
+        <Space direction="vertical" style={{ width: '100%' }}>
+          <Input
+            autoFocus
+            placeholder="https://..."
+            value={linkEditor?.url || ''}
+            onChange={(e) => linkEditor && setLinkEditor({ ...linkEditor, url: e.target.value })}
+            onPressEnter={() => linkEditor && handleSaveLink(linkEditor.url)}
+          />
+          <Space>
+            <Button
+              size="small"
+              disabled={!linkEditor?.url}
+              onClick={() => linkEditor && window.open(linkEditor.url, '_blank', 'noopener')}
+            >
+              Mở liên kết
+            </Button>
+            <Button size="small" danger onClick={() => handleSaveLink('')}>
+              Bỏ liên kết
+            </Button>
+          </Space>
+        </Space>
+      </Modal>
     </div>
   );
 };
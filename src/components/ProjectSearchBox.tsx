@@ -0,0 +1,111 @@
+import React, { useMemo, useState } from 'react';
+import { AutoComplete, Input, Tag } from 'antd';
+import { SearchOutlined } from '@ant-design/icons';
+import type { NoteBlock, TranscriptionResult } from '../types/types';
+import { ProjectSearch, type SearchHit } from '../services/projectSearch';
+
+interface Props {
+  noteBlocks: NoteBlock[];
+  recordingStartTime: number;
+  transcriptions: TranscriptionResult[];
+}
+
+const CONTEXT_CHARS = 30;
+
+// Hit text with the match highlighted and some context around it (also used by the meeting library)
+export const HitSnippet: React.FC<{ hit: SearchHit }> = ({ hit: { entry, match } }) => {
+  const text = entry.text;
+  if (!match) {
+    return <>{text.slice(0, CONTEXT_CHARS * 3) + (text.length > CONTEXT_CHARS * 3 ? '…' : '')}</>;
+  }
+  return (
+    <>
+      {match.index > CONTEXT_CHARS && '…'}
+      {text.slice(Math.max(0, match.index - CONTEXT_CHARS), match.index)}
+      <mark style={{ backgroundColor: '#d48806', color: '#fff', padding: 0 }}>
+        {text.slice(match.index, match.index + match.length)}
+      </mark>
+      {text.slice(match.index + match.length, match.index + match.length + CONTEXT_CHARS * 2)}
+      {match.index + match.length + CONTEXT_CHARS * 2 < text.length && '…'}
+    </>
+  );
+};
+
+const formatTime = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+};
+
+export const ProjectSearchBox: React.FC<Props> = ({
+  noteBlocks,
+  recordingStartTime,
+  transcriptions
+}) => {
+  const [query, setQuery] = useState<string>('');
+
+  // Rebuilt only when the project changes, not on every keystroke in the box
+  const index = useMemo(
+    () => ProjectSearch.buildIndex(noteBlocks, recordingStartTime, transcriptions),
+    [noteBlocks, recordingStartTime, transcriptions]
+  );
+  const hits = useMemo(() => ProjectSearch.search(index, query), [index, query]);
+
+  // Scroll the note line or transcript segment into view and move the player there
+  const handleSelect = (key: string) => {
+    const hit = hits.find(candidate => candidate.entry.key === key);
+    if (!hit) return;
+    const { entry } = hit;
+
+    if (entry.source === 'note') {
+      window.dispatchEvent(new CustomEvent('reveal-note-line', { detail: { lineIndex: entry.lineIndex } }));
+    } else {
+      window.dispatchEvent(new CustomEvent('reveal-transcription', { detail: { id: entry.transcriptionId } }));
+    }
+    if (entry.timeMs !== undefined) {
+      window.dispatchEvent(new CustomEvent('seek-audio', { detail: { time: entry.timeMs / 1000 } }));
+    }
+  };
+
+  const renderHit = (hit: SearchHit) => {
+    const { entry } = hit;
+    return (
+      <div style={{ whiteSpace: 'normal' }}>
+        <div style={{ display: 'flex', gap: '6px', alignItems: 'center', fontSize: '12px' }}>
+          <Tag color={entry.source === 'note' ? 'blue' : 'purple'} style={{ marginRight: 0 }}>
+            {entry.source === 'note' ? 'Ghi chú' : 'Transcript'}
+          </Tag>
+          <span style={{ fontFamily: 'monospace', color: '#1890ff' }}>
+            {entry.timeMs !== undefined ? formatTime(entry.timeMs) : '--:--:--'}
+          </span>
+          {entry.speaker && <span style={{ color: '#8c8c8c' }}>{entry.speaker}</span>}
+        </div>
+        <div style={{ fontSize: '13px' }}><HitSnippet hit={hit} /></div>
+      </div>
+    );
+  };
+
+  return (
+    <AutoComplete
+      style={{ width: 320 }}
+      popupMatchSelectWidth={480}
+      value={query}
+      onChange={setQuery}
+      onSelect={(key: string) => {
+        handleSelect(key);
+        setQuery(query); // Keep the typed query rather than the option key, to pick another hit
+      }}
+      options={hits.map(hit => ({ value: hit.entry.key, label: renderHit(hit) }))}
+      notFoundContent={query.trim() ? 'Không tìm thấy kết quả' : null}
+    >
+      <Input
+        size="small"
+        allowClear
+        prefix={<SearchOutlined />}
+        placeholder="Tìm trong ghi chú và transcript..."
+      />
+    </AutoComplete>
+  );
+};
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { Button, Space, Switch, Tooltip, App } from 'antd';
+import { Button, Space, Switch, Tooltip, Select, App } from 'antd';
 import {
   FolderOpenOutlined,
   AudioOutlined,
@@ -7,15 +7,26 @@ import {
   SaveOutlined,
   FolderAddOutlined,
   SettingOutlined,
-  SoundOutlined
+  SoundOutlined,
+  BookOutlined,
+  SnippetsOutlined
 } from '@ant-design/icons';
 import { AudioRecorderService } from '../services/audioRecorder';
-import { FileManagerService, FileDownloadService } from '../services/fileManager';
+import { FileManagerService, FileDownloadService, type LoadedProject } from '../services/fileManager';
 import { MetadataBuilder } from '../services/metadataBuilder';
 import { WordExporter } from '../services/wordExporter';
 import { speechToTextService } from '../services/speechToText';
 import { AudioMerger, AudioSegment } from '../services/audioMerger';
-import type { MeetingInfo, SpeechToTextConfig, TranscriptionResult } from '../types/types';
+import { SpeakerRegistry } from '../services/speakerRegistry';
+import { PhraseHints } from '../services/phraseHints';
+import { Languages } from '../services/languages';
+import { NoteTags } from '../services/noteTags';
+import { NoteDocument } from '../services/noteDocument';
+import { Agenda } from '../services/agenda';
+import { NoteTemplates } from '../services/noteTemplates';
+import { MeetingLibraryModal } from './MeetingLibraryModal';
+import { NoteTemplatesModal } from './NoteTemplatesModal';
+import type { MeetingInfo, NoteBlock, NoteTemplate, SpeechToTextConfig, TranscriptionResult, TranscriptVersion } from '../types/types';
 
 interface Props {
   folderPath: string;
@@ -26,16 +37,12 @@ interface Props {
   onSaveComplete: () => void;
   onLoadProject: (loadedData: {
     meetingInfo: MeetingInfo;
-    notes: string;
-    timestampMap: Map<number, number>;
-    speakersMap: Map<number, string>;
+    noteBlocks: NoteBlock[];
     audioBlob: Blob | null;
     recordingStartTime: number;
   }) => void;
   meetingInfo: MeetingInfo;
-  notes: string;
-  timestampMap: Map<number, number>;
-  speakersMap: Map<number, string>;
+  noteBlocks: NoteBlock[];
   recordingStartTime: number;
   onRecordingStartTimeChange: (time: number) => void;
   audioBlob: Blob | null;
@@ -47,7 +54,16 @@ interface Props {
   shouldBlink?: boolean;
   onNewTranscription: (result: TranscriptionResult) => void;
   onClearTranscriptions: () => void;
+  transcriptVersions: TranscriptVersion[];
+  transcriptSource: TranscriptVersion['source'];
+  // Saved segments and versions of a loaded project, shown as stored
+  onLoadTranscripts: (
+    transcriptions: TranscriptionResult[],
+    versions: TranscriptVersion[],
+    source: TranscriptVersion['source']
+  ) => void;
   transcriptions: TranscriptionResult[];
+  onApplyTemplate: (template: NoteTemplate) => void; // Fill meeting info, agenda, notes and speakers from a template
 }
 
 export const RecordingControls: React.FC<Props> = ({
@@ -59,9 +75,7 @@ export const RecordingControls: React.FC<Props> = ({
   onSaveComplete,
   onLoadProject,
   meetingInfo,
-  notes,
-  timestampMap,
-  speakersMap,
+  noteBlocks,
   recordingStartTime,
   onRecordingStartTimeChange,
   audioBlob,
@@ -71,7 +85,11 @@ export const RecordingControls: React.FC<Props> = ({
   transcriptionConfig,
   onNewTranscription,
   onClearTranscriptions,
-  transcriptions
+  transcriptions,
+  transcriptVersions,
+  transcriptSource,
+  onLoadTranscripts,
+  onApplyTemplate
 }) => {
   const { message } = App.useApp();
   const [duration, setDuration] = useState<number>(0);
@@ -80,7 +98,26 @@ export const RecordingControls: React.FC<Props> = ({
   const [lastProjectName, setLastProjectName] = useState<string>('');
   const [lastRecordingDuration, setLastRecordingDuration] = useState<number>(0);
   const [autoTranscribe, setAutoTranscribe] = useState<boolean>(true);
+  const [showLibrary, setShowLibrary] = useState<boolean>(false);
   const [audioStream, setAudioStream] = useState<MediaStream | null>(null);
+  const [templates, setTemplates] = useState<NoteTemplate[]>(() => NoteTemplates.load());
+  const [showTemplates, setShowTemplates] = useState<boolean>(false);
+
+  // Contents of <project>_transcription.json: the transcript in use plus stored passes
+  const hasTranscriptionData = () => transcriptions.some(t => t.isFinal) || transcriptVersions.length > 0;
+  const buildTranscriptionData = () => ({
+    transcriptions: transcriptions.filter(t => t.isFinal), // Only save final results
+    totalCount: transcriptions.filter(t => t.isFinal).length,
+    source: transcriptSource,
+    versions: transcriptVersions,
+    savedAt: new Date().toISOString()
+  });
+
+  // Configured language first, then any other language detected in the transcript
+  const getMeetingLanguages = () => Languages.collect(transcriptionConfig?.languageCode, transcriptions || []);
+
+  // Tagged notes lines for the Word report's follow-up sections
+  const getFollowUps = () => NoteTags.collect(noteBlocks, recordingStartTime);
   
   // Recording segments tracking for multi-part recording
   const [recordingSegments, setRecordingSegments] = useState<Array<{
@@ -106,7 +143,9 @@ export const RecordingControls: React.FC<Props> = ({
       if (isRecording && autoTranscribe && transcriptionConfig && navigator.onLine && audioStream) {
         try {
           // Use the shared audio stream from recorder
-          await speechToTextService.startTranscription(audioStream, onNewTranscription);
+          await speechToTextService.startTranscription(audioStream, onNewTranscription, (error) => {
+            message.error('Chuyển đổi giọng nói đã dừng: ' + error.message);
+          });
           message.success('🎤 Bắt đầu chuyển đổi giọng nói sang văn bản');
         } catch (error: any) {
           console.error('Failed to start transcription:', error);
@@ -304,12 +343,11 @@ export const RecordingControls: React.FC<Props> = ({
         // Build and save metadata
         const metadata = MetadataBuilder.buildMetadata(
           meetingInfo,
-          notes,
-          timestampMap,
-          speakersMap,
+          noteBlocks,
           finalDuration,
           audioFileName,
-          totalRecordingStartTime
+          totalRecordingStartTime,
+          getMeetingLanguages()
         );
 
         await fileManager.saveMetadataFile(
@@ -329,12 +367,8 @@ export const RecordingControls: React.FC<Props> = ({
         // console.log('✓ Saved metadata.json');
 
         // Save transcription data if available
-        if (transcriptions && transcriptions.length > 0) {
-          const transcriptionData = {
-            transcriptions: transcriptions.filter(t => t.isFinal), // Only save final results
-            totalCount: transcriptions.filter(t => t.isFinal).length,
-            savedAt: new Date().toISOString()
-          };
+        if (hasTranscriptionData()) {
+          const transcriptionData = buildTranscriptionData();
           await fileManager.saveMetadataFile(
             transcriptionData,
             `${projectName}_transcription.json`,
@@ -346,7 +380,7 @@ export const RecordingControls: React.FC<Props> = ({
 
         // Export Word document to same folder
         const finalTranscriptions = transcriptions?.filter(t => t.isFinal) || [];
-        const wordBlob = await WordExporter.createWordBlob(meetingInfo, notes, finalTranscriptions);
+        const wordBlob = await WordExporter.createWordBlob(meetingInfo, noteBlocks, finalTranscriptions, getFollowUps());
         await fileManager.saveWordFile(wordBlob, `${projectName}.docx`, undefined, true);
         // console.log('✓ Saved Word document');
         
@@ -366,12 +400,11 @@ export const RecordingControls: React.FC<Props> = ({
 
         const metadata = MetadataBuilder.buildMetadata(
           meetingInfo,
-          notes,
-          timestampMap,
-          speakersMap,
+          noteBlocks,
           finalDuration,
           audioFileName,
-          totalRecordingStartTime
+          totalRecordingStartTime,
+          getMeetingLanguages()
         );
 
         await downloader.downloadMetadataFile(
@@ -384,12 +417,8 @@ export const RecordingControls: React.FC<Props> = ({
         );
 
         // Save transcription data if available
-        if (transcriptions && transcriptions.length > 0) {
-          const transcriptionData = {
-            transcriptions: transcriptions.filter(t => t.isFinal),
-            totalCount: transcriptions.filter(t => t.isFinal).length,
-            savedAt: new Date().toISOString()
-          };
+        if (hasTranscriptionData()) {
+          const transcriptionData = buildTranscriptionData();
           await downloader.downloadMetadataFile(
             transcriptionData,
             `${projectName}_transcription.json`
@@ -401,9 +430,10 @@ export const RecordingControls: React.FC<Props> = ({
         const finalTranscriptions = transcriptions?.filter(t => t.isFinal) || [];
         await WordExporter.exportToWord(
           meetingInfo,
-          notes,
+          noteBlocks,
           `${projectName}.docx`,
-          finalTranscriptions
+          finalTranscriptions,
+          getFollowUps()
         );
 
         message.info('Files downloaded. Please save them to your meeting notes folder.');
@@ -447,9 +477,10 @@ export const RecordingControls: React.FC<Props> = ({
         const finalTranscriptions = transcriptions?.filter(t => t.isFinal) || [];
         await WordExporter.exportToWord(
           meetingInfo,
-          notes,
+          noteBlocks,
           `${projectName}.docx`,
-          finalTranscriptions
+          finalTranscriptions,
+          getFollowUps()
         );
         
         message.info('Tệp đã được tải xuống. Vui lòng lưu vào thư mục ghi chú cuộc họp của bạn.');
@@ -497,6 +528,8 @@ export const RecordingControls: React.FC<Props> = ({
         Location: meetingInfo.location,
         Host: meetingInfo.host,
         Attendees: meetingInfo.attendees,
+        Speakers: SpeakerRegistry.toJson(meetingInfo.speakers),
+        PhraseHints: PhraseHints.toJson(meetingInfo.phraseHints),
       };
       
       await fileManager.saveMetadataFile(
@@ -510,12 +543,11 @@ export const RecordingControls: React.FC<Props> = ({
       // Create metadata using MetadataBuilder (same as recording mode)
       const metadata = MetadataBuilder.buildMetadata(
         meetingInfo,
-        notes,
-        timestampMap,
-        speakersMap,
+        noteBlocks,
         0, // No audio duration for notes-only
         '', // No audio file
-        recordingStartTime || Date.now() // Use recording start time if available, otherwise current time
+        recordingStartTime || Date.now(), // Use recording start time if available, otherwise current time
+        getMeetingLanguages()
       );
       
       // Override fields for notes-only mode
@@ -534,7 +566,7 @@ export const RecordingControls: React.FC<Props> = ({
       
       // Export Word document
       const finalTranscriptions = transcriptions?.filter(t => t.isFinal) || [];
-      const wordBlob = await WordExporter.createWordBlob(meetingInfo, notes, finalTranscriptions);
+      const wordBlob = await WordExporter.createWordBlob(meetingInfo, noteBlocks, finalTranscriptions, getFollowUps());
       await fileManager.saveWordFile(wordBlob, `${projectName}.docx`, undefined, true);
       // console.log('✓ Saved Word document');
       
@@ -585,12 +617,11 @@ export const RecordingControls: React.FC<Props> = ({
         // Notes-only project - use MetadataBuilder to properly handle timestamps and speakers
         metadata = MetadataBuilder.buildMetadata(
           meetingInfo,
-          notes,
-          timestampMap,
-          speakersMap,
+          noteBlocks,
           0, // No audio duration for notes-only
           '', // No audio file
-          recordingStartTime || Date.now()
+          recordingStartTime || Date.now(),
+          getMeetingLanguages()
         );
         
         // Override fields for notes-only mode
@@ -603,12 +634,11 @@ export const RecordingControls: React.FC<Props> = ({
         const audioFileName = `${newProjectName}.webm`;
         metadata = MetadataBuilder.buildMetadata(
           meetingInfo,
-          notes,
-          timestampMap,
-          speakersMap,
+          noteBlocks,
           lastRecordingDuration,
           audioFileName,
-          recordingStartTime
+          recordingStartTime,
+          getMeetingLanguages()
         );
       }
 
@@ -678,12 +708,8 @@ export const RecordingControls: React.FC<Props> = ({
           // console.log('✓ Saved metadata.json');
 
           // Save transcription data if available
-          if (transcriptions && transcriptions.length > 0) {
-            const transcriptionData = {
-              transcriptions: transcriptions.filter(t => t.isFinal), // Only save final results
-              totalCount: transcriptions.filter(t => t.isFinal).length,
-              savedAt: new Date().toISOString()
-            };
+          if (hasTranscriptionData()) {
+            const transcriptionData = buildTranscriptionData();
             await fileManager.saveMetadataFile(
               transcriptionData,
               `${newProjectName}_transcription.json`,
@@ -694,7 +720,7 @@ export const RecordingControls: React.FC<Props> = ({
           }
 
           // Export Word document
-          const wordBlob = await WordExporter.createWordBlob(meetingInfo, notes);
+          const wordBlob = await WordExporter.createWordBlob(meetingInfo, noteBlocks, undefined, getFollowUps());
           await fileManager.saveWordFile(wordBlob, `${newProjectName}.docx`, undefined, true);
           // console.log('✓ Saved Word document');
           
@@ -729,12 +755,8 @@ export const RecordingControls: React.FC<Props> = ({
         );
 
         // Save transcription data if available
-        if (transcriptions && transcriptions.length > 0) {
-          const transcriptionData = {
-            transcriptions: transcriptions.filter(t => t.isFinal),
-            totalCount: transcriptions.filter(t => t.isFinal).length,
-            savedAt: new Date().toISOString()
-          };
+        if (hasTranscriptionData()) {
+          const transcriptionData = buildTranscriptionData();
           await downloader.downloadMetadataFile(
             transcriptionData,
             `${newProjectName}_transcription.json`
@@ -746,9 +768,10 @@ export const RecordingControls: React.FC<Props> = ({
         const finalTranscriptions = transcriptions?.filter(t => t.isFinal) || [];
         await WordExporter.exportToWord(
           meetingInfo,
-          notes,
+          noteBlocks,
           `${newProjectName}.docx`,
-          finalTranscriptions
+          finalTranscriptions,
+          getFollowUps()
         );
 
         message.info('Updated files downloaded as new version.');
@@ -767,6 +790,32 @@ export const RecordingControls: React.FC<Props> = ({
     }
   };
 
+  const handleTemplatesChange = (newTemplates: NoteTemplate[]) => {
+    setTemplates(newTemplates);
+    NoteTemplates.save(newTemplates);
+  };
+
+  // Templates start a new meeting: before the first recording segment, with no audio loaded
+  const canApplyTemplate = !isRecording && recordingSegments.length === 0 && !audioBlob;
+
+  const handleApplyTemplate = (template: NoteTemplate) => {
+    if (NoteDocument.hasContent(noteBlocks) && !window.confirm(
+      `Dùng mẫu "${template.name}" sẽ thay thế ghi chú hiện tại. Tiếp tục?`
+    )) {
+      return;
+    }
+    onApplyTemplate(template);
+    message.success(`Đã áp dụng mẫu "${template.name}"`);
+  };
+
+  // Unsaved work is lost when another project is loaded
+  const confirmDiscardChanges = (): boolean => {
+    if (!hasUnsavedChanges) return true;
+    return window.confirm(
+      'Bạn có dữ liệu chưa lưu. Tải project mới sẽ mất dữ liệu hiện tại. Tiếp tục?'
+    );
+  };
+
   const handleLoadProject = async () => {
     // console.log('handleLoadProject called');
     
@@ -778,14 +827,9 @@ export const RecordingControls: React.FC<Props> = ({
       }
 
       // console.log('Checking unsaved changes...');
-      if (hasUnsavedChanges) {
-        const confirmed = window.confirm(
-          'Bạn có dữ liệu chưa lưu. Tải project mới sẽ mất dữ liệu hiện tại. Tiếp tục?'
-        );
-        if (!confirmed) {
-          // console.log('User cancelled due to unsaved changes');
-          return;
-        }
+      if (!confirmDiscardChanges()) {
+        // console.log('User cancelled due to unsaved changes');
+        return;
       }
 
       // console.log('Calling fileManager.loadProjectFromFolder...');
@@ -798,201 +842,127 @@ export const RecordingControls: React.FC<Props> = ({
         return; // User cancelled
       }
 
-      // Map PascalCase from saved files to camelCase for MeetingInfo
-      const loadedMeetingInfo = {
-        title: projectData.meetingInfo.MeetingTitle || '',
-        date: projectData.meetingInfo.MeetingDate || '',
-        time: projectData.meetingInfo.MeetingTime || '',
-        location: projectData.meetingInfo.Location || '',
-        host: projectData.meetingInfo.Host || '',
-        attendees: projectData.meetingInfo.Attendees || ''
-      };
-
-      // console.log('📋 Mapping meetingInfo from file:', {
-      //   rawData: projectData.meetingInfo,
-      //   mapped: loadedMeetingInfo
-      // });
-      
-      // console.log('🔍 Individual field mapping:', {
-      //   'MeetingTitle → title': `"${projectData.meetingInfo.MeetingTitle}" → "${loadedMeetingInfo.title}"`,
-      //   'MeetingDate → date': `"${projectData.meetingInfo.MeetingDate}" → "${loadedMeetingInfo.date}"`,
-      //   'MeetingTime → time': `"${projectData.meetingInfo.MeetingTime}" → "${loadedMeetingInfo.time}"`,
-      //   'Location → location': `"${projectData.meetingInfo.Location}" → "${loadedMeetingInfo.location}"`,
-      //   'Host → host': `"${projectData.meetingInfo.Host}" → "${loadedMeetingInfo.host}"`,
-      //   'Attendees → attendees': `"${projectData.meetingInfo.Attendees}" → "${loadedMeetingInfo.attendees}"`
-      // });
+      applyLoadedProject(projectData);
+    } catch (error: any) {
+      console.error('Load project error:', error);
+      message.error(`Failed to load project: ${error.message}`);
+    }
+  };
 
-      // Parse metadata to reconstruct timestampMap, speakersMap and notes
-      const timestampMapData = new Map<number, number>();
-      const speakersMapData = new Map<number, string>();
-      let notesText = '';
-      
-      // Get recording start time - prefer from metadata, fallback to calculation
-      let recordingStart = Date.now();
-      
-      if (projectData.metadata.RecordingStartTime) {
-        // Use saved RecordingStartTime from metadata (chuẩn nhất)
-        recordingStart = new Date(projectData.metadata.RecordingStartTime).getTime();
-        
-        // console.log('🕐 Using RecordingStartTime from metadata:', {
-        //   raw: projectData.metadata.RecordingStartTime,
-        //   parsed: new Date(recordingStart).toISOString(),
-        //   timestamp: recordingStart
-        // });
-      } else if (projectData.metadata.Timestamps && projectData.metadata.Timestamps.length > 0) {
-        // Fallback: Calculate from first timestamp (old projects without RecordingStartTime)
-        const firstTimestamp = projectData.metadata.Timestamps[0];
-        const firstDatetime = new Date(firstTimestamp.DateTime).getTime();
-        // Parse StartTime to get offset (format: HH:MM:SS.NNNNNNN with 7 decimal digits)
-        const startTimeMatch = firstTimestamp.StartTime.match(/(\d+):(\d+):(\d+)\.(\d+)/);
-        if (startTimeMatch) {
-          const fractionalPart = startTimeMatch[4];
-          // Convert to milliseconds: if 7 digits (e.g., 9900000), divide by 10000
-          const ms = fractionalPart.length === 7 ? parseInt(fractionalPart) / 10000 : parseInt(fractionalPart);
-          const offsetMs = parseInt(startTimeMatch[1]) * 3600000 + 
-                          parseInt(startTimeMatch[2]) * 60000 + 
-                          parseInt(startTimeMatch[3]) * 1000 + 
-                          ms;
-          recordingStart = firstDatetime - offsetMs;
-          
-          // console.log('🕐 Calculated RecordingStartTime from first block:', {
-          //   raw: firstTimestamp.StartTime,
-          //   fractionalPart,
-          //   parsedMs: ms,
-          //   totalOffsetMs: offsetMs,
-          //   firstDatetime: new Date(firstDatetime).toISOString(),
-          //   calculatedRecordingStart: new Date(recordingStart).toISOString()
-          // });
-        }
-      }
-      
-      if (projectData.metadata.Timestamps && Array.isArray(projectData.metadata.Timestamps)) {
-        // Reconstruct notes from Timestamps array
-        const BLOCK_SEPARATOR = '§§§';
-        const sortedTimestamps = projectData.metadata.Timestamps.sort((a: any, b: any) => a.Index - b.Index);
-        
-        sortedTimestamps.forEach((ts: any, index: number) => {
-          // Add BLOCK_SEPARATOR before text (except for first line)
-          if (index > 0) {
-            notesText += BLOCK_SEPARATOR;
-          }
-          
-          // Calculate position at start of this block (after separator if not first)
-          const position = notesText.length;
-          
-          // Parse StartTime (relative time) from metadata and convert to absolute datetime
-          // StartTime format: HH:MM:SS.NNNNNNN (7 decimal digits)
-          let startTimeMs = 0;
-          const startTimeMatch = ts.StartTime.match(/(\d+):(\d+):(\d+)\.(\d+)/);
-          if (startTimeMatch) {
-            const hours = parseInt(startTimeMatch[1]);
-            const minutes = parseInt(startTimeMatch[2]);
-            const seconds = parseInt(startTimeMatch[3]);
-            const fractionalPart = startTimeMatch[4];
-            // Convert to milliseconds: if 7 digits, divide by 10000
-            const ms = fractionalPart.length === 7 ? parseInt(fractionalPart) / 10000 : parseInt(fractionalPart);
-            startTimeMs = hours * 3600000 + minutes * 60000 + seconds * 1000 + ms;
-          }
-          
-          // Convert relative time to absolute datetime using RecordingStartTime
-          const datetime = recordingStart + startTimeMs;
-          timestampMapData.set(position, datetime);
-          
-          // Store speaker name using lineIndex (which equals index in sorted array)
-          // Each timestamp entry corresponds to one line in the reconstructed notes
-          if (ts.Speaker) {
-            speakersMapData.set(index, ts.Speaker);
-            // console.log(`📢 Loading speaker for line ${index}:`, ts.Speaker);
-          }
-          
-          // Add text to notes
-          notesText += ts.Text || '';
-        });
-        
-        // console.log('🕐 Timestamp reconstruction:', {
-        //   recordingStart,
-        //   firstTimestamp: sortedTimestamps[0]?.DateTime,
-        //   firstStartTime: sortedTimestamps[0]?.StartTime,
-        //   timestampCount: timestampMapData.size,
-        //   speakerCount: speakersMapData.size,
-        //   speakers: Array.from(speakersMapData.entries()),
-        //   sampleTimestamps: Array.from(timestampMapData.entries()).slice(0, 3).map(([pos, time]) => ({
-        //     position: pos,
-        //     datetime: new Date(time).toISOString(),
-        //     relativeMs: time - recordingStart,
-        //     relativeFormatted: `${String(Math.floor((time - recordingStart) / 3600000)).padStart(2, '0')}:${String(Math.floor(((time - recordingStart) % 3600000) / 60000)).padStart(2, '0')}:${String(Math.floor(((time - recordingStart) % 60000) / 1000)).padStart(2, '0')}`
-        //   }))
-        // });
-      }
+  // Open a project picked in the library; resolves false if it wasn't loaded
+  const handleOpenLibraryProject = async (
+    projectHandle: FileSystemDirectoryHandle,
+    rootHandle: FileSystemDirectoryHandle
+  ): Promise<boolean> => {
+    if (!confirmDiscardChanges()) return false;
 
-      // Parse duration string to milliseconds (format: HH:MM:SS.NNNNNNN with 7 decimal digits)
-      let durationMs = 0;
-      if (projectData.metadata.Duration) {
-        const durationStr = projectData.metadata.Duration;
-        const match = durationStr.match(/(\d+):(\d+):(\d+)\.(\d+)/);
-        if (match) {
-          const hours = parseInt(match[1]);
-          const minutes = parseInt(match[2]);
-          const seconds = parseInt(match[3]);
-          const fractionalPart = match[4];
-          // Convert to milliseconds: if 7 digits, divide by 10000
-          const ms = fractionalPart.length === 7 ? parseInt(fractionalPart) / 10000 : parseInt(fractionalPart);
-          durationMs = hours * 3600000 + minutes * 60000 + seconds * 1000 + ms;
-        }
-      }
+    try {
+      applyLoadedProject(await fileManager.loadProject(projectHandle, rootHandle));
+      return true;
+    } catch (error: any) {
+      console.error('Load project error:', error);
+      message.error(`Failed to load project: ${error.message}`);
+      return false;
+    }
+  };
 
-      // Call parent handler to update all state (recordingStart already calculated above)
-      onLoadProject({
-        meetingInfo: loadedMeetingInfo,
-        notes: notesText,
-        timestampMap: timestampMapData,
-        speakersMap: speakersMapData,
-        audioBlob: projectData.audioBlob,
-        recordingStartTime: recordingStart
-      });
+  // Map the files of a loaded project folder to app state
+  const applyLoadedProject = (projectData: LoadedProject) => {
+    // Map PascalCase from saved files to camelCase for MeetingInfo
+    const loadedMeetingInfo = {
+      title: projectData.meetingInfo.MeetingTitle || '',
+      date: projectData.meetingInfo.MeetingDate || '',
+      time: projectData.meetingInfo.MeetingTime || '',
+      location: projectData.meetingInfo.Location || '',
+      host: projectData.meetingInfo.Host || '',
+      attendees: projectData.meetingInfo.Attendees || '',
+      speakers: SpeakerRegistry.fromJson(projectData.meetingInfo.Speakers),
+      phraseHints: PhraseHints.fromJson(projectData.meetingInfo.PhraseHints),
+      agenda: Agenda.fromJson(projectData.metadata.Agenda)
+    };
 
-      // Load transcription data if available
-      if (projectData.transcriptionData) {
-        // console.log('📝 Loading transcription data:', projectData.transcriptionData);
-        onClearTranscriptions(); // Clear existing first
-        
-        // Load each transcription result
-        if (projectData.transcriptionData.transcriptions && Array.isArray(projectData.transcriptionData.transcriptions)) {
-          projectData.transcriptionData.transcriptions.forEach((t: TranscriptionResult) => {
-            onNewTranscription(t);
-          });
-          message.success(`Loaded ${projectData.transcriptionData.transcriptions.length} transcription results`);
-        }
-      }
+    // console.log('📋 Mapping meetingInfo from file:', {
+    //   rawData: projectData.meetingInfo,
+    //   mapped: loadedMeetingInfo
+    // });
+    
+    // console.log('🔍 Individual field mapping:', {
+    //   'MeetingTitle → title': `"${projectData.meetingInfo.MeetingTitle}" → "${loadedMeetingInfo.title}"`,
+    //   'MeetingDate → date': `"${projectData.meetingInfo.MeetingDate}" → "${loadedMeetingInfo.date}"`,
+    //   'MeetingTime → time': `"${projectData.meetingInfo.MeetingTime}" → "${loadedMeetingInfo.time}"`,
+    //   'Location → location': `"${projectData.meetingInfo.Location}" → "${loadedMeetingInfo.location}"`,
+    //   'Host → host': `"${projectData.meetingInfo.Host}" → "${loadedMeetingInfo.host}"`,
+    //   'Attendees → attendees': `"${projectData.meetingInfo.Attendees}" → "${loadedMeetingInfo.attendees}"`
+    // });
 
-      // console.log('Load complete:', {
-      //   meetingInfo: loadedMeetingInfo,
-      //   notesLength: notesText.length,
-      //   timestampCount: timestampMapData.size,
-      //   timestampMap: Array.from(timestampMapData.entries()),
-      //   recordingStart
+    
+    // Get recording start time - prefer from metadata, fallback to calculation
+    let recordingStart = Date.now();
+    
+    if (projectData.metadata.RecordingStartTime) {
+      // Use saved RecordingStartTime from metadata (chuẩn nhất)
+      recordingStart = new Date(projectData.metadata.RecordingStartTime).getTime();
+      
+      // console.log('🕐 Using RecordingStartTime from metadata:', {
+      //   raw: projectData.metadata.RecordingStartTime,
+      //   parsed: new Date(recordingStart).toISOString(),
+      //   timestamp: recordingStart
       // });
+    } else if (Array.isArray(projectData.metadata.Timestamps)) {
+      // Fallback: Calculate from first timed entry (old projects without RecordingStartTime)
+      const firstTimestamp = projectData.metadata.Timestamps.find((ts: any) => ts.DateTime);
+      if (firstTimestamp) {
+        const firstDatetime = new Date(firstTimestamp.DateTime).getTime();
+        recordingStart = firstDatetime - MetadataBuilder.parseDurationWithMs(firstTimestamp.StartTime);
+      }
+    }
+    
+    // Rebuild the note blocks from the Timestamps array (one entry per line)
+    const loadedBlocks = Array.isArray(projectData.metadata.Timestamps)
+      ? MetadataBuilder.readTimestamps(projectData.metadata.Timestamps, recordingStart)
+      : [];
+
+    const durationMs = MetadataBuilder.parseDurationWithMs(projectData.metadata.Duration);
+
+    // Call parent handler to update all state (recordingStart already calculated above)
+    onLoadProject({
+      meetingInfo: loadedMeetingInfo,
+      noteBlocks: loadedBlocks.length > 0 ? loadedBlocks : NoteDocument.empty(),
+      audioBlob: projectData.audioBlob,
+      recordingStartTime: recordingStart
+    });
+
+    // Load transcription data and stored passes (files saved before versions existed have none).
+    // A project without any still replaces the previous transcript.
+    const { transcriptions: saved, versions, source } = projectData.transcriptionData || {};
+    const loaded = Array.isArray(saved) ? saved.filter((t: TranscriptionResult) => t && t.text) : [];
+    onLoadTranscripts(loaded, Array.isArray(versions) ? versions : [], source === 'file' ? 'file' : 'live');
+    if (Array.isArray(saved)) {
+      message.success(`Loaded ${loaded.length} transcription results`);
+    }
 
-      // Update local state
-      setLastProjectName(projectData.projectName);
-      setLastRecordingDuration(durationMs);
+    // console.log('Load complete:', {
+    //   meetingInfo: loadedMeetingInfo,
+    //   blockCount: loadedBlocks.length,
+    //   recordingStart
+    // });
 
-      // Update folder path display to show where files will be saved
-      // Priority: Parent folder > Project folder
-      const parentHandle = fileManager.getParentDirHandle();
-      const projectHandle = fileManager.getProjectDirHandle();
-      
-      if (parentHandle) {
-        onFolderSelect(parentHandle.name + ' (parent of loaded project)');
-      } else if (projectHandle) {
-        onFolderSelect(projectHandle.name + ' (loaded project folder)');
-      }
+    // Update local state
+    setLastProjectName(projectData.projectName);
+    setLastRecordingDuration(durationMs);
 
-      message.success(`Project loaded: ${projectData.projectName}`);
-    } catch (error: any) {
-      console.error('Load project error:', error);
-      message.error(`Failed to load project: ${error.message}`);
+    // Update folder path display to show where files will be saved
+    // Priority: Parent folder > Project folder
+    const parentHandle = fileManager.getParentDirHandle();
+    const projectHandle = fileManager.getProjectDirHandle();
+    
+    if (parentHandle) {
+      onFolderSelect(parentHandle.name + ' (parent of loaded project)');
+    } else if (projectHandle) {
+      onFolderSelect(projectHandle.name + ' (loaded project folder)');
     }
+
+    message.success(`Project loaded: ${projectData.projectName}`);
   };
 
   const formatDuration = (ms: number): string => {
@@ -1032,8 +1002,38 @@ export const RecordingControls: React.FC<Props> = ({
             Tải dự án đã lưu
           </Button>
 
+          <Button
+            icon={<BookOutlined />}
+            onClick={() => setShowLibrary(true)}
+            disabled={isRecording || !FileManagerService.isSupported()}
+            size="large"
+          >
+            Thư viện
+          </Button>
+
           {!isRecording ? (
             <>
+              {/* Templates are picked before a new recording; saving the current meeting as one works any time */}
+              <Space.Compact>
+                {canApplyTemplate && (
+                  <Select<string>
+                    size="large"
+                    style={{ width: 220 }}
+                    placeholder="Mẫu cuộc họp"
+                    value={null}
+                    options={templates.map(template => ({ value: template.id, label: template.name }))}
+                    notFoundContent="Chưa có mẫu"
+                    onChange={(id) => {
+                      const template = templates.find(item => item.id === id);
+                      if (template) handleApplyTemplate(template);
+                    }}
+                  />
+                )}
+                <Tooltip title="Quản lý mẫu: lưu, nhập/xuất JSON">
+                  <Button size="large" icon={<SnippetsOutlined />} onClick={() => setShowTemplates(true)} />
+                </Tooltip>
+              </Space.Compact>
+
               <Button
                 type="primary"
                 danger
@@ -1154,6 +1154,27 @@ export const RecordingControls: React.FC<Props> = ({
           ⚠️ Your browser doesn't support direct folder access. Files will be downloaded.
         </div>
       )}
+
+      {/* All saved projects in the workspace folder */}
+      <MeetingLibraryModal
+        open={showLibrary}
+        onClose={() => setShowLibrary(false)}
+        fileManager={fileManager}
+        onRootSelected={onFolderSelect}
+        onOpenProject={handleOpenLibraryProject}
+      />
+
+      {/* Reusable setups for recurring meetings */}
+      <NoteTemplatesModal
+        open={showTemplates}
+        onClose={() => setShowTemplates(false)}
+        templates={templates}
+        onTemplatesChange={handleTemplatesChange}
+        meetingInfo={meetingInfo}
+        noteBlocks={noteBlocks}
+        canApply={canApplyTemplate}
+        onApply={handleApplyTemplate}
+      />
     </div>
   );
 };
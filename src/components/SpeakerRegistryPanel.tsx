@@ -0,0 +1,127 @@
+import React, { useEffect, useState } from 'react';
+import { Collapse, Tag, Input, AutoComplete, ColorPicker, Tooltip } from 'antd';
+import { TeamOutlined } from '@ant-design/icons';
+import type { SpeakerProfile, TranscriptionResult } from '../types/types';
+import { SpeakerRegistry } from '../services/speakerRegistry';
+
+interface Props {
+  speakers?: SpeakerProfile[];
+  transcriptions: TranscriptionResult[];
+  attendees: string; // Free-text attendee list from MeetingInfo, used as name suggestions
+  onSpeakerChange: (profile: SpeakerProfile) => void;
+}
+
+export const SpeakerRegistryPanel: React.FC<Props> = ({
+  speakers,
+  transcriptions,
+  attendees,
+  onSpeakerChange
+}) => {
+  // Names/roles being typed; committed on blur so renames don't run per keystroke
+  const [drafts, setDrafts] = useState<Record<string, { name: string; role: string }>>({});
+
+  const labels = SpeakerRegistry.collectLabels(speakers, transcriptions);
+  const profiles = labels.map((label, index) =>
+    SpeakerRegistry.find(speakers, label) || SpeakerRegistry.createProfile(label, index)
+  );
+
+  // Reset drafts when the registry changes from outside (e.g. loading a project)
+  useEffect(() => {
+    setDrafts({});
+  }, [speakers]);
+
+  const attendeeOptions = attendees
+    .split(/[,;\n]/)
+    .map(name => name.trim())
+    .filter(name => name.length > 0)
+    .map(name => ({ value: name }));
+
+  const getDraft = (profile: SpeakerProfile) =>
+    drafts[profile.label] || { name: profile.name, role: profile.role };
+
+  const updateDraft = (label: string, field: 'name' | 'role', value: string, profile: SpeakerProfile) => {
+    setDrafts(prev => ({
+      ...prev,
+      [label]: { ...(prev[label] || { name: profile.name, role: profile.role }), [field]: value }
+    }));
+  };
+
+  const commit = (profile: SpeakerProfile, changes: Partial<SpeakerProfile>) => {
+    const draft = getDraft(profile);
+    const updated: SpeakerProfile = { ...profile, name: draft.name.trim(), role: draft.role.trim(), ...changes };
+    if (updated.name === profile.name && updated.role === profile.role && updated.color === profile.color) {
+      return;
+    }
+    onSpeakerChange(updated);
+  };
+
+  const countSegments = (label: string) =>
+    transcriptions.filter(item => item.isFinal && SpeakerRegistry.labelOf(item) === label).length;
+
+  if (profiles.length === 0) {
+    return null;
+  }
+
+  return (
+    <Collapse
+      defaultActiveKey={[]}
+      items={[
+        {
+          key: '1',
+          label: (
+            <span>
+              <TeamOutlined /> Người nói <Tag color="blue" style={{ marginLeft: 8 }}>{profiles.length}</Tag>
+            </span>
+          ),
+          children: (
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+              <div style={{ fontSize: '12px', color: '#888' }}>
+                Đặt tên một lần cho mỗi người nói - tất cả đoạn chuyển đổi và ghi chú dùng tên cũ sẽ được cập nhật.
+              </div>
+              {profiles.map((profile) => {
+                const draft = getDraft(profile);
+                return (
+                  <div key={profile.label} style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                    <ColorPicker
+                      size="small"
+                      value={profile.color}
+                      disabledAlpha
+                      onChangeComplete={(color) => commit(profile, { color: color.toHexString() })}
+                    />
+                    <Tooltip title={`${countSegments(profile.label)} đoạn chuyển đổi`}>
+                      <Tag color={profile.color} style={{ minWidth: '80px', textAlign: 'center' }}>
+                        {profile.label}
+                      </Tag>
+                    </Tooltip>
+                    <AutoComplete
+                      size="small"
+                      style={{ flex: 2 }}
+                      options={attendeeOptions}
+                      value={draft.name}
+                      placeholder="Tên hiển thị"
+                      filterOption={(input, option) =>
+                        (option?.value as string).toLowerCase().includes(input.toLowerCase())
+                      }
+                      onChange={(value: string) => updateDraft(profile.label, 'name', value, profile)}
+                      onSelect={(value: string) => commit(profile, { name: value.trim() })}
+                      onBlur={() => commit(profile, {})}
+                    />
+                    <Input
+                      size="small"
+                      style={{ flex: 1 }}
+                      value={draft.role}
+                      placeholder="Vai trò (VD: Chủ trì)"
+                      onChange={(e) => updateDraft(profile.label, 'role', e.target.value, profile)}
+                      onBlur={() => commit(profile, {})}
+                      onPressEnter={() => commit(profile, {})}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+          )
+        }
+      ]}
+    />
+  );
+};
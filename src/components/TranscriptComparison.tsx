@@ -0,0 +1,168 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Select, Button, Space, Tag, Tooltip, Switch, Popconfirm, Empty } from 'antd';
+import { SwapOutlined, CheckOutlined } from '@ant-design/icons';
+import type { TranscriptionResult, TranscriptVersion } from '../types/types';
+import { TranscriptDiff, type DiffToken } from '../services/transcriptDiff';
+
+interface Props {
+  versions: TranscriptVersion[];
+  current: TranscriptionResult[]; // Final results of the transcript in use
+  onAcceptSegments: (removeIds: string[], insert: TranscriptionResult[]) => void;
+  onAcceptVersion: (version: TranscriptVersion) => void;
+  onSeekAudio?: (timeMs: number) => void;
+}
+
+const formatAudioTime = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) {
+    return `${hours}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+  }
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+};
+
+// One side of a row: words only on this side are highlighted, words only on the other side are hidden
+const renderTokens = (tokens: DiffToken[], side: 'left' | 'right') => {
+  const hiddenOp = side === 'left' ? 'added' : 'removed';
+  const markedOp = side === 'left' ? 'removed' : 'added';
+  return tokens
+    .filter(token => token.op !== hiddenOp)
+    .map((token, index) => (
+      <span
+        key={index}
+        style={token.op === markedOp
+          ? {
+              backgroundColor: side === 'left' ? '#ffccc7' : '#d9f7be',
+              textDecoration: side === 'left' ? 'line-through' : undefined,
+              borderRadius: '2px'
+            }
+          : undefined}
+      >
+        {token.text}{' '}
+      </span>
+    ));
+};
+
+export const TranscriptComparison: React.FC<Props> = ({
+  versions,
+  current,
+  onAcceptSegments,
+  onAcceptVersion,
+  onSeekAudio
+}) => {
+  const [versionId, setVersionId] = useState<string>(versions[versions.length - 1]?.id || '');
+  const [onlyChanges, setOnlyChanges] = useState<boolean>(true);
+
+  // Fall back to the newest version if the selected one disappears
+  useEffect(() => {
+    if (!versions.some(version => version.id === versionId)) {
+      setVersionId(versions[versions.length - 1]?.id || '');
+    }
+  }, [versions, versionId]);
+
+  const version = versions.find(item => item.id === versionId);
+
+  const rows = useMemo(() => {
+    if (!version) return [];
+    return TranscriptDiff.alignSegments(version.transcriptions, current).map((row) => {
+      const tokens = TranscriptDiff.diffWords(TranscriptDiff.joinText(row.left), TranscriptDiff.joinText(row.right));
+      return { ...row, tokens, changed: tokens.some(token => token.op !== 'same') };
+    });
+  }, [version, current]);
+
+  if (!version) {
+    return <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="Chưa có phiên bản nào để so sánh" />;
+  }
+
+  const changedCount = rows.filter(row => row.changed).length;
+  const visibleRows = onlyChanges ? rows.filter(row => row.changed) : rows;
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '12px', height: '100%' }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '8px', flexWrap: 'wrap' }}>
+        <Space wrap>
+          <Select
+            size="small"
+            style={{ minWidth: '220px' }}
+            value={versionId}
+            onChange={setVersionId}
+            options={versions.map(item => ({
+              value: item.id,
+              label: `${item.name} (${item.transcriptions.length} đoạn)`
+            }))}
+          />
+          <SwapOutlined />
+          <Tag color="green">Bản đang dùng ({current.length} đoạn)</Tag>
+          <Tag color={changedCount > 0 ? 'orange' : 'default'}>{changedCount} chỗ khác nhau</Tag>
+        </Space>
+        <Space wrap>
+          <span style={{ fontSize: '12px' }}>Chỉ hiện khác biệt</span>
+          <Switch size="small" checked={onlyChanges} onChange={setOnlyChanges} />
+          <Popconfirm
+            title="Dùng toàn bộ phiên bản này?"
+            description="Bản đang dùng được lưu lại thành một phiên bản."
+            okText="Dùng"
+            cancelText="Hủy"
+            onConfirm={() => onAcceptVersion(version)}
+          >
+            <Button size="small">Dùng toàn bộ</Button>
+          </Popconfirm>
+        </Space>
+      </div>
+
+      <div style={{ flex: 1, overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: '8px' }}>
+        {visibleRows.length === 0 && (
+          <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="Hai phiên bản giống nhau" />
+        )}
+        {visibleRows.map(row => (
+          <div
+            key={row.key}
+            style={{
+              display: 'grid',
+              gridTemplateColumns: 'auto 1fr auto 1fr',
+              gap: '8px',
+              alignItems: 'start',
+              padding: '8px',
+              border: `1px solid ${row.changed ? '#ffd591' : '#d9d9d9'}`,
+              borderRadius: '8px',
+              backgroundColor: row.changed ? '#fffbe6' : '#fafafa',
+              color: 'rgba(0, 0, 0, 0.88)',
+              fontSize: '13px',
+              lineHeight: 1.6
+            }}
+          >
+            {row.startMs !== undefined ? (
+              <Tag
+                color="cyan"
+                style={{ cursor: 'pointer', margin: 0 }}
+                onClick={() => onSeekAudio?.(row.startMs!)}
+              >
+                📍 {formatAudioTime(row.startMs)}
+              </Tag>
+            ) : <span />}
+            <div>
+              {row.left.length > 0
+                ? renderTokens(row.tokens, 'left')
+                : <span style={{ color: '#999', fontStyle: 'italic' }}>(không có)</span>}
+            </div>
+            <Tooltip title={row.left.length > 0 ? 'Dùng đoạn này thay cho bản đang dùng' : 'Xóa đoạn này khỏi bản đang dùng'}>
+              <Button
+                size="small"
+                icon={<CheckOutlined />}
+                disabled={!row.changed}
+                onClick={() => onAcceptSegments(row.right.map(item => item.id), row.left)}
+              />
+            </Tooltip>
+            <div>
+              {row.right.length > 0
+                ? renderTokens(row.tokens, 'right')
+                : <span style={{ color: '#999', fontStyle: 'italic' }}>(không có)</span>}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,42 +1,87 @@
 import React, { useState, useEffect } from 'react';
 import { Modal, Form, Input, Select, Switch, Button, Space, App } from 'antd';
 import { SettingOutlined, SaveOutlined, DeleteOutlined, InfoCircleOutlined } from '@ant-design/icons';
-import type { SpeechToTextConfig } from '../types/types';
-import { SpeechToTextService } from '../services/speechToText';
+import type { PhraseHint, SpeechToTextConfig, TranscriptionProviderConfigField } from '../types/types';
+import { SpeechToTextService, speechToTextService } from '../services/speechToText';
+import { PhraseHints } from '../services/phraseHints';
+import { LANGUAGE_OPTIONS, DEFAULT_LANGUAGE_CODE, MAX_ALTERNATIVE_LANGUAGES } from '../services/languages';
 
 interface Props {
   visible: boolean;
   onClose: () => void;
   onSave: (config: SpeechToTextConfig) => void;
   currentConfig: SpeechToTextConfig | null;
+  projectPhraseHints?: PhraseHint[]; // Vocabulary stored with the open project
+  onProjectPhraseHintsChange?: (hints: PhraseHint[]) => void;
 }
 
 export const TranscriptionConfig: React.FC<Props> = ({
   visible,
   onClose,
   onSave,
-  currentConfig
+  currentConfig,
+  projectPhraseHints,
+  onProjectPhraseHintsChange
 }) => {
   const { message } = App.useApp();
   const [form] = Form.useForm();
   const [isSaving, setIsSaving] = useState(false);
+  const providers = speechToTextService.getProviders();
+  const selectedProviderId: string = Form.useWatch('providerId', form) || '';
+  const selectedProvider = speechToTextService.getProvider(selectedProviderId);
+  const primaryLanguage: string = Form.useWatch('languageCode', form) || DEFAULT_LANGUAGE_CODE;
+
+  // Fields to show: the selected provider's schema, or the auto-mode providers' fields
+  const getConfigFields = (providerId: string): TranscriptionProviderConfigField[] => {
+    const provider = speechToTextService.getProvider(providerId);
+    return provider
+      ? provider.configSchema
+      : speechToTextService.getAutoProviders()
+          .flatMap(p => p.configSchema)
+          .filter((field, index, all) => all.findIndex(f => f.name === field.name) === index);
+  };
+  const configFields = getConfigFields(selectedProviderId);
+  const supportsDiarization = selectedProvider
+    ? selectedProvider.capabilities.speakerDiarization
+    : speechToTextService.getAutoProviders().some(provider => provider.capabilities.speakerDiarization);
+
+  // When switching provider, replace another provider's default (e.g. its endpoint) with this one's
+  const handleValuesChange = (changedValues: Partial<SpeechToTextConfig>) => {
+    if (!('providerId' in changedValues)) return;
+
+    const knownDefaults = providers.flatMap(p => p.configSchema).map(field => field.defaultValue);
+    getConfigFields(changedValues.providerId || '').forEach(field => {
+      const current = form.getFieldValue(field.name);
+      if (field.defaultValue && (!current || knownDefaults.includes(current))) {
+        form.setFieldValue(field.name, field.defaultValue);
+      }
+    });
+  };
 
   // Load saved config or set defaults
   useEffect(() => {
     if (visible) {
       const savedConfig = currentConfig || SpeechToTextService.loadConfig();
       if (savedConfig) {
-        form.setFieldsValue(savedConfig);
+        form.setFieldsValue({
+          ...savedConfig,
+          providerId: savedConfig.providerId || '',
+          globalPhraseHints: PhraseHints.format(savedConfig.phraseHints)
+        });
       } else {
         // Set default values
         form.setFieldsValue({
+          providerId: '',
           apiKey: '',
           apiEndpoint: 'https://speech.googleapis.com/v1/speech:recognize',
-          languageCode: 'vi-VN',
+          languageCode: DEFAULT_LANGUAGE_CODE,
+          alternativeLanguageCodes: [],
           enableSpeakerDiarization: false,
-          enableAutomaticPunctuation: true
+          enableAutomaticPunctuation: true,
+          globalPhraseHints: ''
         });
       }
+      form.setFieldValue('projectPhraseHints', PhraseHints.format(projectPhraseHints));
     }
   }, [visible, currentConfig, form]);
 
@@ -46,15 +91,26 @@ export const TranscriptionConfig: React.FC<Props> = ({
       setIsSaving(true);
 
       const config: SpeechToTextConfig = {
+        providerId: values.providerId || undefined,
         apiKey: values.apiKey?.trim() || '',
-        apiEndpoint: values.apiEndpoint.trim(),
+        apiEndpoint: values.apiEndpoint?.trim() || undefined,
+        model: values.model?.trim() || undefined,
         languageCode: values.languageCode,
+        alternativeLanguageCodes: (values.alternativeLanguageCodes || []).filter((code: string) => code !== values.languageCode),
         enableSpeakerDiarization: values.enableSpeakerDiarization,
-        enableAutomaticPunctuation: values.enableAutomaticPunctuation
+        enableAutomaticPunctuation: values.enableAutomaticPunctuation,
+        phraseHints: PhraseHints.parse(values.globalPhraseHints || '')
       };
 
-      // Validate: Speaker diarization requires API Key
-      if (config.enableSpeakerDiarization && !config.apiKey) {
+      // Validate: Speaker diarization must be supported by the chosen provider
+      if (config.enableSpeakerDiarization && selectedProvider && !selectedProvider.capabilities.speakerDiarization) {
+        message.error(`⚠️ ${selectedProvider.name} không hỗ trợ nhận diện người nói`);
+        setIsSaving(false);
+        return;
+      }
+
+      // Validate: in auto mode, speaker diarization requires API Key
+      if (config.enableSpeakerDiarization && !selectedProvider && !config.apiKey) {
         message.error('⚠️ Nhận diện người nói yêu cầu Google Cloud API Key');
         setIsSaving(false);
         return;
@@ -66,6 +122,12 @@ export const TranscriptionConfig: React.FC<Props> = ({
       // Notify parent
       onSave(config);
 
+      // Project vocabulary is saved with the project, not in localStorage
+      const projectHints = PhraseHints.parse(values.projectPhraseHints || '');
+      if (onProjectPhraseHintsChange && PhraseHints.format(projectHints) !== PhraseHints.format(projectPhraseHints)) {
+        onProjectPhraseHintsChange(projectHints);
+      }
+
       message.success('✅ Cấu hình đã được lưu thành công');
       onClose();
     } catch (error) {
@@ -156,58 +218,50 @@ export const TranscriptionConfig: React.FC<Props> = ({
         form={form}
         layout="vertical"
         autoComplete="off"
+        onValuesChange={handleValuesChange}
       >
         <Form.Item
-          label="API Key (Tùy chọn)"
-          name="apiKey"
-          rules={[
-            { min: 20, message: 'API Key phải có ít nhất 20 ký tự' }
-          ]}
-          extra={
-            <Space direction="vertical" size="small" style={{ marginTop: 8 }}>
-              <div style={{ fontSize: '12px', color: '#52c41a' }}>
-                ℹ️ <strong>Không bắt buộc:</strong> Nếu để trống, sẽ dùng Web Speech API miễn phí của trình duyệt
-              </div>
-              <div style={{ fontSize: '12px', color: '#888' }}>
-                <InfoCircleOutlined /> Chỉ cần nhập nếu muốn:
-                <ul style={{ margin: '4px 0', paddingLeft: 20 }}>
-                  <li>Nhận diện người nói (speaker diarization)</li>
-                  <li>Độ chính xác cao hơn với Google Cloud</li>
-                </ul>
-              </div>
-              <div style={{ fontSize: '12px', color: '#888' }}>
-                Lấy API Key từ{' '}
-                <a
-                  href="https://console.cloud.google.com/apis/credentials"
-                  target="_blank"
-                  rel="noopener noreferrer"
-                >
-                  Google Cloud Console
-                </a>
-              </div>
-              <div style={{ fontSize: '12px', color: '#ff9800' }}>
-                ⚠️ API Key sẽ được lưu trên trình duyệt. Không chia sẻ với người khác.
-              </div>
-            </Space>
-          }
+          label="Dịch vụ nhận dạng"
+          name="providerId"
+          extra={selectedProvider ? selectedProvider.description : 'Tự động: dùng Web Speech API miễn phí, hoặc Google Cloud khi có API Key / bật nhận diện người nói'}
         >
-          <Input.Password
-            placeholder="Để trống để dùng Web Speech API miễn phí"
-            autoComplete="off"
-          />
+          <Select>
+            <Select.Option value="">🔀 Tự động</Select.Option>
+            {providers.map(provider => (
+              <Select.Option key={provider.id} value={provider.id}>
+                {provider.name}
+              </Select.Option>
+            ))}
+          </Select>
         </Form.Item>
 
-        <Form.Item
-          label="API Endpoint"
-          name="apiEndpoint"
-          rules={[
-            { required: true, message: 'Vui lòng nhập API Endpoint' },
-            { type: 'url', message: 'Vui lòng nhập URL hợp lệ' }
-          ]}
-          extra="URL của Google Cloud Speech-to-Text API"
-        >
-          <Input placeholder="https://speech.googleapis.com/v1/speech:recognize" />
-        </Form.Item>
+        {configFields.map(field => (
+          <Form.Item
+            key={field.name}
+            label={selectedProvider || !field.required ? field.label : `${field.label} (Tùy chọn)`}
+            name={field.name}
+            initialValue={field.defaultValue}
+            rules={[
+              // In auto mode every provider field is optional
+              ...(field.required && selectedProvider ? [{ required: true, message: `Vui lòng nhập ${field.label}` }] : []),
+              ...(field.minLength ? [{ min: field.minLength, message: `${field.label} phải có ít nhất ${field.minLength} ký tự` }] : []),
+              ...(field.type === 'url' ? [{ type: 'url' as const, message: 'Vui lòng nhập URL hợp lệ' }] : [])
+            ]}
+            extra={field.help}
+          >
+            {field.type === 'password' ? (
+              <Input.Password placeholder={field.placeholder} autoComplete="off" />
+            ) : (
+              <Input placeholder={field.placeholder} autoComplete="off" />
+            )}
+          </Form.Item>
+        ))}
+
+        {configFields.some(field => field.type === 'password') && (
+          <div style={{ fontSize: '12px', color: '#ff9800', marginTop: -12, marginBottom: 16 }}>
+            <InfoCircleOutlined /> API Key sẽ được lưu trên trình duyệt. Không chia sẻ với người khác.
+          </div>
+        )}
 
         <Form.Item
           label="Ngôn ngữ"
@@ -216,19 +270,28 @@ export const TranscriptionConfig: React.FC<Props> = ({
           extra="Ngôn ngữ sử dụng cho nhận dạng giọng nói"
         >
           <Select>
-            <Select.Option value="vi-VN">🇻🇳 Tiếng Việt (Vietnam)</Select.Option>
-            <Select.Option value="en-US">🇺🇸 English (US)</Select.Option>
-            <Select.Option value="en-GB">🇬🇧 English (UK)</Select.Option>
-            <Select.Option value="ja-JP">🇯🇵 日本語 (Japanese)</Select.Option>
-            <Select.Option value="ko-KR">🇰🇷 한국어 (Korean)</Select.Option>
-            <Select.Option value="zh-CN">🇨🇳 中文 (Chinese Simplified)</Select.Option>
-            <Select.Option value="zh-TW">🇹🇼 中文 (Chinese Traditional)</Select.Option>
-            <Select.Option value="fr-FR">🇫🇷 Français (French)</Select.Option>
-            <Select.Option value="de-DE">🇩🇪 Deutsch (German)</Select.Option>
-            <Select.Option value="es-ES">🇪🇸 Español (Spanish)</Select.Option>
+            {LANGUAGE_OPTIONS.map(language => (
+              <Select.Option key={language.code} value={language.code}>{language.label}</Select.Option>
+            ))}
           </Select>
         </Form.Item>
 
+        <Form.Item
+          label="Ngôn ngữ phụ"
+          name="alternativeLanguageCodes"
+          extra={`Cho cuộc họp nói xen nhiều thứ tiếng (tối đa ${MAX_ALTERNATIVE_LANGUAGES}). Mỗi đoạn được gắn ngôn ngữ nhận dạng được. Google Cloud chọn ngôn ngữ theo từng câu, Whisper theo từng lần gửi, Web Speech chỉ dùng ngôn ngữ chính.`}
+        >
+          <Select
+            mode="multiple"
+            allowClear
+            maxCount={MAX_ALTERNATIVE_LANGUAGES}
+            placeholder="Không có"
+            options={LANGUAGE_OPTIONS
+              .filter(language => language.code !== primaryLanguage)
+              .map(language => ({ value: language.code, label: language.label }))}
+          />
+        </Form.Item>
+
         <Form.Item
           label="Nhận diện người nói"
           name="enableSpeakerDiarization"
@@ -237,14 +300,34 @@ export const TranscriptionConfig: React.FC<Props> = ({
             <div>
               <div style={{ marginTop: 4 }}>Tự động phân biệt và gán nhãn cho từng người nói trong cuộc họp</div>
               <div style={{ marginTop: 4, color: '#ff9800', fontSize: '12px' }}>
-                ⚠️ Chức năng này chỉ khả dụng với Google Cloud API (có phí). Sẽ không sử dụng Web Speech API miễn phí.
+                ⚠️ Chỉ khả dụng với dịch vụ hỗ trợ nhận diện người nói (VD: Google Cloud API - có phí). Sẽ không sử dụng Web Speech API miễn phí.
               </div>
             </div>
           }
         >
-          <Switch />
+          <Switch disabled={!supportsDiarization} />
+        </Form.Item>
+
+        <Form.Item
+          label="Từ vựng chung"
+          name="globalPhraseHints"
+          extra='Mỗi dòng một từ/cụm từ (tên dự án, viết tắt, tên riêng). Thêm "| 10" để tăng trọng số (0-20, chỉ Google Cloud dùng trọng số).'
+        >
+          <Input.TextArea rows={3} placeholder={'Kubernetes | 15\nOKR\nNguyễn Văn A'} />
+        </Form.Item>
+
+        <Form.Item
+          label="Từ vựng của dự án"
+          name="projectPhraseHints"
+          extra='Lưu cùng dự án đang mở và được gửi kèm từ vựng chung. Nhấn "Save Changes" để ghi vào file dự án.'
+        >
+          <Input.TextArea rows={3} placeholder="Tên mã dự án, tên người tham dự..." disabled={!onProjectPhraseHintsChange} />
         </Form.Item>
 
+        <div style={{ fontSize: '12px', color: '#888', marginTop: -12, marginBottom: 16 }}>
+          <InfoCircleOutlined /> Google Cloud: speechContexts • Whisper: prompt • Web Speech: grammar (tùy trình duyệt hỗ trợ)
+        </div>
+
         <Form.Item
           label="Tự động thêm dấu câu"
           name="enableAutomaticPunctuation"
@@ -263,25 +346,27 @@ export const TranscriptionConfig: React.FC<Props> = ({
             borderRadius: 4
           }}
         >
-          <h4 style={{ marginTop: 0, color: '#1890ff' }}>📌 Hai chế độ hoạt động:</h4>
-          <div style={{ marginBottom: 16 }}>
-            <strong style={{ color: '#52c41a' }}>🆓 Web Speech API (Miễn phí - Mặc định)</strong>
-            <ul style={{ marginBottom: 0, paddingLeft: 20, fontSize: '13px' }}>
-              <li>Không cần API Key</li>
-              <li>Chạy trên trình duyệt Chrome/Edge</li>
-              <li>Miễn phí 100%</li>
-              <li><strong style={{ color: '#ff4d4f' }}>Không</strong> hỗ trợ nhận diện người nói</li>
-            </ul>
-          </div>
-          <div>
-            <strong style={{ color: '#1890ff' }}>💰 Google Cloud API (Có phí - Nâng cao)</strong>
-            <ul style={{ marginBottom: 0, paddingLeft: 20, fontSize: '13px' }}>
-              <li>Cần API Key từ <a href="https://console.cloud.google.com" target="_blank" rel="noopener noreferrer">Google Cloud Console</a></li>
-              <li>Độ chính xác cao hơn</li>
-              <li>Hỗ trợ nhận diện người nói (speaker diarization)</li>
-              <li>Chi phí: ~$0.006/15 giây audio (theo biểu giá của Google Cloud)</li>
-            </ul>
-          </div>
+          <h4 style={{ marginTop: 0, color: '#1890ff' }}>📌 Các dịch vụ nhận dạng:</h4>
+          {providers.map((provider, index) => (
+            <div key={provider.id} style={{ marginBottom: index < providers.length - 1 ? 16 : 0 }}>
+              <strong style={{ color: provider.capabilities.requiresApiKey ? '#1890ff' : '#52c41a' }}>
+                {provider.capabilities.requiresApiKey ? '💰' : '🆓'} {provider.name}
+              </strong>
+              <ul style={{ marginBottom: 0, paddingLeft: 20, fontSize: '13px' }}>
+                <li>{provider.description}</li>
+                <li>{provider.capabilities.requiresApiKey ? 'Cần API Key' : 'Không cần API Key'}</li>
+                <li>
+                  {provider.capabilities.speakerDiarization ? 'Hỗ trợ' : <strong style={{ color: '#ff4d4f' }}>Không</strong>} nhận diện người nói
+                </li>
+                <li>
+                  {[
+                    provider.capabilities.liveStreaming && 'Ghi âm trực tiếp',
+                    provider.capabilities.fileTranscription && 'Chuyển đổi tệp âm thanh'
+                  ].filter(Boolean).join(' • ')}
+                </li>
+              </ul>
+            </div>
+          ))}
         </div>
       </Form>
     </Modal>
@@ -0,0 +1,323 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Modal, Button, Progress, Radio, Space, Tag, Tooltip, Alert, List, Typography } from 'antd';
+import {
+  AudioOutlined,
+  PauseCircleOutlined,
+  PlayCircleOutlined,
+  StopOutlined,
+  CheckCircleOutlined,
+  CloseCircleOutlined
+} from '@ant-design/icons';
+import type { AudioRange, ChunkState, TranscriptionResult } from '../types/types';
+import { speechToTextService } from '../services/speechToText';
+
+export type TranscriptionJobMode = 'replace' | 'append';
+
+type JobStage = 'setup' | 'running' | 'done' | 'failed' | 'cancelled';
+
+interface Props {
+  open: boolean;
+  audioBlob: Blob | null;
+  range?: AudioRange | null; // Selected waveform region; whole file when absent
+  existingCount: number; // Final transcription results already in the panel (inside the range, if any)
+  onClose: () => void;
+  onStart: (mode: TranscriptionJobMode) => void; // Parent clears results (in the range) for 'replace'
+  onTranscription: (result: TranscriptionResult) => void;
+  onFinished: () => void; // Called once results (complete or partial) were added
+}
+
+const CHUNK_STATUS_COLOR: Record<ChunkState['status'], string> = {
+  pending: 'default',
+  running: 'processing',
+  done: 'success',
+  failed: 'error'
+};
+
+export const TranscriptionJobModal: React.FC<Props> = ({
+  open,
+  audioBlob,
+  range,
+  existingCount,
+  onClose,
+  onStart,
+  onTranscription,
+  onFinished
+}) => {
+  const [stage, setStage] = useState<JobStage>('setup');
+  const [mode, setMode] = useState<TranscriptionJobMode>('replace');
+  const [progress, setProgress] = useState<number>(0);
+  const [etaSeconds, setEtaSeconds] = useState<number | null>(null);
+  const [chunks, setChunks] = useState<ChunkState[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isPaused, setIsPaused] = useState<boolean>(false);
+  const [resultCount, setResultCount] = useState<number>(0);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const progressStartRef = useRef<{ time: number; progress: number } | null>(null);
+
+  // Back to the setup step every time the modal is opened
+  useEffect(() => {
+    if (open) {
+      setStage('setup');
+      setMode('replace');
+      setProgress(0);
+      setEtaSeconds(null);
+      setChunks([]);
+      setErrors([]);
+      setIsPaused(false);
+      setResultCount(0);
+    }
+  }, [open]);
+
+  const formatEta = (seconds: number): string => {
+    if (seconds < 60) return `${Math.ceil(seconds)} giây`;
+    const minutes = Math.floor(seconds / 60);
+    if (minutes < 60) return `${minutes} phút ${Math.ceil(seconds % 60)} giây`;
+    return `${Math.floor(minutes / 60)} giờ ${minutes % 60} phút`;
+  };
+
+  const formatRange = ({ startMs, endMs }: AudioRange): string => {
+    const format = (ms: number) => {
+      const totalSeconds = Math.floor(ms / 1000);
+      return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+    };
+    return `${format(startMs)} - ${format(endMs)}`;
+  };
+
+  // Chunk times of a region job are relative to the region start
+  const formatChunkRange = (chunk: ChunkState): string => {
+    const offsetMs = range?.startMs || 0;
+    return formatRange({ startMs: chunk.startMs + offsetMs, endMs: chunk.endMs + offsetMs });
+  };
+
+  const handleProgress = (value: number) => {
+    setProgress(value);
+
+    // ETA from the rate since the first report (skips setup time like decoding)
+    const now = Date.now();
+    if (!progressStartRef.current) {
+      progressStartRef.current = { time: now, progress: value };
+      return;
+    }
+    const { time, progress: startProgress } = progressStartRef.current;
+    const gained = value - startProgress;
+    if (gained > 0 && value < 100) {
+      const elapsedSeconds = (now - time) / 1000;
+      setEtaSeconds((elapsedSeconds / gained) * (100 - value));
+    } else if (value >= 100) {
+      setEtaSeconds(null);
+    }
+  };
+
+  const handleStart = async () => {
+    if (!audioBlob) return;
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    progressStartRef.current = null;
+
+    onStart(mode);
+    setStage('running');
+
+    try {
+      await speechToTextService.transcribeAudioFile(
+        audioBlob,
+        (result) => {
+          setResultCount(count => count + 1);
+          onTranscription(result);
+        },
+        handleProgress,
+        undefined,
+        {
+          signal: abortController.signal,
+          onChunkStatus: setChunks,
+          range: range || undefined,
+          skipEmitted: mode === 'append' // Replace cleared the earlier results, so those are needed again
+        }
+      );
+      setProgress(100);
+      setStage('done');
+    } catch (error: any) {
+      if (error?.name === 'AbortError') {
+        setStage('cancelled');
+      } else {
+        setErrors(prev => [...prev, error?.message || String(error)]);
+        setStage('failed');
+      }
+    } finally {
+      setEtaSeconds(null);
+      abortControllerRef.current = null;
+      onFinished();
+    }
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleTogglePause = () => {
+    if (isPaused) {
+      speechToTextService.resumeFileTranscription();
+    } else {
+      speechToTextService.pauseFileTranscription();
+    }
+    setIsPaused(!isPaused);
+  };
+
+  const failedChunks = chunks.filter(chunk => chunk.status === 'failed');
+  const doneChunks = chunks.filter(chunk => chunk.status === 'done').length;
+  const isRunning = stage === 'running';
+
+  const renderFooter = () => {
+    if (stage === 'setup') {
+      return [
+        <Button key="cancel" onClick={onClose}>Hủy</Button>,
+        <Button key="start" type="primary" icon={<AudioOutlined />} onClick={handleStart} disabled={!audioBlob}>
+          Bắt đầu
+        </Button>
+      ];
+    }
+    if (isRunning) {
+      return [
+        // Only chunked jobs can pause between chunks
+        chunks.length > 0 && (
+          <Button
+            key="pause"
+            icon={isPaused ? <PlayCircleOutlined /> : <PauseCircleOutlined />}
+            onClick={handleTogglePause}
+          >
+            {isPaused ? 'Tiếp tục' : 'Tạm dừng'}
+          </Button>
+        ),
+        <Button key="stop" danger icon={<StopOutlined />} onClick={handleCancel}>
+          Dừng
+        </Button>
+      ];
+    }
+    return [
+      <Button key="close" type="primary" onClick={onClose}>Đóng</Button>
+    ];
+  };
+
+  return (
+    <Modal
+      title={
+        <Space>
+          <AudioOutlined />
+          <span>{range ? `Chuyển đổi vùng chọn ${formatRange(range)}` : 'Chuyển đổi toàn bộ audio'}</span>
+        </Space>
+      }
+      open={open}
+      onCancel={isRunning ? undefined : onClose}
+      closable={!isRunning}
+      maskClosable={false}
+      keyboard={!isRunning}
+      footer={renderFooter()}
+      width={560}
+    >
+      {stage === 'setup' && (
+        <Space direction="vertical" style={{ width: '100%' }}>
+          <Typography.Text>
+            {range
+              ? 'Chỉ phần audio trong vùng chọn được gửi đi chuyển đổi. Kết quả được chèn vào đúng vị trí thời gian, các đoạn ngoài vùng chọn giữ nguyên.'
+              : 'Toàn bộ file audio sẽ được gửi đi chuyển đổi.'}
+            {' '}Với audio dài, các đoạn đã xong được lưu lại - nếu bị gián đoạn, chạy lại sẽ chỉ chuyển đổi phần còn thiếu.
+          </Typography.Text>
+          <Radio.Group value={mode} onChange={(e) => setMode(e.target.value)}>
+            <Space direction="vertical">
+              <Radio value="replace">
+                {range ? 'Thay thế các đoạn trong vùng chọn' : 'Thay thế kết quả hiện có'}
+                {existingCount > 0 && (range
+                  ? <Tag color="orange" style={{ marginLeft: 8 }}>{existingCount} đoạn sẽ bị xóa</Tag>
+                  : <Tag color="blue" style={{ marginLeft: 8 }}>{existingCount} đoạn được giữ lại làm phiên bản để so sánh</Tag>)}
+              </Radio>
+              <Radio value="append">
+                {range ? 'Giữ các đoạn cũ, chèn thêm kết quả mới theo thời gian' : 'Thêm vào sau kết quả hiện có'}
+              </Radio>
+            </Space>
+          </Radio.Group>
+        </Space>
+      )}
+
+      {stage !== 'setup' && (
+        <Space direction="vertical" style={{ width: '100%' }} size="middle">
+          <Progress
+            percent={Math.floor(progress)}
+            status={
+              stage === 'failed' ? 'exception'
+                : stage === 'done' ? 'success'
+                  : isRunning ? 'active' : 'normal'
+            }
+          />
+
+          <Space wrap>
+            {isRunning && (
+              <Tag color="processing">
+                {isPaused ? 'Đang tạm dừng' : etaSeconds !== null ? `Còn khoảng ${formatEta(etaSeconds)}` : 'Đang ước tính thời gian...'}
+              </Tag>
+            )}
+            {chunks.length > 0 && <Tag>{doneChunks}/{chunks.length} đoạn audio</Tag>}
+            <Tag color="blue">{resultCount} kết quả</Tag>
+          </Space>
+
+          {chunks.length > 0 && (
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px' }}>
+              {chunks.map(chunk => (
+                <Tooltip
+                  key={chunk.index}
+                  title={`${formatChunkRange(chunk)}${chunk.attempts > 1 ? ` · lần thử ${chunk.attempts}` : ''}${chunk.error ? ` · ${chunk.error}` : ''}`}
+                >
+                  <Tag color={CHUNK_STATUS_COLOR[chunk.status]} style={{ margin: 0, minWidth: '28px', textAlign: 'center' }}>
+                    {chunk.index + 1}
+                  </Tag>
+                </Tooltip>
+              ))}
+            </div>
+          )}
+
+          {stage === 'done' && (
+            <Alert
+              type="success"
+              showIcon
+              icon={<CheckCircleOutlined />}
+              message='Chuyển đổi hoàn tất. Nhấn "Save Changes" để lưu kết quả.'
+            />
+          )}
+
+          {stage === 'cancelled' && (
+            <Alert
+              type="warning"
+              showIcon
+              message="Đã dừng. Các đoạn đã xong được giữ lại và sẽ được dùng lại nếu chuyển đổi audio này lần nữa."
+            />
+          )}
+
+          {(errors.length > 0 || failedChunks.length > 0) && (
+            <List
+              size="small"
+              bordered
+              header={
+                <Space>
+                  <CloseCircleOutlined style={{ color: '#ff4d4f' }} />
+                  <span>Lỗi - chạy lại để chỉ thử lại các đoạn lỗi</span>
+                </Space>
+              }
+              // The queue's summary error repeats the chunk errors, so prefer the per-chunk list
+              dataSource={
+                failedChunks.length > 0
+                  ? failedChunks.map(chunk => `Đoạn ${chunk.index + 1} (${formatChunkRange(chunk)}): ${chunk.error}`)
+                  : errors
+              }
+              renderItem={(item) => (
+                <List.Item>
+                  <Typography.Text type="danger" style={{ fontSize: '12px', wordBreak: 'break-word' }}>
+                    {item}
+                  </Typography.Text>
+                </List.Item>
+              )}
+            />
+          )}
+        </Space>
+      )}
+    </Modal>
+  );
+};
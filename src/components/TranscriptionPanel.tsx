@@ -1,7 +1,25 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { Collapse, Empty, Tag, Space, Tooltip, Input, Button } from 'antd';
-import { AudioOutlined, ClockCircleOutlined, UserOutlined, CheckCircleOutlined, EditOutlined, SaveOutlined, CloseOutlined } from '@ant-design/icons';
-import type { TranscriptionResult } from '../types/types';
+import { Collapse, Empty, Tag, Space, Tooltip, Input, Button, Select } from 'antd';
+import {
+  AudioOutlined,
+  ClockCircleOutlined,
+  UserOutlined,
+  CheckCircleOutlined,
+  EditOutlined,
+  SaveOutlined,
+  CloseOutlined,
+  DiffOutlined,
+  AuditOutlined,
+  SafetyCertificateOutlined,
+  LeftOutlined,
+  RightOutlined,
+  PlayCircleOutlined
+} from '@ant-design/icons';
+import type { AudioRange, SpeakerProfile, TranscriptionResult, TranscriptionWord, TranscriptVersion } from '../types/types';
+import { SpeakerRegistry } from '../services/speakerRegistry';
+import { Languages } from '../services/languages';
+import { TranscriptReview, LOW_CONFIDENCE, MEDIUM_CONFIDENCE } from '../services/transcriptReview';
+import { TranscriptComparison } from './TranscriptComparison';
 
 interface Props {
   transcriptions: TranscriptionResult[];
@@ -9,6 +27,12 @@ interface Props {
   isOnline: boolean;
   onSeekAudio?: (timeMs: number) => void;
   onEditTranscription?: (id: string, newText: string, newSpeaker: string) => void;
+  speakers?: SpeakerProfile[]; // Speaker registry, for tag colours and roles
+  versions?: TranscriptVersion[]; // Stored passes to compare against
+  onAcceptSegments?: (removeIds: string[], insert: TranscriptionResult[]) => void;
+  onAcceptVersion?: (version: TranscriptVersion) => void;
+  onPlayAudioRange?: (range: AudioRange) => void; // Play a snippet in the audio player
+  onReviewTranscription?: (id: string, reviewed: boolean) => void;
 }
 
 export const TranscriptionPanel: React.FC<Props> = ({
@@ -16,17 +40,45 @@ export const TranscriptionPanel: React.FC<Props> = ({
   isTranscribing,
   isOnline,
   onSeekAudio,
-  onEditTranscription
+  onEditTranscription,
+  speakers,
+  versions = [],
+  onAcceptSegments,
+  onAcceptVersion,
+  onPlayAudioRange,
+  onReviewTranscription
 }) => {
   const scrollRef = useRef<HTMLDivElement>(null);
   const [contentHeight, setContentHeight] = useState<number>(300); // Initial height
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editText, setEditText] = useState<string>('');
   const [editSpeaker, setEditSpeaker] = useState<string>('');
+  const [activeWordKey, setActiveWordKey] = useState<string | null>(null); // `${item.id}:${wordIndex}`
+  const [isComparing, setIsComparing] = useState<boolean>(false);
+  const [isReviewing, setIsReviewing] = useState<boolean>(false);
+  const [reviewThreshold, setReviewThreshold] = useState<number>(LOW_CONFIDENCE);
+  const [reviewId, setReviewId] = useState<string | null>(null); // Segment open in review mode
+  const itemRefs = useRef<Map<string, HTMLDivElement>>(new Map());
+  const [isExpanded, setIsExpanded] = useState<boolean>(false);
+  const [revealedId, setRevealedId] = useState<string | null>(null); // Briefly highlighted search hit
+  const canCompare = versions.length > 0 && !!onAcceptSegments && !!onAcceptVersion;
+  const canReview = !!onReviewTranscription;
 
-  // Auto-scroll to bottom when new transcription arrives
+  // Review progress and the segments still to check, in transcript order
+  const finalCount = transcriptions.filter(item => item.isFinal).length;
+  const reviewedCount = transcriptions.filter(item => item.isFinal && item.isReviewed).length;
+  const reviewedPercent = TranscriptReview.reviewedPercent(transcriptions);
+  const reviewIndexes = transcriptions
+    .map((item, index) => (TranscriptReview.needsReview(item, reviewThreshold) ? index : -1))
+    .filter(index => index !== -1);
+  const reviewItem = transcriptions.find(item => item.id === reviewId);
+
+  // Language tags only matter once more than one language shows up
+  const isMultilingual = Languages.detected(transcriptions).length > 1;
+
+  // Auto-scroll to bottom when new transcription arrives (not while reviewing: marking a segment updates the list)
   useEffect(() => {
-    if (scrollRef.current) {
+    if (scrollRef.current && !isReviewing) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
   }, [transcriptions]);
@@ -40,6 +92,61 @@ export const TranscriptionPanel: React.FC<Props> = ({
     }
   }, [transcriptions]);
 
+  // Nothing left to review once the transcript is cleared
+  useEffect(() => {
+    if (finalCount === 0 && isReviewing) {
+      setIsReviewing(false);
+      setReviewId(null);
+    }
+  }, [finalCount, isReviewing]);
+
+  // Open the panel on a segment picked in the project search
+  useEffect(() => {
+    let timeout: NodeJS.Timeout | null = null;
+    const handleReveal = (e: Event) => {
+      const { id } = (e as CustomEvent).detail as { id: string };
+      setIsExpanded(true);
+      setIsComparing(false);
+      setRevealedId(id);
+      // Wait for the panel to expand before scrolling
+      setTimeout(() => itemRefs.current.get(id)?.scrollIntoView({ block: 'center', behavior: 'smooth' }), 300);
+      if (timeout) clearTimeout(timeout);
+      timeout = setTimeout(() => setRevealedId(null), 2000);
+    };
+
+    window.addEventListener('reveal-transcription', handleReveal);
+    return () => {
+      window.removeEventListener('reveal-transcription', handleReveal);
+      if (timeout) clearTimeout(timeout);
+    };
+  }, []);
+
+  // Highlight the word under the playback cursor
+  useEffect(() => {
+    const handleTimeUpdate = (e: Event) => {
+      const timeMs = (e as CustomEvent).detail.time * 1000;
+      let key: string | null = null;
+
+      for (const item of transcriptions) {
+        if (!item.words || item.words.length === 0) continue;
+        const first = item.words[0];
+        const last = item.words[item.words.length - 1];
+        if (timeMs < first.startMs || timeMs > last.endMs) continue;
+
+        const wordIndex = item.words.findIndex(word => timeMs >= word.startMs && timeMs <= word.endMs);
+        if (wordIndex !== -1) {
+          key = `${item.id}:${wordIndex}`;
+          break;
+        }
+      }
+
+      setActiveWordKey(key);
+    };
+
+    window.addEventListener('audio-time-update', handleTimeUpdate);
+    return () => window.removeEventListener('audio-time-update', handleTimeUpdate);
+  }, [transcriptions]);
+
   const formatTime = (isoTime: string): string => {
     const date = new Date(isoTime);
     return date.toLocaleTimeString('vi-VN', {
@@ -88,6 +195,67 @@ export const TranscriptionPanel: React.FC<Props> = ({
     setEditSpeaker('');
   };
 
+  const playSnippet = (item: TranscriptionResult, word?: TranscriptionWord) => {
+    const range = TranscriptReview.snippet(item, word);
+    if (range && onPlayAudioRange) {
+      onPlayAudioRange(range);
+    }
+  };
+
+  // Open a segment for review: editor in place, snippet playing
+  const openForReview = (item: TranscriptionResult) => {
+    setReviewId(item.id);
+    handleStartEdit(item);
+    playSnippet(item);
+    itemRefs.current.get(item.id)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  };
+
+  // Next (or previous) segment needing review, wrapping around. skipId leaves out
+  // a segment that was just marked, since this render still sees it as unreviewed.
+  const stepReview = (direction: 1 | -1, skipId?: string) => {
+    const currentIndex = transcriptions.findIndex(item => item.id === reviewId);
+    const candidates = reviewIndexes.filter(index => transcriptions[index].id !== skipId);
+
+    if (candidates.length === 0) {
+      setReviewId(null);
+      handleCancelEdit();
+      return;
+    }
+
+    const nextIndex = direction === 1
+      ? candidates.find(index => index > currentIndex) ?? candidates[0]
+      : [...candidates].reverse().find(index => index < currentIndex) ?? candidates[candidates.length - 1];
+    openForReview(transcriptions[nextIndex]);
+  };
+
+  const handleToggleReview = () => {
+    if (isReviewing) {
+      setIsReviewing(false);
+      setReviewId(null);
+      handleCancelEdit();
+      return;
+    }
+    setIsComparing(false);
+    setIsReviewing(true);
+    stepReview(1);
+  };
+
+  // Keep any edit, mark the segment reviewed and move on to the next one
+  const handleMarkReviewed = (item: TranscriptionResult) => {
+    if (!onReviewTranscription) return;
+
+    if (editingId === item.id && editText.trim() && (editText.trim() !== item.text || editSpeaker.trim() !== item.speaker)) {
+      onEditTranscription?.(item.id, editText.trim(), editSpeaker.trim() || 'Person1');
+    }
+    onReviewTranscription(item.id, true);
+
+    if (isReviewing) {
+      stepReview(1, item.id);
+    } else if (editingId === item.id) {
+      handleCancelEdit();
+    }
+  };
+
   const getConfidenceColor = (confidence: number): string => {
     if (confidence >= 0.9) return '#52c41a'; // green
     if (confidence >= 0.7) return '#faad14'; // orange
@@ -102,7 +270,8 @@ export const TranscriptionPanel: React.FC<Props> = ({
 
   return (
     <Collapse
-      defaultActiveKey={[]}
+      activeKey={isExpanded ? ['1'] : []}
+      onChange={(keys) => setIsExpanded(keys.length > 0)}
       items={[
         {
           key: '1',
@@ -121,16 +290,68 @@ export const TranscriptionPanel: React.FC<Props> = ({
               {transcriptions.length > 0 && (
                 <Tag color="blue">{transcriptions.length} đoạn</Tag>
               )}
+              {canReview && finalCount > 0 && (
+                <Tooltip title={`${reviewedCount}/${finalCount} đoạn đã duyệt`}>
+                  <Tag color={reviewedPercent === 100 ? 'success' : 'default'} icon={<SafetyCertificateOutlined />}>
+                    {reviewedPercent}% đã duyệt
+                  </Tag>
+                </Tooltip>
+              )}
+            </Space>
+          ),
+          extra: (canCompare || (canReview && finalCount > 0)) && (
+            <Space size="small">
+              {canReview && finalCount > 0 && (
+                <Tooltip title="Lần lượt nghe lại và sửa các đoạn có độ tin cậy thấp">
+                  <Button
+                    size="small"
+                    type={isReviewing ? 'primary' : 'default'}
+                    icon={<AuditOutlined />}
+                    onClick={(e) => {
+                      e.stopPropagation(); // Don't collapse the panel
+                      handleToggleReview();
+                    }}
+                  >
+                    Duyệt ({reviewIndexes.length})
+                  </Button>
+                </Tooltip>
+              )}
+              {canCompare && (
+                <Tooltip title="So sánh bản đang dùng với các lần chuyển đổi đã lưu">
+                  <Button
+                    size="small"
+                    type={isComparing ? 'primary' : 'default'}
+                    icon={<DiffOutlined />}
+                    onClick={(e) => {
+                      e.stopPropagation(); // Don't collapse the panel
+                      if (!isComparing && isReviewing) handleToggleReview();
+                      setIsComparing(!isComparing);
+                    }}
+                  >
+                    So sánh ({versions.length})
+                  </Button>
+                </Tooltip>
+              )}
             </Space>
           ),
           children: (
             <div style={{ 
-              height: `${contentHeight}px`,
+              height: `${(canCompare && isComparing) || isReviewing ? 500 : contentHeight}px`,
               display: 'flex',
               flexDirection: 'column',
               transition: 'height 0.3s ease'
             }}>
-              {transcriptions.length === 0 ? (
+              {canCompare && isComparing ? (
+                <div style={{ height: '100%', padding: '16px' }}>
+                  <TranscriptComparison
+                    versions={versions}
+                    current={transcriptions.filter(item => item.isFinal)}
+                    onAcceptSegments={onAcceptSegments!}
+                    onAcceptVersion={onAcceptVersion!}
+                    onSeekAudio={onSeekAudio}
+                  />
+                </div>
+              ) : transcriptions.length === 0 ? (
                 <div style={{ 
                   height: '100%', 
                   display: 'flex', 
@@ -149,6 +370,50 @@ export const TranscriptionPanel: React.FC<Props> = ({
                 </div>
               ) : (
                 <>
+                  {isReviewing && (
+                    <div style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      justifyContent: 'space-between',
+                      gap: '8px',
+                      flexWrap: 'wrap',
+                      padding: '8px 16px',
+                      borderBottom: '1px solid #f0f0f0'
+                    }}>
+                      <Space wrap>
+                        <Tag color={reviewIndexes.length > 0 ? 'orange' : 'success'}>
+                          {reviewIndexes.length > 0 ? `Còn ${reviewIndexes.length} đoạn cần duyệt` : 'Không còn đoạn nào cần duyệt'}
+                        </Tag>
+                        <span style={{ fontSize: '12px' }}>Độ tin cậy dưới</span>
+                        <Select
+                          size="small"
+                          style={{ width: '150px' }}
+                          value={reviewThreshold}
+                          onChange={setReviewThreshold}
+                          options={[
+                            { value: LOW_CONFIDENCE, label: 'Thấp (< 70%)' },
+                            { value: MEDIUM_CONFIDENCE, label: 'Trung bình (< 90%)' }
+                          ]}
+                        />
+                      </Space>
+                      <Space wrap>
+                        <Button size="small" icon={<LeftOutlined />} disabled={reviewIndexes.length === 0} onClick={() => stepReview(-1)}>
+                          Trước
+                        </Button>
+                        <Button
+                          size="small"
+                          icon={<PlayCircleOutlined />}
+                          disabled={!reviewItem || !onPlayAudioRange}
+                          onClick={() => reviewItem && playSnippet(reviewItem)}
+                        >
+                          Nghe lại
+                        </Button>
+                        <Button size="small" icon={<RightOutlined />} disabled={reviewIndexes.length === 0} onClick={() => stepReview(1)}>
+                          Tiếp
+                        </Button>
+                      </Space>
+                    </div>
+                  )}
                   <div
                     ref={scrollRef}
                     style={{
@@ -160,15 +425,24 @@ export const TranscriptionPanel: React.FC<Props> = ({
                     <Space direction="vertical" size="middle" style={{ width: '100%' }}>
                       {transcriptions.map((item, index) => {
                         const isEditing = editingId === item.id;
+                        const isReviewTarget = isReviewing && reviewId === item.id;
                         
                         return (
                         <div
                           key={item.id}
+                          ref={(element) => {
+                            if (element) itemRefs.current.set(item.id, element);
+                            else itemRefs.current.delete(item.id);
+                          }}
                           style={{
                             padding: '12px',
                             backgroundColor: item.isFinal ? (item.isManuallyEdited ? '#fff7e6' : '#f6ffed') : '#e6f7ff',
                             border: `1px solid ${item.isFinal ? (item.isManuallyEdited ? '#ffa940' : '#b7eb8f') : '#91d5ff'}`,
                             borderRadius: '8px',
+                            boxShadow: isReviewTarget
+                              ? '0 0 0 2px #722ed1'
+                              : revealedId === item.id ? '0 0 0 2px #faad14' : undefined,
+                            transition: 'box-shadow 0.3s ease',
                             position: 'relative'
                           }}
                         >
@@ -209,10 +483,22 @@ export const TranscriptionPanel: React.FC<Props> = ({
                               )}
 
                               {/* Speaker */}
-                              {item.speaker && (
-                                <Tooltip title="Người nói">
-                                  <Tag icon={<UserOutlined />} color="purple" style={{ fontSize: '11px' }}>
-                                    {item.speaker}
+                              {item.speaker && (() => {
+                                const profile = SpeakerRegistry.find(speakers, SpeakerRegistry.labelOf(item));
+                                return (
+                                  <Tooltip title={profile?.role ? `Người nói - ${profile.role}` : 'Người nói'}>
+                                    <Tag icon={<UserOutlined />} color={profile?.color || 'purple'} style={{ fontSize: '11px' }}>
+                                      {item.speaker}
+                                    </Tag>
+                                  </Tooltip>
+                                );
+                              })()}
+
+                              {/* Detected language */}
+                              {isMultilingual && item.languageCode && (
+                                <Tooltip title={`Ngôn ngữ: ${item.languageCode}`}>
+                                  <Tag color="geekblue" style={{ fontSize: '11px' }}>
+                                    {Languages.tag(item.languageCode)}
                                   </Tag>
                                 </Tooltip>
                               )}
@@ -260,6 +546,19 @@ export const TranscriptionPanel: React.FC<Props> = ({
                                 </Tooltip>
                               )}
                               
+                              {/* Reviewed flag - click to toggle */}
+                              {canReview && item.isFinal && !isEditing && (
+                                <Tooltip title={item.isReviewed ? 'Đã duyệt - bấm để bỏ đánh dấu' : 'Đánh dấu đã duyệt'}>
+                                  <Button
+                                    type="text"
+                                    size="small"
+                                    icon={<SafetyCertificateOutlined style={{ color: item.isReviewed ? '#52c41a' : '#bfbfbf' }} />}
+                                    onClick={() => onReviewTranscription!(item.id, !item.isReviewed)}
+                                    style={{ padding: '0 4px', height: 'auto' }}
+                                  />
+                                </Tooltip>
+                              )}
+
                               {/* Manual edit indicator */}
                               {item.isManuallyEdited && (
                                 <Tooltip title="Đã chỉnh sửa thủ công">
@@ -274,6 +573,33 @@ export const TranscriptionPanel: React.FC<Props> = ({
                           {/* Editable content */}
                           {isEditing ? (
                             <div style={{ marginTop: '8px' }}>
+                              {/* Words as recognised, unsure ones marked - click to hear one */}
+                              {isReviewTarget && item.words && item.words.length > 0 && (
+                                <div style={{ marginBottom: '8px', fontSize: '13px', lineHeight: '1.8', color: '#595959' }}>
+                                  {item.words.map((word, wordIndex) => {
+                                    const isLow = TranscriptReview.isLowWord(word, reviewThreshold);
+                                    return (
+                                      <React.Fragment key={wordIndex}>
+                                        <span
+                                          title={word.confidence > 0 ? `${(word.confidence * 100).toFixed(0)}% - bấm để nghe` : 'Bấm để nghe'}
+                                          onClick={() => playSnippet(item, word)}
+                                          style={{
+                                            cursor: 'pointer',
+                                            borderRadius: '3px',
+                                            padding: '0 1px',
+                                            backgroundColor: isLow ? '#fff1f0' : 'transparent',
+                                            borderBottom: isLow ? '2px dotted #ff4d4f' : undefined
+                                          }}
+                                        >
+                                          {word.text}
+                                        </span>
+                                        {wordIndex < item.words!.length - 1 && ' '}
+                                      </React.Fragment>
+                                    );
+                                  })}
+                                </div>
+                              )}
+
                               {/* Edit Speaker */}
                               <div style={{ marginBottom: '8px' }}>
                                 <label style={{ fontSize: '12px', color: '#666', marginRight: '8px' }}>
@@ -306,6 +632,15 @@ export const TranscriptionPanel: React.FC<Props> = ({
                                 >
                                   Lưu
                                 </Button>
+                                {canReview && (
+                                  <Button
+                                    size="small"
+                                    icon={<SafetyCertificateOutlined />}
+                                    onClick={() => handleMarkReviewed(item)}
+                                  >
+                                    {isReviewTarget ? 'Đã duyệt, tiếp' : 'Lưu & đánh dấu đã duyệt'}
+                                  </Button>
+                                )}
                                 <Button
                                   size="small"
                                   icon={<CloseOutlined />}
@@ -329,7 +664,33 @@ export const TranscriptionPanel: React.FC<Props> = ({
                                   fontWeight: item.isFinal ? 'normal' : '300'
                                 }}
                               >
-                                {item.text}
+                                {item.words && item.words.length > 0 ? (
+                                  item.words.map((word, wordIndex) => {
+                                    const isActive = activeWordKey === `${item.id}:${wordIndex}`;
+                                    const isLow = isReviewing && !item.isReviewed && TranscriptReview.isLowWord(word, reviewThreshold);
+                                    return (
+                                      <React.Fragment key={wordIndex}>
+                                        <span
+                                          title={`${formatAudioTime(word.startMs)}${word.confidence > 0 ? ` · ${(word.confidence * 100).toFixed(0)}%` : ''}`}
+                                          onClick={() => handleSeekToTime(word.startMs)}
+                                          style={{
+                                            cursor: 'pointer',
+                                            borderRadius: '3px',
+                                            padding: '0 1px',
+                                            backgroundColor: isActive ? '#ffe58f' : isLow ? '#fff1f0' : 'transparent',
+                                            borderBottom: isLow ? '2px dotted #ff4d4f' : undefined,
+                                            transition: 'background-color 0.15s ease'
+                                          }}
+                                        >
+                                          {word.text}
+                                        </span>
+                                        {wordIndex < item.words!.length - 1 && ' '}
+                                      </React.Fragment>
+                                    );
+                                  })
+                                ) : (
+                                  item.text
+                                )}
                               </div>
 
                               {/* Draft indicator - only for interim results */}
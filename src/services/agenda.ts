@@ -0,0 +1,111 @@
+import type { AgendaItem, AgendaItemJson } from '../types/types';
+
+// Planned length of a new item
+export const DEFAULT_PLANNED_MINUTES = 10;
+
+let itemCounter = 0;
+
+/**
+ * The meeting agenda: planned items, and while recording which item is running and for how long
+ */
+export class Agenda {
+  static createItem(fields: Partial<Omit<AgendaItem, 'id'>> = {}): AgendaItem {
+    return { id: `agenda-${Date.now()}-${itemCounter++}`, title: '', plannedMinutes: DEFAULT_PLANNED_MINUTES, ...fields };
+  }
+
+  // The item that has started and not ended yet, or -1
+  static activeIndex(items: AgendaItem[]): number {
+    return items.findIndex(item => item.startMs !== undefined && item.endMs === undefined);
+  }
+
+  // The first item that has not started yet, or -1
+  static nextIndex(items: AgendaItem[]): number {
+    return items.findIndex(item => item.startMs === undefined);
+  }
+
+  static hasTimes(items: AgendaItem[] | undefined): boolean {
+    return (items || []).some(item => item.startMs !== undefined);
+  }
+
+  /**
+   * End the running item and start the next one. Returns the item that started,
+   * or none when the agenda has run out (the last item just ended).
+   */
+  static advance(items: AgendaItem[], now: number = Date.now()): { items: AgendaItem[]; started?: AgendaItem } {
+    const active = this.activeIndex(items);
+    const next = this.nextIndex(items);
+    const updated = items.map((item, index) => {
+      if (index === active) return { ...item, endMs: now };
+      if (index === next) return { ...item, startMs: now };
+      return item;
+    });
+    return { items: updated, started: next >= 0 ? updated[next] : undefined };
+  }
+
+  // Forget the recorded times, keeping the plan
+  static resetTimes(items: AgendaItem[]): AgendaItem[] {
+    return items.map(({ startMs: _startMs, endMs: _endMs, ...item }) => item);
+  }
+
+  // Time spent on the item so far (running items count up to now)
+  static actualMs(item: AgendaItem, now: number = Date.now()): number | undefined {
+    if (item.startMs === undefined) return undefined;
+    return Math.max(0, (item.endMs ?? now) - item.startMs);
+  }
+
+  static overTimeMs(item: AgendaItem, now: number = Date.now()): number {
+    const actual = this.actualMs(item, now);
+    return actual === undefined ? 0 : Math.max(0, actual - item.plannedMinutes * 60000);
+  }
+
+  static totalPlannedMinutes(items: AgendaItem[]): number {
+    return items.reduce((total, item) => total + item.plannedMinutes, 0);
+  }
+
+  // Convert to/from the PascalCase shape used in *_metadata.json
+  static toJson(items: AgendaItem[] | undefined): AgendaItemJson[] | undefined {
+    const planned = (items || []).filter(item => item.title.trim());
+    if (planned.length === 0) return undefined;
+    return planned.map(item => {
+      const actual = item.endMs !== undefined ? this.actualMs(item) : undefined;
+      return {
+        Title: item.title.trim(),
+        ...(item.presenter ? { Presenter: item.presenter } : {}),
+        PlannedMinutes: item.plannedMinutes,
+        ...(item.startMs !== undefined ? { StartedAt: new Date(item.startMs).toISOString() } : {}),
+        ...(item.endMs !== undefined ? { EndedAt: new Date(item.endMs).toISOString() } : {}),
+        ...(actual !== undefined ? { ActualMinutes: Math.round(actual / 6000) / 10 } : {})
+      };
+    });
+  }
+
+  static fromJson(json: AgendaItemJson[] | undefined): AgendaItem[] {
+    if (!Array.isArray(json)) return [];
+    const toMs = (value: string | undefined) => {
+      const ms = value ? new Date(value).getTime() : NaN;
+      return isNaN(ms) ? undefined : ms;
+    };
+    return json
+      .filter(entry => entry && typeof entry.Title === 'string' && entry.Title.trim())
+      .map(entry => {
+        const startMs = toMs(entry.StartedAt);
+        const endMs = toMs(entry.EndedAt);
+        return this.createItem({
+          title: entry.Title.trim(),
+          ...(entry.Presenter ? { presenter: entry.Presenter } : {}),
+          plannedMinutes: typeof entry.PlannedMinutes === 'number' ? entry.PlannedMinutes : DEFAULT_PLANNED_MINUTES,
+          ...(startMs !== undefined ? { startMs } : {}),
+          ...(endMs !== undefined ? { endMs } : {})
+        });
+      });
+  }
+
+  // "12 phút", "1 giờ 5 phút"
+  static formatMinutes(minutes: number): string {
+    const rounded = Math.round(minutes);
+    if (rounded < 60) return `${rounded} phút`;
+    const hours = Math.floor(rounded / 60);
+    const rest = rounded % 60;
+    return rest > 0 ? `${hours} giờ ${rest} phút` : `${hours} giờ`;
+  }
+}
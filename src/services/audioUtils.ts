@@ -0,0 +1,205 @@
+/**
+ * Audio Utilities
+ * Encoding and decoding helpers shared by the transcription providers
+ */
+
+export class AudioUtils {
+  /**
+   * Convert Blob to a data URL (data:<mime>;base64,...)
+   */
+  static blobToBase64(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onloadend = () => {
+        if (typeof reader.result === 'string') {
+          resolve(reader.result);
+        } else {
+          reject(new Error('Failed to convert blob to base64'));
+        }
+      };
+      reader.onerror = reject;
+      reader.readAsDataURL(blob);
+    });
+  }
+
+  /**
+   * Convert Blob to raw base64 content (no data URL prefix)
+   */
+  static async blobToBase64Content(blob: Blob): Promise<string> {
+    const dataUrl = await this.blobToBase64(blob);
+    return dataUrl.split(',')[1] || '';
+  }
+
+  /**
+   * Get audio duration (seconds) from blob
+   */
+  static getAudioDuration(audioBlob: Blob): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const audio = new Audio();
+      audio.preload = 'metadata';
+
+      audio.onloadedmetadata = () => {
+        URL.revokeObjectURL(audio.src);
+        resolve(audio.duration);
+      };
+
+      audio.onerror = () => {
+        URL.revokeObjectURL(audio.src);
+        reject(new Error('Failed to load audio metadata'));
+      };
+
+      audio.src = URL.createObjectURL(audioBlob);
+    });
+  }
+
+  /**
+   * Convert AudioBuffer (first channel) to a 16kHz mono 16-bit WAV Blob
+   */
+  static audioBufferToWavBlob(audioBuffer: AudioBuffer, sampleRate: number = 16000): Blob {
+    return this.samplesToWavBlob(audioBuffer.getChannelData(0), audioBuffer.sampleRate, sampleRate);
+  }
+
+  /**
+   * Convert raw Float32 samples to a mono 16-bit WAV Blob, resampling if needed
+   */
+  static samplesToWavBlob(samples: Float32Array, fromSampleRate: number, sampleRate: number = 16000): Blob {
+    const numberOfChannels = 1;
+    const format = 1; // PCM
+    const bitDepth = 16;
+
+    // Resample to target rate
+    const resampledData = this.resampleAudio(samples, fromSampleRate, sampleRate);
+
+    // Convert to 16-bit PCM
+    const pcmData = this.floatTo16BitPCM(resampledData);
+
+    // Create WAV header
+    const dataLength = pcmData.length * 2;
+    const buffer = new ArrayBuffer(44 + dataLength);
+    const view = new DataView(buffer);
+
+    // RIFF chunk descriptor
+    this.writeString(view, 0, 'RIFF');
+    view.setUint32(4, 36 + dataLength, true);
+    this.writeString(view, 8, 'WAVE');
+
+    // fmt sub-chunk
+    this.writeString(view, 12, 'fmt ');
+    view.setUint32(16, 16, true); // Subchunk1Size
+    view.setUint16(20, format, true);
+    view.setUint16(22, numberOfChannels, true);
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * numberOfChannels * bitDepth / 8, true); // ByteRate
+    view.setUint16(32, numberOfChannels * bitDepth / 8, true); // BlockAlign
+    view.setUint16(34, bitDepth, true);
+
+    // data sub-chunk
+    this.writeString(view, 36, 'data');
+    view.setUint32(40, dataLength, true);
+
+    // Write PCM samples
+    const offset = 44;
+    for (let i = 0; i < pcmData.length; i++) {
+      view.setInt16(offset + i * 2, pcmData[i], true);
+    }
+
+    return new Blob([buffer], { type: 'audio/wav' });
+  }
+
+  /**
+   * Convert Float32 samples (-1..1) to signed 16-bit PCM
+   */
+  static floatTo16BitPCM(samples: Float32Array): Int16Array {
+    const pcmData = new Int16Array(samples.length);
+    for (let i = 0; i < samples.length; i++) {
+      const s = Math.max(-1, Math.min(1, samples[i]));
+      pcmData[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+    }
+    return pcmData;
+  }
+
+  /**
+   * Simple audio resampling (linear interpolation)
+   */
+  static resampleAudio(buffer: Float32Array, fromSampleRate: number, toSampleRate: number): Float32Array {
+    if (fromSampleRate === toSampleRate) {
+      return buffer;
+    }
+
+    const ratio = fromSampleRate / toSampleRate;
+    const newLength = Math.round(buffer.length / ratio);
+    const result = new Float32Array(newLength);
+
+    for (let i = 0; i < newLength; i++) {
+      const srcIndex = i * ratio;
+      const srcIndexFloor = Math.floor(srcIndex);
+      const srcIndexCeil = Math.min(srcIndexFloor + 1, buffer.length - 1);
+      const t = srcIndex - srcIndexFloor;
+
+      // Linear interpolation
+      result[i] = buffer[srcIndexFloor] * (1 - t) + buffer[srcIndexCeil] * t;
+    }
+
+    return result;
+  }
+
+  /**
+   * Parse a protobuf Duration string ("1.500s") to milliseconds
+   */
+  static parseDurationToMs(value: string | undefined): number {
+    if (!value) return 0;
+    const seconds = parseFloat(value.replace('s', ''));
+    return isNaN(seconds) ? 0 : Math.floor(seconds * 1000);
+  }
+
+  /**
+   * Cut [startMs, endMs) out of an audio blob as a 16kHz mono WAV Blob
+   */
+  static async extractRange(audioBlob: Blob, startMs: number, endMs: number): Promise<Blob> {
+    const arrayBuffer = await audioBlob.arrayBuffer();
+    const audioContext = new AudioContext();
+
+    try {
+      const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
+      const sampleRate = audioBuffer.sampleRate;
+      const samples = audioBuffer.getChannelData(0).slice(
+        Math.max(0, Math.floor((startMs / 1000) * sampleRate)),
+        Math.floor((endMs / 1000) * sampleRate)
+      );
+      return this.samplesToWavBlob(samples, sampleRate, 16000);
+    } finally {
+      audioContext.close();
+    }
+  }
+
+  /**
+   * Cheap content fingerprint (size, type and hash of the first and last MB)
+   * used to recognise the same audio across page reloads
+   */
+  static async fingerprintBlob(blob: Blob): Promise<string> {
+    const sampleSize = 1024 * 1024;
+    const head = await blob.slice(0, sampleSize).arrayBuffer();
+    const tail = await blob.slice(Math.max(0, blob.size - sampleSize)).arrayBuffer();
+
+    const combined = new Uint8Array(head.byteLength + tail.byteLength);
+    combined.set(new Uint8Array(head), 0);
+    combined.set(new Uint8Array(tail), head.byteLength);
+
+    const digest = await crypto.subtle.digest('SHA-256', combined);
+    const hash = Array.from(new Uint8Array(digest))
+      .slice(0, 12)
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('');
+
+    return `${blob.size}-${hash}`;
+  }
+
+  /**
+   * Write string to DataView
+   */
+  private static writeString(view: DataView, offset: number, string: string): void {
+    for (let i = 0; i < string.length; i++) {
+      view.setUint8(offset + i, string.charCodeAt(i));
+    }
+  }
+}
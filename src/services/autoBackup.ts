@@ -1,6 +1,9 @@
 // Auto-backup service using localStorage and IndexedDB
 // Protects against browser crashes and accidental closures
 
+import type { NoteBlock } from '../types/types';
+import { NoteDocument } from './noteDocument';
+
 const STORAGE_KEY = 'meetingNote_autoBackup';
 const DB_NAME = 'MeetingNoteDB';
 const DB_VERSION = 1;
@@ -13,8 +16,10 @@ interface BackupData {
     location: string;
     participants: string;
   };
-  notes: string;
-  timestampMap: [number, number][]; // Array of [position, datetime] for serialization
+  noteBlocks?: NoteBlock[];
+  // Backups written before note blocks: lines joined by "§§§", [position, datetime] pairs
+  notes?: string;
+  timestampMap?: [number, number][];
   recordingStartTime: number;
   hasAudioBlob: boolean;
   isSaved: boolean;
@@ -88,21 +93,16 @@ const deleteAudioBlob = async (): Promise<void> => {
 // Save backup to localStorage and IndexedDB
 export const saveBackup = async (
   meetingInfo: { projectName: string; location: string; participants: string },
-  notes: string,
-  timestampMap: Map<number, number>,
+  noteBlocks: NoteBlock[],
   recordingStartTime: number,
   audioBlob: Blob | null,
   isSaved: boolean
 ): Promise<void> => {
   try {
-    // Convert Map to array for JSON serialization
-    const timestampArray = Array.from(timestampMap.entries());
-    
     const backupData: BackupData = {
       timestamp: Date.now(),
       meetingInfo,
-      notes,
-      timestampMap: timestampArray,
+      noteBlocks,
       recordingStartTime,
       hasAudioBlob: audioBlob !== null,
       isSaved
@@ -125,8 +125,7 @@ export const saveBackup = async (
 // Load backup from localStorage and IndexedDB
 export const loadBackup = async (): Promise<{
   meetingInfo: { projectName: string; location: string; participants: string };
-  notes: string;
-  timestampMap: Map<number, number>;
+  noteBlocks: NoteBlock[];
   recordingStartTime: number;
   audioBlob: Blob | null;
   isSaved: boolean;
@@ -138,8 +137,8 @@ export const loadBackup = async (): Promise<{
     
     const backupData: BackupData = JSON.parse(data);
     
-    // Convert array back to Map
-    const timestampMap = new Map(backupData.timestampMap);
+    const noteBlocks = backupData.noteBlocks
+      || NoteDocument.fromLegacyText(backupData.notes || '', new Map(backupData.timestampMap || []));
     
     // Load audio blob if it exists
     let audioBlob: Blob | null = null;
@@ -149,8 +148,7 @@ export const loadBackup = async (): Promise<{
     
     return {
       meetingInfo: backupData.meetingInfo,
-      notes: backupData.notes,
-      timestampMap,
+      noteBlocks,
       recordingStartTime: backupData.recordingStartTime,
       audioBlob,
       isSaved: backupData.isSaved,
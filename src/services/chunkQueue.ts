@@ -0,0 +1,266 @@
+import type { ChunkState, FileTranscriptionOptions } from '../types/types';
+import { loadJob, saveJob, deleteJob } from './transcriptionJobStore';
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30000;
+
+// Results only stay in the caller's list until the page reloads, so emitted marks are per page session
+const SESSION_ID = `session-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+interface ChunkQueueOptions<T> {
+  chunks: Array<{ startMs: number; endMs: number }>;
+  concurrency: number;
+  maxAttempts?: number;
+  process: (index: number, signal?: AbortSignal) => Promise<T>;
+  // Called in chunk order. `alreadyEmitted`: a resumed run replays the chunk only for context
+  // (e.g. speaker matching); its results must not be emitted again.
+  onChunkDone: (index: number, response: T, alreadyEmitted: boolean) => void;
+  onProgress?: (progress: number) => void;
+  onChunkStatus?: (chunks: ChunkState[]) => void;
+}
+
+/**
+ * Rate limits, server errors and network failures are worth retrying; anything else
+ * (bad request, invalid key...) will fail again
+ */
+const isRetryable = (error: any): boolean => {
+  if (error?.name === 'AbortError') return false;
+  if (error instanceof TypeError) return true; // fetch() network failure
+  const code = String(error?.code || '');
+  return code === '429' || /^5\d\d$/.test(code);
+};
+
+const createAbortError = (): Error => {
+  const error = new Error('Transcription cancelled');
+  error.name = 'AbortError';
+  return error;
+};
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+/**
+ * Pause/resume/cancel handle for one file transcription run
+ */
+export class TranscriptionJobControl {
+  private abortController = new AbortController();
+  private paused: boolean = false;
+  private resumeWaiters: Array<() => void> = [];
+
+  get signal(): AbortSignal {
+    return this.abortController.signal;
+  }
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  public pause(): void {
+    this.paused = true;
+  }
+
+  public resume(): void {
+    this.paused = false;
+    this.resumeWaiters.forEach(resolve => resolve());
+    this.resumeWaiters = [];
+  }
+
+  public cancel(): void {
+    this.abortController.abort();
+    this.resume(); // Release paused workers so they can exit
+  }
+
+  public waitWhilePaused = (): Promise<void> => {
+    if (!this.paused) return Promise.resolve();
+    return new Promise(resolve => this.resumeWaiters.push(resolve));
+  };
+}
+
+/**
+ * Runs the chunks of a long transcription with limited concurrency and retry with backoff.
+ * Progress and raw responses are persisted under `jobId`, so running the same job again
+ * replays finished chunks and only sends the missing ones.
+ */
+export class ChunkQueue<T> {
+  private chunks: ChunkState[] = [];
+  private responses = new Map<number, T>();
+  private nextToEmit: number = 0;
+  private persistChain: Promise<void> = Promise.resolve(); // Keeps snapshots in write order
+
+  constructor(
+    private options: ChunkQueueOptions<T>,
+    private runOptions: FileTranscriptionOptions = {}
+  ) {}
+
+  public async run(): Promise<void> {
+    const { jobId, signal } = this.runOptions;
+    const plan = this.options.chunks;
+
+    // Restore finished chunks from a previous run of the same job
+    const saved = jobId ? await loadJob(jobId) : null;
+    const canResume = saved !== null && saved.chunks.length === plan.length;
+
+    this.chunks = plan.map((chunk, index) => {
+      const previous = canResume ? saved!.chunks[index] : undefined;
+      if (previous?.status === 'done' && saved!.responses[index] !== undefined) {
+        this.responses.set(index, saved!.responses[index]);
+        return { ...previous, index };
+      }
+      return { index, startMs: chunk.startMs, endMs: chunk.endMs, status: 'pending', attempts: 0 };
+    });
+
+    if (canResume && this.responses.size > 0) {
+      console.log(`♻️ Resuming transcription job: ${this.responses.size}/${plan.length} chunks already done`);
+    }
+
+    this.nextToEmit = 0;
+    this.emitReady(false);
+    this.notify();
+
+    const workerCount = Math.max(1, Math.min(this.options.concurrency, plan.length));
+    await Promise.all(Array.from({ length: workerCount }, () => this.worker()));
+
+    // Emit whatever succeeded after a failed chunk, so nothing finished is lost
+    this.emitReady(true);
+    this.persist(); // Remember what was emitted, for a resumed run
+
+    await this.persistChain;
+
+    if (signal?.aborted) {
+      throw createAbortError();
+    }
+
+    const failed = this.chunks.filter(chunk => chunk.status === 'failed');
+    if (failed.length > 0) {
+      const details = failed.map(chunk => `chunk ${chunk.index}: ${chunk.error}`).join('; ');
+      throw new Error(`${failed.length}/${plan.length} chunks failed (run again to retry only these) - ${details}`);
+    }
+
+    if (jobId) await deleteJob(jobId);
+    this.report();
+  }
+
+  private async worker(): Promise<void> {
+    const { signal, waitWhilePaused } = this.runOptions;
+
+    while (!signal?.aborted) {
+      if (waitWhilePaused) await waitWhilePaused();
+      if (signal?.aborted) return;
+
+      const chunk = this.chunks.find(item => item.status === 'pending');
+      if (!chunk) return;
+
+      chunk.status = 'running';
+      chunk.error = undefined;
+      this.notify();
+
+      try {
+        const response = await this.processWithRetry(chunk);
+        chunk.status = 'done';
+        this.responses.set(chunk.index, response);
+        this.emitReady(false);
+      } catch (error: any) {
+        if (signal?.aborted) {
+          chunk.status = 'pending'; // Not a failure; left for a resumed run
+          return;
+        }
+        chunk.status = 'failed';
+        chunk.error = error?.message || String(error);
+        console.error(`❌ Chunk ${chunk.index} failed after ${chunk.attempts} attempts:`, error);
+      }
+
+      this.notify();
+      this.persist();
+    }
+  }
+
+  private async processWithRetry(chunk: ChunkState): Promise<T> {
+    const { signal } = this.runOptions;
+    const maxAttempts = this.options.maxAttempts || DEFAULT_MAX_ATTEMPTS;
+
+    for (;;) {
+      chunk.attempts++;
+      try {
+        return await this.options.process(chunk.index, signal);
+      } catch (error: any) {
+        if (signal?.aborted || !isRetryable(error) || chunk.attempts >= maxAttempts) {
+          throw error;
+        }
+
+        // Exponential backoff with jitter
+        const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** (chunk.attempts - 1), RETRY_MAX_DELAY_MS)
+          + Math.random() * RETRY_BASE_DELAY_MS;
+        console.warn(`⏳ Chunk ${chunk.index} failed (${error.code || error.message}), retrying in ${(delay / 1000).toFixed(1)}s`);
+        chunk.error = error?.message || String(error);
+        this.notify();
+        await sleep(delay, signal);
+      }
+    }
+  }
+
+  /**
+   * Hand finished responses to the caller in chunk order (speaker matching needs order).
+   * With `skipUnfinished`, chunks that didn't finish are skipped instead of blocking.
+   */
+  private emitReady(skipUnfinished: boolean): void {
+    while (this.nextToEmit < this.chunks.length) {
+      const chunk = this.chunks[this.nextToEmit];
+      if (chunk.status === 'done') {
+        const alreadyEmitted = chunk.emittedIn === SESSION_ID && !!this.runOptions.skipEmitted;
+        this.options.onChunkDone(chunk.index, this.responses.get(chunk.index)!, alreadyEmitted);
+        chunk.emittedIn = SESSION_ID;
+      } else if (!skipUnfinished) {
+        break;
+      }
+      this.nextToEmit++;
+    }
+  }
+
+  private notify(): void {
+    this.report();
+    if (this.options.onChunkStatus) {
+      this.options.onChunkStatus(this.chunks.map(chunk => ({ ...chunk })));
+    }
+  }
+
+  private report(): void {
+    if (!this.options.onProgress || this.chunks.length === 0) return;
+    const done = this.chunks.filter(chunk => chunk.status === 'done').length;
+    this.options.onProgress(Math.round(10 + (done / this.chunks.length) * 90));
+  }
+
+  private persist(): void {
+    const { jobId } = this.runOptions;
+    if (!jobId) return;
+
+    const responses: Record<number, T> = {};
+    this.responses.forEach((response, index) => {
+      responses[index] = response;
+    });
+
+    const snapshot = {
+      id: jobId,
+      // A chunk still running when the page closes has to be sent again
+      chunks: this.chunks.map(chunk => (chunk.status === 'running' ? { ...chunk, status: 'pending' as const } : { ...chunk })),
+      responses,
+      updatedAt: Date.now()
+    };
+    this.persistChain = this.persistChain.then(() => saveJob(snapshot));
+  }
+}
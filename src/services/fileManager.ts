@@ -10,6 +10,22 @@ function addTimestampPrefix(fileName: string): string {
   return prefix + fileName;
 }
 
+export interface LoadedProject {
+  meetingInfo: any;
+  metadata: any;
+  audioBlob: Blob | null;
+  projectName: string;
+  transcriptionData?: any;
+}
+
+export interface ProjectFiles {
+  meetingInfo: any | null;
+  metadata: any | null;
+  transcriptionData: any | null;
+  audioBlob: Blob | null;
+  modifiedAt: number;
+}
+
 export class FileManagerService {
   private dirHandle: FileSystemDirectoryHandle | null = null;
   private parentDirHandle: FileSystemDirectoryHandle | null = null; // Parent of loaded project folder
@@ -112,29 +128,20 @@ export class FileManagerService {
     return currentHandle;
   }
 
-  async loadProjectFromFolder(): Promise<{
-    meetingInfo: any;
-    metadata: any;
-    audioBlob: Blob | null;
-    projectName: string;
-    transcriptionData?: any;
-  } | null> {
+  async loadProjectFromFolder(): Promise<LoadedProject | null> {
     try {
       // Let user select a project folder
       const projectHandle = await window.showDirectoryPicker!({
         mode: 'readwrite' // Need write permission to save changes later
       });
       
-      // Save project folder handle as fallback
-      this.projectDirHandle = projectHandle;
-      // console.log('Saved project directory handle:', projectHandle.name);
-      
       // Try to get parent directory handle for saving new versions (preferred location)
+      let parentHandle: FileSystemDirectoryHandle | null = null;
       try {
         // Method 1: Use getParent() if available (Chromium-based browsers)
         if ('getParent' in projectHandle) {
-          this.parentDirHandle = await (projectHandle as any).getParent();
-          // console.log('✓ Got parent directory handle via getParent():', this.parentDirHandle?.name);
+          parentHandle = await (projectHandle as any).getParent();
+          // console.log('✓ Got parent directory handle via getParent():', parentHandle?.name);
         }
         // Method 2: Alternative API (if exists in future)
         else if ('resolve' in projectHandle) {
@@ -143,90 +150,113 @@ export class FileManagerService {
         }
       } catch (err) {
         console.warn('⚠️ Could not get parent directory handle (will use project folder as fallback):', err);
-        this.parentDirHandle = null;
+        parentHandle = null;
       }
 
-      const projectName = projectHandle.name;
-      let meetingInfoData = null;
-      let metadataData = null;
-      let audioBlob = null;
-      let transcriptionData = null;
-
-      // console.log('Loading project from folder:', projectName);
-
-      // Read all files in the project directory
-      for await (const [name, handle] of (projectHandle as any).entries()) {
-        // console.log('Found file:', name, 'kind:', handle.kind);
-        
-        if (handle.kind === 'file') {
-          const file = await handle.getFile();
-          
-          // Load meeting_info.json
-          if (name.includes('meeting_info.json')) {
-            const text = await file.text();
-            meetingInfoData = JSON.parse(text);
-            // console.log('Loaded meeting_info.json:', meetingInfoData);
-          }
-          
-          // Load metadata.json (but not meeting_info.json)
-          if (name.includes('metadata.json') && !name.includes('meeting_info')) {
-            const text = await file.text();
-            metadataData = JSON.parse(text);
-            // console.log('Loaded metadata.json:', metadataData);
-          }
-          
-          // Load transcription.json
-          if (name.includes('transcription.json')) {
-            const text = await file.text();
-            transcriptionData = JSON.parse(text);
-            // console.log('Loaded transcription.json:', {
-            //   totalCount: transcriptionData.transcriptions?.length || 0,
-            //   sample: transcriptionData.transcriptions?.[0] || null,
-            //   speakers: transcriptionData.transcriptions ? 
-            //     [...new Set(transcriptionData.transcriptions.map((t: any) => t.speaker))] : []
-            // });
-          }
-          
-          // Load audio file (.webm, .wav, .mp4, .ogg - support multiple formats)
-          // Load audio file (.webm, .wav, .mp4, .ogg - support multiple formats)
-          if (name.endsWith('.webm') || name.endsWith('.mp3')  || name.endsWith('.wav') || name.endsWith('.mp4') || name.endsWith('.ogg')) {
-            audioBlob = file;
-            // console.log('Loaded audio file:', name, 'size:', audioBlob.size);
-          }
-        }
+      return await this.loadProject(projectHandle, parentHandle);
+    } catch (error: any) {
+      if (error.name === 'AbortError') {
+        return null; // User cancelled
       }
+      throw error;
+    }
+  }
+
+  // Load a project folder that is already known (e.g. picked in the library under the workspace folder)
+  async loadProject(
+    projectHandle: FileSystemDirectoryHandle,
+    parentHandle: FileSystemDirectoryHandle | null
+  ): Promise<LoadedProject> {
+    // Save project folder handle as fallback, parent as the preferred save location
+    this.projectDirHandle = projectHandle;
+    this.parentDirHandle = parentHandle;
+    // console.log('Saved project directory handle:', projectHandle.name);
 
-      if (!meetingInfoData || !metadataData) {
-        throw new Error('Missing required files: meeting_info.json and metadata.json are mandatory');
+    const files = await this.readProjectFolder(projectHandle, true);
+
+    if (!files.meetingInfo || !files.metadata) {
+      throw new Error('Missing required files: meeting_info.json and metadata.json are mandatory');
+    }
+    
+    // Audio file is optional (for notes-only projects)
+    if (!files.audioBlob) {
+      console.warn('No audio file found - this is a notes-only project');
+    }
+
+    return {
+      meetingInfo: files.meetingInfo,
+      metadata: files.metadata,
+      audioBlob: files.audioBlob,
+      projectName: projectHandle.name,
+      transcriptionData: files.transcriptionData
+    };
+  }
+
+  /**
+   * Read the JSON files of a project folder (and its audio when asked).
+   * Missing files come back as null; modifiedAt is the newest JSON file's lastModified.
+   */
+  async readProjectFolder(projectHandle: FileSystemDirectoryHandle, withAudio: boolean): Promise<ProjectFiles> {
+    const files: ProjectFiles = {
+      meetingInfo: null,
+      metadata: null,
+      transcriptionData: null,
+      audioBlob: null,
+      modifiedAt: 0
+    };
+
+    // Read all files in the project directory
+    for await (const [name, handle] of (projectHandle as any).entries()) {
+      if (handle.kind !== 'file') continue;
+
+      const isJson = name.includes('meeting_info.json') || name.includes('metadata.json') || name.includes('transcription.json');
+      // Load audio file (.webm, .wav, .mp4, .ogg - support multiple formats)
+      const isAudio = name.endsWith('.webm') || name.endsWith('.mp3')  || name.endsWith('.wav') || name.endsWith('.mp4') || name.endsWith('.ogg');
+      if (!name.endsWith('.json') && !(isAudio && withAudio)) continue;
+
+      const file: File = await handle.getFile();
+      if (isAudio) {
+        files.audioBlob = file;
+        continue;
       }
-      
-      // Audio file is optional (for notes-only projects)
-      if (!audioBlob) {
-        console.warn('No audio file found - this is a notes-only project');
+
+      // Same rule as getProjectModifiedAt: any JSON file in the folder counts
+      files.modifiedAt = Math.max(files.modifiedAt, file.lastModified);
+      if (!isJson) continue;
+      const data = JSON.parse(await file.text());
+      if (name.includes('meeting_info.json')) {
+        files.meetingInfo = data;
+      } else if (name.includes('metadata.json')) {
+        files.metadata = data;
+      } else {
+        files.transcriptionData = data;
       }
+    }
 
-      // console.log('Loaded project data:', {
-      //   projectName,
-      //   meetingInfo: meetingInfoData,
-      //   metadata: metadataData,
-      //   audioSize: audioBlob?.size || 0,
-      //   hasAudio: audioBlob !== null,
-      //   hasTranscription: transcriptionData !== null
-      // });
-
-      return {
-        meetingInfo: meetingInfoData,
-        metadata: metadataData,
-        audioBlob: audioBlob,
-        projectName: projectName,
-        transcriptionData: transcriptionData
-      };
-    } catch (error: any) {
-      if (error.name === 'AbortError') {
-        return null; // User cancelled
+    return files;
+  }
+
+  // Newest lastModified of the project's JSON files, without reading them
+  async getProjectModifiedAt(projectHandle: FileSystemDirectoryHandle): Promise<number> {
+    let modifiedAt = 0;
+    for await (const [name, handle] of (projectHandle as any).entries()) {
+      if (handle.kind === 'file' && name.endsWith('.json')) {
+        const file: File = await handle.getFile();
+        modifiedAt = Math.max(modifiedAt, file.lastModified);
+      }
+    }
+    return modifiedAt;
+  }
+
+  // Project folders directly under a workspace folder (yyyymmdd_hhmm_Title)
+  async listProjectFolders(rootHandle: FileSystemDirectoryHandle): Promise<FileSystemDirectoryHandle[]> {
+    const folders: FileSystemDirectoryHandle[] = [];
+    for await (const [name, handle] of (rootHandle as any).entries()) {
+      if (handle.kind === 'directory' && name !== 'backup') {
+        folders.push(handle);
       }
-      throw error;
     }
+    return folders;
   }
 
   // Get parent directory handle (for saving changes to loaded project)
@@ -0,0 +1,53 @@
+import type { FindOptions } from '../types/types';
+
+export interface TextMatch {
+  index: number;
+  length: number;
+}
+
+/**
+ * Text search and replacement shared by the find/replace dialog (preview, transcripts)
+ * and NotesEditor (notes, through its undo history)
+ */
+export class FindReplace {
+  /**
+   * Global pattern for the options. Throws SyntaxError for an invalid regular expression.
+   */
+  static buildPattern({ query, matchCase, useRegex }: FindOptions): RegExp | null {
+    if (!query) return null;
+    const source = useRegex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(source, matchCase ? 'gu' : 'giu');
+  }
+
+  static findMatches(text: string, pattern: RegExp): TextMatch[] {
+    const matches: TextMatch[] = [];
+    for (const match of text.matchAll(pattern)) {
+      if (match[0].length === 0) continue; // e.g. /x*/ - nothing to show or replace
+      matches.push({ index: match.index!, length: match[0].length });
+    }
+    return matches;
+  }
+
+  /**
+   * Replace every match. In regex mode the replacement may use $1, $<name>...;
+   * otherwise it is inserted literally.
+   */
+  static replace(text: string, pattern: RegExp, replacement: string, useRegex: boolean): string {
+    return text.replace(pattern, (...args: any[]) => {
+      const match: string = args[0];
+      if (match.length === 0) return match;
+      if (!useRegex) return replacement;
+
+      // args: match, captures..., offset, whole text[, named groups]
+      const groups = typeof args[args.length - 1] === 'object' ? args[args.length - 1] : undefined;
+      const captures: Array<string | undefined> = args.slice(1, groups ? -3 : -2);
+      return replacement.replace(/\$(\$|&|\d{1,2}|<([^>]*)>)/g, (token, key: string, name?: string) => {
+        if (key === '$') return '$';
+        if (key === '&') return match;
+        if (name !== undefined) return groups?.[name] ?? '';
+        const group = Number(key);
+        return group >= 1 && group <= captures.length ? captures[group - 1] ?? '' : token;
+      });
+    });
+  }
+}
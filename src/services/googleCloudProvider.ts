@@ -0,0 +1,544 @@
+import type {
+  FileTranscriptionOptions,
+  SpeechToTextConfig,
+  TranscriptionCallbacks,
+  TranscriptionProvider,
+  TranscriptionResult,
+  TranscriptionWord
+} from '../types/types';
+import { AudioUtils } from './audioUtils';
+import { SpeakerReconciler } from './speakerReconciler';
+import { ChunkQueue } from './chunkQueue';
+import { Languages, DEFAULT_LANGUAGE_CODE, MAX_ALTERNATIVE_LANGUAGES } from './languages';
+import { VoiceActivityDetector } from './voiceActivity';
+import { SilenceTrimmer } from './silenceTrimmer';
+
+const DEFAULT_ENDPOINT = 'https://speech.googleapis.com/v1/speech:recognize';
+
+// Google Cloud API limit: 60 seconds for sync recognize
+const MAX_SYNC_DURATION_SECONDS = 58; // Use 58s to be safe
+const CHUNK_DURATION_SECONDS = 55; // 55 seconds per chunk including the overlap (safe margin)
+const CHUNK_MIN_SECONDS = 30; // Look for a pause to cut at after this much audio
+const CHUNK_OVERLAP_SECONDS = 5; // Heard by both neighbouring chunks, used to match speakers
+const LIVE_MIN_CHUNK_MS = 6000; // End a live chunk at the first pause after this long...
+const LIVE_MAX_CHUNK_MS = 15000; // ...or here if nobody pauses
+const LIVE_OVERLAP_MS = 2000;
+const LIVE_PAUSE_MS = 500; // Silence that counts as a pause for cutting live chunks
+const SEGMENT_PAUSE_MS = 1500; // Silence that starts a new segment
+const FILE_CHUNK_CONCURRENCY = 3;
+
+// One recognised word, normalised from the API response
+interface ParsedGoogleWord {
+  text: string;
+  startMs: number; // Relative to the request audio until placed on the recording timeline
+  endMs: number;
+  confidence: number;
+  speakerTag?: number;
+  resultIndex: number; // Google result the word came from (roughly one sentence)
+  languageCode?: string; // Language Google detected for that result
+}
+
+/**
+ * Google Cloud Speech-to-Text provider (speech:recognize with an API Key)
+ * Live mode sends recordings cut at pauses in speech; files longer than the sync limit
+ * have long silences removed and are split at pauses too. Each chunk also hears a little
+ * past its cut so speakers can be matched across neighbouring chunks.
+ */
+export class GoogleCloudProvider implements TranscriptionProvider {
+  readonly id = 'google-cloud';
+  readonly name = 'Google Cloud Speech-to-Text';
+  readonly description = 'Có phí, độ chính xác cao, hỗ trợ nhận diện người nói.';
+  readonly capabilities = {
+    liveStreaming: true,
+    fileTranscription: true,
+    interimResults: false,
+    speakerDiarization: true,
+    wordTimings: true,
+    requiresApiKey: true,
+    recoversFromErrors: true
+  };
+  readonly configSchema = [
+    {
+      name: 'apiKey' as const,
+      label: 'API Key',
+      type: 'password' as const,
+      required: true,
+      minLength: 20,
+      placeholder: 'Google Cloud API Key',
+      help: 'Lấy API Key từ Google Cloud Console (APIs & Services → Credentials)'
+    },
+    {
+      name: 'apiEndpoint' as const,
+      label: 'API Endpoint',
+      type: 'url' as const,
+      placeholder: DEFAULT_ENDPOINT,
+      help: 'URL của Google Cloud Speech-to-Text API',
+      defaultValue: DEFAULT_ENDPOINT
+    }
+  ];
+
+  private liveRecorders: Set<MediaRecorder> = new Set();
+  private liveTimers: Set<NodeJS.Timeout> = new Set();
+  private liveQueue: Promise<void> = Promise.resolve(); // Keeps chunks in recording order
+  private voiceActivity: VoiceActivityDetector | null = null;
+  private cutLiveChunk: (() => void) | null = null; // Ends the chunk being recorded, set per chunk
+  private speakerReconciler = new SpeakerReconciler();
+  private isTranscribing: boolean = false;
+  private transcriptionIdCounter: number = 0;
+  private transcriptionStartTime: number = 0;
+
+  public isAvailable(config: SpeechToTextConfig): boolean {
+    return !!config.apiKey && config.apiKey.length > 0;
+  }
+
+  /**
+   * Build the speech:recognize request body
+   */
+  private buildRequestBody(
+    config: SpeechToTextConfig,
+    encoding: 'WEBM_OPUS' | 'LINEAR16',
+    sampleRateHertz: number | undefined, // Undefined for WAV: Google reads the rate from the header
+    content: string
+  ): any {
+    const requestBody: any = {
+      config: {
+        encoding,
+        ...(sampleRateHertz !== undefined ? { sampleRateHertz } : {}),
+        languageCode: config.languageCode || DEFAULT_LANGUAGE_CODE,
+        enableAutomaticPunctuation: config.enableAutomaticPunctuation,
+        enableWordTimeOffsets: true,
+        enableWordConfidence: true,
+        model: 'default',
+        useEnhanced: true // Use enhanced model for better accuracy
+      },
+      audio: {
+        content
+      }
+    };
+
+    // Code-switching: Google picks the best matching language per result
+    const alternativeLanguageCodes = (config.alternativeLanguageCodes || [])
+      .filter(code => code !== config.languageCode)
+      .slice(0, MAX_ALTERNATIVE_LANGUAGES);
+    if (alternativeLanguageCodes.length > 0) {
+      requestBody.config.alternativeLanguageCodes = alternativeLanguageCodes;
+    }
+
+    // Vocabulary hints; a speech context carries one boost, so group phrases by boost
+    if (config.phraseHints && config.phraseHints.length > 0) {
+      const contexts = new Map<number | undefined, string[]>();
+      config.phraseHints.forEach((hint) => {
+        contexts.set(hint.boost, [...(contexts.get(hint.boost) || []), hint.phrase]);
+      });
+      requestBody.config.speechContexts = Array.from(contexts.entries()).map(([boost, phrases]) =>
+        boost !== undefined ? { phrases, boost } : { phrases }
+      );
+    }
+
+    // Add speaker diarization config if enabled
+    if (config.enableSpeakerDiarization) {
+      requestBody.config.diarizationConfig = {
+        enableSpeakerDiarization: true,
+        minSpeakerCount: 2,
+        maxSpeakerCount: 6
+      };
+    }
+
+    return requestBody;
+  }
+
+  /**
+   * Send a recognize request; throws with status and body on HTTP errors
+   */
+  private async recognize(config: SpeechToTextConfig, requestBody: any, signal?: AbortSignal): Promise<any> {
+    const endpoint = config.apiEndpoint || DEFAULT_ENDPOINT;
+    const response = await fetch(`${endpoint}?key=${config.apiKey}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(requestBody),
+      signal
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      const error: Error & { code?: string } = new Error(`Google Cloud API error: ${response.status} - ${errorText}`);
+      error.code = String(response.status);
+      throw error;
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Flatten API results into words, offsets relative to the request audio
+   */
+  private parseWords(data: any): ParsedGoogleWord[] {
+    if (!data?.results || !Array.isArray(data.results)) return [];
+
+    const results = data.results.filter((result: any) => result.alternatives && result.alternatives.length > 0);
+
+    // With diarization the last result repeats every word with its speaker tag
+    const diarized = [...results].reverse().find((result: any) =>
+      (result.alternatives[0].words || []).some((word: any) => word.speakerTag !== undefined)
+    );
+    const sources = diarized ? [diarized] : results;
+
+    const words: ParsedGoogleWord[] = [];
+    sources.forEach((result: any, resultIndex: number) => {
+      const alternative = result.alternatives[0];
+      (alternative.words || []).forEach((word: any) => {
+        words.push({
+          text: word.word || '',
+          startMs: AudioUtils.parseDurationToMs(word.startTime),
+          endMs: AudioUtils.parseDurationToMs(word.endTime),
+          confidence: word.confidence || alternative.confidence || 0,
+          speakerTag: word.speakerTag,
+          resultIndex,
+          languageCode: result.languageCode ? Languages.normalize(result.languageCode) : undefined
+        });
+      });
+    });
+
+    return words;
+  }
+
+  /**
+   * Emit one chunk's words as results on the recording timeline.
+   * toRecordingMs places a time within the chunk on the recording (offset, plus removed silence).
+   * Overlaps are split at the cut: this chunk only emits words starting inside [windowStartMs, windowEndMs).
+   */
+  private emitChunkResults(
+    data: any,
+    toRecordingMs: (chunkMs: number) => number,
+    windowStartMs: number,
+    windowEndMs: number,
+    idPrefix: string,
+    callbacks: TranscriptionCallbacks
+  ): void {
+    const words = this.parseWords(data).map(word => ({
+      ...word,
+      startMs: toRecordingMs(word.startMs),
+      endMs: toRecordingMs(word.endMs)
+    }));
+
+    // Match speakers against the previous chunk using all words, including the overlap
+    const speakerLabels = this.speakerReconciler.reconcile(words);
+    const labelOf = (word: ParsedGoogleWord): string =>
+      (word.speakerTag !== undefined && speakerLabels.get(word.speakerTag)) || 'Person1';
+
+    const ownWords = words.filter(word => word.startMs >= windowStartMs && word.startMs < windowEndMs);
+
+    // Split on result boundaries, speaker changes, sentence ends and long pauses
+    const segments: ParsedGoogleWord[][] = [];
+    ownWords.forEach((word, index) => {
+      const previous = ownWords[index - 1];
+      const startsSegment = !previous
+        || previous.resultIndex !== word.resultIndex
+        || previous.speakerTag !== word.speakerTag
+        || /[.?!]$/.test(previous.text)
+        || word.startMs - previous.endMs > SEGMENT_PAUSE_MS;
+
+      if (startsSegment) {
+        segments.push([word]);
+      } else {
+        segments[segments.length - 1].push(word);
+      }
+    });
+
+    segments.forEach((segmentWords) => {
+      const first = segmentWords[0];
+      const last = segmentWords[segmentWords.length - 1];
+      const confidence = segmentWords.reduce((sum, word) => sum + word.confidence, 0) / segmentWords.length;
+
+      const transcriptionResult: TranscriptionResult = {
+        id: `${idPrefix}-${Date.now()}-${this.transcriptionIdCounter++}`,
+        text: segmentWords.map(word => word.text).join(' '),
+        startTime: new Date().toISOString(),
+        endTime: new Date().toISOString(),
+        audioTimeMs: Math.floor(first.startMs),
+        audioEndTimeMs: Math.floor(last.endMs),
+        confidence,
+        speaker: labelOf(first),
+        languageCode: first.languageCode,
+        isFinal: true,
+        isManuallyEdited: false,
+        words: segmentWords.map((word): TranscriptionWord => ({
+          text: word.text,
+          startMs: Math.floor(word.startMs),
+          endMs: Math.floor(word.endMs),
+          confidence: word.confidence,
+          speaker: word.speakerTag !== undefined ? labelOf(word) : undefined
+        }))
+      };
+
+      callbacks.onTranscription(transcriptionResult);
+    });
+  }
+
+  private scheduleLive(callback: () => void, delayMs: number): void {
+    const timer = setTimeout(() => {
+      this.liveTimers.delete(timer);
+      callback();
+    }, delayMs);
+    this.liveTimers.add(timer);
+  }
+
+  /**
+   * Live mode: record overlapping chunks with a fresh MediaRecorder each, so every
+   * upload is a decodable file and its offset from the recording start is known.
+   * Voice activity on the stream decides where one chunk hands over to the next.
+   */
+  public async startLive(
+    stream: MediaStream,
+    config: SpeechToTextConfig,
+    callbacks: TranscriptionCallbacks
+  ): Promise<void> {
+    this.isTranscribing = true;
+    this.transcriptionStartTime = Date.now();
+    this.liveQueue = Promise.resolve();
+    this.speakerReconciler.reset();
+
+    this.voiceActivity = new VoiceActivityDetector({
+      minPauseMs: LIVE_PAUSE_MS,
+      onPause: () => this.cutLiveChunk?.()
+    });
+    this.voiceActivity.start(stream);
+
+    this.recordLiveChunk(stream, config, callbacks, 0);
+  }
+
+  private recordLiveChunk(
+    stream: MediaStream,
+    config: SpeechToTextConfig,
+    callbacks: TranscriptionCallbacks,
+    windowStartMs: number
+  ): void {
+    if (!this.isTranscribing || !stream.active) return;
+
+    const mimeType = MediaRecorder.isTypeSupported('audio/webm;codecs=opus')
+      ? 'audio/webm;codecs=opus'
+      : 'audio/webm';
+    const recorder = new MediaRecorder(stream, {
+      mimeType: mimeType,
+      audioBitsPerSecond: 16000 // Google Cloud prefers 16kHz
+    });
+    const parts: Blob[] = [];
+    const startedAt = Date.now();
+    let chunkOffsetMs = startedAt - this.transcriptionStartTime;
+    let windowEndMs = Infinity; // Set once the next chunk starts
+
+    // Capture starts asynchronously; take the offset when it actually begins
+    recorder.onstart = () => {
+      chunkOffsetMs = Date.now() - this.transcriptionStartTime;
+    };
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) parts.push(event.data);
+    };
+
+    recorder.onstop = () => {
+      this.liveRecorders.delete(recorder);
+      const chunkBlob = new Blob(parts, { type: mimeType });
+      this.liveQueue = this.liveQueue.then(() =>
+        this.sendLiveChunk(chunkBlob, chunkOffsetMs, windowStartMs, windowEndMs, config, callbacks)
+      );
+    };
+
+    recorder.onerror = (event) => {
+      console.error('MediaRecorder error:', event);
+    };
+
+    this.liveRecorders.add(recorder);
+    recorder.start();
+
+    // Hand over to the next chunk at the cut; this one keeps recording the overlap
+    // so both hear the same words, but only emits words that start before the cut
+    let handedOver = false;
+    const handOver = () => {
+      if (handedOver || !this.isTranscribing) return;
+      handedOver = true;
+      windowEndMs = Date.now() - this.transcriptionStartTime;
+      this.recordLiveChunk(stream, config, callbacks, windowEndMs);
+      this.scheduleLive(() => {
+        if (recorder.state !== 'inactive') recorder.stop();
+      }, LIVE_OVERLAP_MS);
+    };
+
+    // Cut at the first pause once the chunk is long enough, or at the limit
+    this.cutLiveChunk = () => {
+      if (Date.now() - startedAt >= LIVE_MIN_CHUNK_MS) handOver();
+    };
+    this.scheduleLive(handOver, LIVE_MAX_CHUNK_MS - LIVE_OVERLAP_MS);
+  }
+
+  /**
+   * Send one live chunk; errors are logged so the recording keeps going
+   */
+  private async sendLiveChunk(
+    audioBlob: Blob,
+    chunkOffsetMs: number,
+    windowStartMs: number,
+    windowEndMs: number,
+    config: SpeechToTextConfig,
+    callbacks: TranscriptionCallbacks
+  ): Promise<void> {
+    try {
+      // Skip if audio is too small (< 0.5 seconds worth)
+      if (audioBlob.size < 1000) {
+        console.warn('⚠️ Audio chunk too small, skipping:', audioBlob.size, 'bytes');
+        return;
+      }
+
+      const content = await AudioUtils.blobToBase64Content(audioBlob);
+      const data = await this.recognize(config, this.buildRequestBody(config, 'WEBM_OPUS', 48000, content));
+
+      this.emitChunkResults(data, ms => chunkOffsetMs + ms, windowStartMs, windowEndMs, 'gcloud', callbacks);
+    } catch (error) {
+      console.error('Failed to send audio to Google Cloud API:', error);
+    }
+  }
+
+  public stopLive(): void {
+    this.isTranscribing = false;
+    this.cutLiveChunk = null;
+
+    if (this.voiceActivity) {
+      this.voiceActivity.stop();
+      this.voiceActivity = null;
+    }
+
+    this.liveTimers.forEach(timer => clearTimeout(timer));
+    this.liveTimers.clear();
+
+    // Stopping flushes the last partial chunks through onstop
+    this.liveRecorders.forEach((recorder) => {
+      if (recorder.state !== 'inactive') {
+        try {
+          recorder.stop();
+        } catch (e) {
+          console.error('Error stopping MediaRecorder:', e);
+        }
+      }
+    });
+  }
+
+  public async transcribeFile(
+    audioBlob: Blob,
+    config: SpeechToTextConfig,
+    callbacks: TranscriptionCallbacks,
+    options: FileTranscriptionOptions = {}
+  ): Promise<void> {
+    const { onProgress } = callbacks;
+    this.transcriptionIdCounter = 0;
+    this.speakerReconciler.reset();
+
+    // Get audio duration first
+    const audioDuration = await AudioUtils.getAudioDuration(audioBlob);
+    console.log(`🎵 Audio duration: ${audioDuration.toFixed(1)}s`);
+
+    if (audioDuration > MAX_SYNC_DURATION_SECONDS) {
+      // For long audio, split into chunks
+      console.log(`⚠️ Audio is ${audioDuration.toFixed(1)}s, splitting into chunks...`);
+      await this.transcribeLongFile(audioBlob, audioDuration, config, callbacks, options);
+      return;
+    }
+
+    // For short audio (< 60s), use normal sync API
+    console.log(`✅ Audio is ${audioDuration.toFixed(1)}s, using sync API`);
+
+    const content = await AudioUtils.blobToBase64Content(audioBlob);
+    if (onProgress) onProgress(10);
+
+    // Recordings are WebM/Opus. WAV may be an extracted range (16kHz) or an imported file at
+    // any rate, so its header gives the sample rate
+    const body = audioBlob.type === 'audio/wav'
+      ? this.buildRequestBody(config, 'LINEAR16', undefined, content)
+      : this.buildRequestBody(config, 'WEBM_OPUS', 48000, content);
+    const data = await this.recognize(config, body, options.signal);
+    if (onProgress) onProgress(80);
+
+    this.emitChunkResults(data, ms => ms, 0, Infinity, 'file', callbacks);
+    if (onProgress) onProgress(100);
+  }
+
+  /**
+   * Transcribe long audio by splitting it at pauses into overlapping chunks, sent through a retrying queue
+   */
+  private async transcribeLongFile(
+    audioBlob: Blob,
+    totalDuration: number,
+    config: SpeechToTextConfig,
+    callbacks: TranscriptionCallbacks,
+    options: FileTranscriptionOptions
+  ): Promise<void> {
+    // Load audio into AudioContext
+    const arrayBuffer = await audioBlob.arrayBuffer();
+    const audioContext = new AudioContext();
+
+    try {
+      const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
+      const sampleRate = audioBuffer.sampleRate;
+      const channelData = audioBuffer.getChannelData(0); // Get first channel
+
+      // Long silences are billed like speech; drop them and map times back through the spans
+      const trimmed = SilenceTrimmer.trim(channelData, sampleRate);
+      const trimmedMs = (trimmed.samples.length / sampleRate) * 1000;
+      const toRecordingMs = (trimmedTimeMs: number) => SilenceTrimmer.toSourceMs(trimmed.spans, trimmedTimeMs);
+      console.log(`✂️ Removed ${(trimmed.removedMs / 1000).toFixed(1)}s of silence (${totalDuration.toFixed(1)}s → ${(trimmedMs / 1000).toFixed(1)}s)`);
+
+      // Cut at pauses; each chunk also hears the start of the next one to match speakers.
+      // Chunk and window times are on the trimmed timeline.
+      const windows = VoiceActivityDetector.planChunks(trimmed.samples, sampleRate, {
+        minMs: CHUNK_MIN_SECONDS * 1000,
+        maxMs: (CHUNK_DURATION_SECONDS - CHUNK_OVERLAP_SECONDS) * 1000
+      });
+      const numChunks = windows.length;
+      const chunks = windows.map(range => ({
+        startMs: range.startMs,
+        endMs: Math.min(range.endMs + CHUNK_OVERLAP_SECONDS * 1000, trimmedMs)
+      }));
+
+      console.log(`📦 Splitting into ${numChunks} chunks at pauses (up to ${CHUNK_DURATION_SECONDS}s each, ${CHUNK_OVERLAP_SECONDS}s overlap)`);
+
+      const queue = new ChunkQueue<any>({
+        // Shown to the user, so on the recording timeline
+        chunks: chunks.map(chunk => ({ startMs: toRecordingMs(chunk.startMs), endMs: toRecordingMs(chunk.endMs) })),
+        concurrency: FILE_CHUNK_CONCURRENCY,
+        process: async (i, signal) => {
+          console.log(`🔄 Processing chunk ${i + 1}/${numChunks}: ${(chunks[i].startMs / 1000).toFixed(1)}s - ${(chunks[i].endMs / 1000).toFixed(1)}s (trimmed)`);
+
+          // Extract chunk samples and convert to 16kHz WAV
+          const chunkSamples = trimmed.samples.slice(
+            Math.floor((chunks[i].startMs / 1000) * sampleRate),
+            Math.floor((chunks[i].endMs / 1000) * sampleRate)
+          );
+          const chunkBlob = AudioUtils.samplesToWavBlob(chunkSamples, sampleRate, 16000);
+          const content = await AudioUtils.blobToBase64Content(chunkBlob);
+
+          return this.recognize(config, this.buildRequestBody(config, 'LINEAR16', 16000, content), signal);
+        },
+        onChunkDone: (i, data, alreadyEmitted) => {
+          // Words in the overlap belong to the chunk that starts at the cut
+          const windowEndMs = i === numChunks - 1 ? Infinity : toRecordingMs(windows[i].endMs);
+          this.emitChunkResults(
+            data,
+            ms => toRecordingMs(chunks[i].startMs + ms),
+            toRecordingMs(windows[i].startMs),
+            windowEndMs,
+            `chunk-${i}`,
+            alreadyEmitted ? { ...callbacks, onTranscription: () => undefined } : callbacks
+          );
+        },
+        onProgress: callbacks.onProgress,
+        onChunkStatus: callbacks.onChunkStatus
+      }, options);
+
+      await queue.run();
+      console.log(`✅ All ${numChunks} chunks transcribed successfully`);
+    } finally {
+      audioContext.close();
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import type { TranscriptionResult } from '../types/types';
+
+export const DEFAULT_LANGUAGE_CODE = 'vi-VN';
+
+// Google accepts at most 3 alternative languages per request
+export const MAX_ALTERNATIVE_LANGUAGES = 3;
+
+// Languages offered in TranscriptionConfig (BCP-47)
+export const LANGUAGE_OPTIONS: Array<{ code: string; label: string }> = [
+  { code: 'vi-VN', label: '🇻🇳 Tiếng Việt (Vietnam)' },
+  { code: 'en-US', label: '🇺🇸 English (US)' },
+  { code: 'en-GB', label: '🇬🇧 English (UK)' },
+  { code: 'ja-JP', label: '🇯🇵 日本語 (Japanese)' },
+  { code: 'ko-KR', label: '🇰🇷 한국어 (Korean)' },
+  { code: 'zh-CN', label: '🇨🇳 中文 (Chinese Simplified)' },
+  { code: 'zh-TW', label: '🇹🇼 中文 (Chinese Traditional)' },
+  { code: 'fr-FR', label: '🇫🇷 Français (French)' },
+  { code: 'de-DE', label: '🇩🇪 Deutsch (German)' },
+  { code: 'es-ES', label: '🇪🇸 Español (Spanish)' }
+];
+
+// Whisper's verbose_json reports the detected language by name
+const WHISPER_LANGUAGE_NAMES: Record<string, string> = {
+  vietnamese: 'vi',
+  english: 'en',
+  japanese: 'ja',
+  korean: 'ko',
+  chinese: 'zh',
+  french: 'fr',
+  german: 'de',
+  spanish: 'es'
+};
+
+export class Languages {
+  /**
+   * Canonical casing: Google returns detected languages lower-cased ("en-us" → "en-US")
+   */
+  static normalize(code: string): string {
+    const [language, region] = code.trim().split(/[-_]/);
+    return region ? `${language.toLowerCase()}-${region.toUpperCase()}` : language.toLowerCase();
+  }
+
+  /**
+   * ISO-639-1 part of a code ("vi-VN" → "vi")
+   */
+  static shortCode(code: string): string {
+    return this.normalize(code).split('-')[0];
+  }
+
+  /**
+   * Compact label for segment tags ("en-US" → "EN")
+   */
+  static tag(code: string): string {
+    return this.shortCode(code).toUpperCase();
+  }
+
+  /**
+   * Language code from Whisper's "language" field (a name like "english", or already a code)
+   */
+  static fromWhisper(language: unknown): string | undefined {
+    if (typeof language !== 'string' || !language.trim()) return undefined;
+    const key = language.trim().toLowerCase();
+    return WHISPER_LANGUAGE_NAMES[key] || (/^[a-z]{2}(-[a-z]{2})?$/.test(key) ? this.normalize(key) : undefined);
+  }
+
+  /**
+   * Distinct short codes of the segments, in first-seen order
+   */
+  static detected(transcriptions: TranscriptionResult[]): string[] {
+    const codes: string[] = [];
+    transcriptions.forEach((item) => {
+      if (!item.languageCode) return;
+      const code = this.shortCode(item.languageCode);
+      if (!codes.includes(code)) codes.push(code);
+    });
+    return codes;
+  }
+
+  /**
+   * Languages of a meeting for the metadata: the configured primary language first,
+   * then anything else the recognizer detected
+   */
+  static collect(primaryCode: string | undefined, transcriptions: TranscriptionResult[]): string[] {
+    const codes = [this.shortCode(primaryCode || DEFAULT_LANGUAGE_CODE)];
+    this.detected(transcriptions).forEach((code) => {
+      if (!codes.includes(code)) codes.push(code);
+    });
+    return codes;
+  }
+}
@@ -0,0 +1,114 @@
+// Persists the meeting library index (and the workspace folder it was built from) in IndexedDB,
+// so the library opens instantly and a rescan only re-reads projects that changed
+
+import type { LibraryMeeting } from './meetingLibrary';
+
+// Separate database so upgrades don't collide with the other stores
+const DB_NAME = 'MeetingNoteLibraryDB';
+const DB_VERSION = 1;
+const MEETING_STORE = 'meetings';
+const SETTINGS_STORE = 'settings';
+const ROOT_KEY = 'rootHandle';
+
+interface StoredLibraryMeeting extends LibraryMeeting {
+  id: string; // `${rootName}/${folderName}`
+  rootName: string;
+}
+
+// Open IndexedDB connection
+const openDB = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+      if (!db.objectStoreNames.contains(MEETING_STORE)) {
+        const store = db.createObjectStore(MEETING_STORE, { keyPath: 'id' });
+        store.createIndex('rootName', 'rootName', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
+        db.createObjectStore(SETTINGS_STORE);
+      }
+    };
+  });
+};
+
+// Indexed meetings of a workspace folder (empty if it was never scanned)
+export const loadLibraryMeetings = async (rootName: string): Promise<LibraryMeeting[]> => {
+  try {
+    const db = await openDB();
+    const stored = await new Promise<StoredLibraryMeeting[]>((resolve, reject) => {
+      const transaction = db.transaction([MEETING_STORE], 'readonly');
+      const request = transaction.objectStore(MEETING_STORE).index('rootName').getAll(rootName);
+
+      request.onsuccess = () => resolve(request.result || []);
+      request.onerror = () => reject(request.error);
+    });
+
+    return stored.map(({ id, rootName: _rootName, ...meeting }) => meeting);
+  } catch (error) {
+    console.error('Failed to load meeting library:', error);
+    return [];
+  }
+};
+
+// Replace the index of a workspace folder (folders that disappeared are dropped)
+export const saveLibraryMeetings = async (rootName: string, meetings: LibraryMeeting[]): Promise<void> => {
+  try {
+    const db = await openDB();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction([MEETING_STORE], 'readwrite');
+      const store = transaction.objectStore(MEETING_STORE);
+
+      const keysRequest = store.index('rootName').getAllKeys(rootName);
+      keysRequest.onsuccess = () => {
+        keysRequest.result.forEach(key => store.delete(key));
+        meetings.forEach(meeting => {
+          const stored: StoredLibraryMeeting = { ...meeting, id: `${rootName}/${meeting.folderName}`, rootName };
+          store.put(stored);
+        });
+      };
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } catch (error) {
+    console.error('Failed to save meeting library:', error);
+  }
+};
+
+// Remember the workspace folder; directory handles can be stored in IndexedDB
+export const saveLibraryRoot = async (handle: FileSystemDirectoryHandle): Promise<void> => {
+  try {
+    const db = await openDB();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction([SETTINGS_STORE], 'readwrite');
+      const request = transaction.objectStore(SETTINGS_STORE).put(handle, ROOT_KEY);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  } catch (error) {
+    console.error('Failed to save library folder:', error);
+  }
+};
+
+// Last workspace folder, or null. Reading it again may still need the user's permission.
+export const loadLibraryRoot = async (): Promise<FileSystemDirectoryHandle | null> => {
+  try {
+    const db = await openDB();
+    return await new Promise<FileSystemDirectoryHandle | null>((resolve, reject) => {
+      const transaction = db.transaction([SETTINGS_STORE], 'readonly');
+      const request = transaction.objectStore(SETTINGS_STORE).get(ROOT_KEY);
+
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(request.error);
+    });
+  } catch (error) {
+    console.error('Failed to load library folder:', error);
+    return null;
+  }
+};
@@ -0,0 +1,173 @@
+import type { FileManagerService, ProjectFiles } from './fileManager';
+import { ProjectSearch, type FoldedText, type SearchEntry, type SearchHit } from './projectSearch';
+
+const MAX_SNIPPETS = 3; // Hits shown per meeting
+
+// What the library keeps of one saved project folder
+export interface LibraryMeeting {
+  folderName: string;
+  title: string;
+  date: string; // yyyy-mm-dd
+  time: string; // hh:mm
+  host: string;
+  attendees: string;
+  location: string;
+  sortKey: string; // yyyymmdd_hhmm, newest first in the list
+  durationMs: number;
+  modifiedAt: number; // Newest JSON file, to skip unchanged folders on rescan
+  segments: Array<Omit<SearchEntry, 'folded' | 'foldedSpeaker'>>; // Notes lines and transcript segments
+}
+
+export interface LibraryIndexEntry {
+  meeting: LibraryMeeting;
+  foldedInfo: string; // Title, host, attendees, location, date
+  entries: SearchEntry[];
+}
+
+export interface LibraryHit {
+  meeting: LibraryMeeting;
+  snippets: SearchHit[];
+  hitCount: number;
+}
+
+/**
+ * Cross-project library over the workspace folder: scans the yyyymmdd_hhmm_Title project
+ * folders, keeps what's needed to list and search them, and searches all of them at once.
+ */
+export class MeetingLibrary {
+  /**
+   * Index every project folder under root. Folders whose JSON files didn't change since
+   * `previous` was built are reused without reading them again.
+   */
+  static async scan(
+    fileManager: FileManagerService,
+    root: FileSystemDirectoryHandle,
+    previous: LibraryMeeting[],
+    onProgress?: (done: number, total: number) => void
+  ): Promise<LibraryMeeting[]> {
+    const previousByFolder = new Map(previous.map(meeting => [meeting.folderName, meeting]));
+    const folders = await fileManager.listProjectFolders(root);
+    const meetings: LibraryMeeting[] = [];
+
+    for (let i = 0; i < folders.length; i++) {
+      const folder = folders[i];
+      try {
+        const cached = previousByFolder.get(folder.name);
+        if (cached && cached.modifiedAt === await fileManager.getProjectModifiedAt(folder)) {
+          meetings.push(cached);
+        } else {
+          const files = await fileManager.readProjectFolder(folder, false);
+          // Only folders saved by the app (meeting info is always written)
+          if (files.meetingInfo) meetings.push(this.fromProjectFiles(folder.name, files));
+        }
+      } catch (error) {
+        console.warn(`⚠️ Skipping library folder ${folder.name}:`, error);
+      }
+      onProgress?.(i + 1, folders.length);
+    }
+
+    return meetings.sort((a, b) => b.sortKey.localeCompare(a.sortKey));
+  }
+
+  static fromProjectFiles(folderName: string, files: ProjectFiles): LibraryMeeting {
+    const info = files.meetingInfo || {};
+    const metadata = files.metadata || {};
+    const segments: LibraryMeeting['segments'] = [];
+
+    const timestamps: any[] = Array.isArray(metadata.Timestamps) ? [...metadata.Timestamps] : [];
+    timestamps.sort((a, b) => a.Index - b.Index).forEach((ts, lineIndex) => {
+      if (!ts.Text?.trim() && !ts.Speaker) return;
+      segments.push({
+        key: `note-${lineIndex}`,
+        source: 'note',
+        lineIndex,
+        text: ts.Text || '',
+        speaker: ts.Speaker || undefined,
+        timeMs: this.parseDuration(ts.StartTime)
+      });
+    });
+
+    const transcriptions: any[] = Array.isArray(files.transcriptionData?.transcriptions)
+      ? files.transcriptionData.transcriptions
+      : [];
+    transcriptions.forEach(item => {
+      segments.push({
+        key: `transcript-${item.id}`,
+        source: 'transcript',
+        transcriptionId: item.id,
+        text: item.text || '',
+        speaker: item.speaker || undefined,
+        timeMs: item.audioTimeMs
+      });
+    });
+
+    // Folder names start with yyyymmdd_hhmm; older folders fall back to the meeting date
+    const prefix = folderName.match(/^(\d{4})(\d{2})(\d{2})_(\d{2})(\d{2})/);
+    const date = info.MeetingDate || (prefix ? `${prefix[1]}-${prefix[2]}-${prefix[3]}` : '');
+    const time = info.MeetingTime || (prefix ? `${prefix[4]}:${prefix[5]}` : '');
+
+    return {
+      folderName,
+      title: info.MeetingTitle || folderName,
+      date,
+      time,
+      host: info.Host || '',
+      attendees: info.Attendees || '',
+      location: info.Location || '',
+      sortKey: prefix ? prefix[0] : `${date.replace(/-/g, '')}_${time.replace(/:/g, '')}`,
+      durationMs: this.parseDuration(metadata.Duration) ?? 0,
+      modifiedAt: files.modifiedAt,
+      segments
+    };
+  }
+
+  // Folded text for searching, built once per load of the library
+  static buildIndex(meetings: LibraryMeeting[]): LibraryIndexEntry[] {
+    return meetings.map(meeting => ({
+      meeting,
+      foldedInfo: ProjectSearch.fold(
+        [meeting.title, meeting.host, meeting.attendees, meeting.location, meeting.date].join(' ')
+      ).value,
+      entries: meeting.segments.map(segment => ProjectSearch.createEntry(segment))
+    }));
+  }
+
+  /**
+   * Meetings containing every word of the query somewhere (details, notes or transcript),
+   * with the first hits in recording order. An empty query lists every meeting.
+   */
+  static search(index: LibraryIndexEntry[], query: string): LibraryHit[] {
+    const terms = ProjectSearch.terms(query);
+    if (terms.length === 0) {
+      return index.map(({ meeting }) => ({ meeting, snippets: [], hitCount: 0 }));
+    }
+
+    const hits: LibraryHit[] = [];
+    for (const { meeting, foldedInfo, entries } of index) {
+      const contains = (folded: FoldedText, speaker: string, term: string) =>
+        folded.value.includes(term) || speaker.includes(term);
+      const matchesAll = terms.every(term =>
+        foldedInfo.includes(term) || entries.some(entry => contains(entry.folded, entry.foldedSpeaker, term))
+      );
+      if (!matchesAll) continue;
+
+      const matching = entries.filter(entry => terms.some(term => contains(entry.folded, entry.foldedSpeaker, term)));
+      const snippets = matching
+        .sort((a, b) => (a.timeMs ?? Infinity) - (b.timeMs ?? Infinity))
+        .slice(0, MAX_SNIPPETS)
+        .map(entry => ({ entry, match: ProjectSearch.firstMatch(entry.folded, terms) }));
+      hits.push({ meeting, snippets, hitCount: matching.length });
+    }
+
+    return hits;
+  }
+
+  // HH:MM:SS.NNNNNNN (7 decimal digits, as saved in metadata) to milliseconds
+  private static parseDuration(value: unknown): number | undefined {
+    const match = typeof value === 'string' ? value.match(/(\d+):(\d+):(\d+)\.(\d+)/) : null;
+    if (!match) return undefined;
+    const fraction = match[4];
+    const ms = fraction.length === 7 ? parseInt(fraction) / 10000 : parseInt(fraction);
+    return parseInt(match[1]) * 3600000 + parseInt(match[2]) * 60000 + parseInt(match[3]) * 1000 + ms;
+  }
+}
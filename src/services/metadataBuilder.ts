@@ -1,20 +1,34 @@
 import type {
   MeetingInfo,
-  MeetingMetadata
+  MeetingMetadata,
+  NoteBlock,
+  NoteLineFormatJson,
+  NoteOutlineJson,
+  NoteTagJson
 } from '../types/types';
+import { SpeakerRegistry } from './speakerRegistry';
+import { PhraseHints } from './phraseHints';
+import { Languages, DEFAULT_LANGUAGE_CODE } from './languages';
+import { NoteTags } from './noteTags';
+import { RichText } from './richText';
+import { NoteDocument } from './noteDocument';
+import { NoteOutline } from './noteOutline';
+import { Agenda } from './agenda';
+
+// DateTime/StartTime/EndTime are left out for lines written without a time
+type TimestampJson = { Index: number; Speaker: string; Text: string; DateTime?: string; StartTime?: string; EndTime?: string; Highlight: boolean; Format?: NoteLineFormatJson } & NoteTagJson & NoteOutlineJson;
 
 export class MetadataBuilder {
   static buildMetadata(
     meetingInfo: MeetingInfo,
-    notes: string,
-    timestampMap: Map<number, number>,
-    speakersMap: Map<number, string>,
+    noteBlocks: NoteBlock[],
     duration: number,
     audioFileName: string,
-    recordingStartTime: number
+    recordingStartTime: number,
+    languages: string[] = [] // ISO-639-1 codes, main language first (see Languages.collect)
   ) {
     // Extract timestamps from notes with proper text content
-    const timestamps = this.extractTimestamps(notes, timestampMap, speakersMap, duration, recordingStartTime);
+    const timestamps = this.extractTimestamps(noteBlocks, duration, recordingStartTime);
 
     // Meeting info JSON (compatible with C# SaveMeetingMetadataToJson)
     const meetingInfoJson: MeetingMetadata = {
@@ -24,18 +38,25 @@ export class MetadataBuilder {
       Location: meetingInfo.location,
       Host: meetingInfo.host,
       Attendees: meetingInfo.attendees,
+      Speakers: SpeakerRegistry.toJson(meetingInfo.speakers),
+      PhraseHints: PhraseHints.toJson(meetingInfo.phraseHints),
       CreatedAt: new Date().toISOString()
     };
 
+    // Agenda with planned vs. actual minutes per item
+    const agendaJson = Agenda.toJson(meetingInfo.agenda);
+
     // Metadata JSON with new structure
     const metadataJson = {
       ProjectName: audioFileName.replace('.wav', ''),
       Model: 'Live Recording',
-      Language: 'vi',
+      Language: languages[0] || Languages.shortCode(DEFAULT_LANGUAGE_CODE),
+      ...(languages.length > 1 ? { Languages: languages } : {}),
       OriginalFileName: audioFileName,
       AudioFileName: audioFileName,
       Duration: this.formatDurationWithMs(duration),
       RecordingStartTime: new Date(recordingStartTime).toISOString(), // Lưu thời điểm bắt đầu ghi âm
+      ...(agendaJson ? { Agenda: agendaJson } : {}),
       Timestamps: timestamps
     };
 
@@ -46,70 +67,82 @@ export class MetadataBuilder {
   }
 
   private static extractTimestamps(
-    notes: string,
-    timestampMap: Map<number, number>,
-    speakersMap: Map<number, string>,
+    noteBlocks: NoteBlock[],
     totalDuration: number,
     recordingStartTime: number
-  ): Array<{ Index: number; Speaker: string; Text: string; DateTime: string; StartTime: string; EndTime: string; Highlight: boolean }> {
-    const timestamps: Array<{ Index: number; Speaker: string; Text: string; DateTime: string; StartTime: string; EndTime: string; Highlight: boolean }> = [];
-    
-    // BLOCK_SEPARATOR is used in NotesEditor to separate lines
-    const BLOCK_SEPARATOR = '§§§';
-    const lines = notes.split(BLOCK_SEPARATOR);
-    
-    // Build map of position to line index
-    const positionToLineIndex = new Map<number, number>();
-    let currentPos = 0;
-    for (let i = 0; i < lines.length; i++) {
-      positionToLineIndex.set(currentPos, i);
-      currentPos += lines[i].length + (i < lines.length - 1 ? BLOCK_SEPARATOR.length : 0);
-    }
-    
-    // Convert timestampMap to array with line indices
-    const lineTimestamps: Array<{ lineIndex: number; datetimeMs: number }> = [];
-    timestampMap.forEach((datetimeMs, position) => {
-      const lineIndex = positionToLineIndex.get(position);
-      if (lineIndex !== undefined) {
-        lineTimestamps.push({ lineIndex, datetimeMs });
-      }
-    });
-    
-    // Sort by datetime
-    lineTimestamps.sort((a, b) => a.datetimeMs - b.datetimeMs);
+  ): TimestampJson[] {
+    const timestamps: TimestampJson[] = [];
+
+    // Every line is saved in document order (keeps the outline); a line ends where the next later one starts
+    const times = noteBlocks
+      .map(block => block.timeMs)
+      .filter((time): time is number => time !== undefined)
+      .sort((a, b) => a - b);
     
     // Generate timestamp entries
-    for (let i = 0; i < lineTimestamps.length; i++) {
-      const { lineIndex, datetimeMs } = lineTimestamps[i];
-      
+    for (const block of noteBlocks) {
       // Get text and speaker for this line
-      const text = lines[lineIndex]?.trim() || '';
-      const speaker = speakersMap.get(lineIndex) || '';
+      const text = block.text.trim();
+      const speaker = block.speaker || '';
       
       // Skip empty lines
       if (!text) continue;
-      
-      // Calculate relative start time from recording start
-      const startTimeMs = recordingStartTime > 0 ? Math.max(0, datetimeMs - recordingStartTime) : 0;
-      
-      // Find next timestamp or use total duration
-      const nextDatetimeMs = i < lineTimestamps.length - 1 ? lineTimestamps[i + 1].datetimeMs : datetimeMs + 3000;
-      const endTimeMs = recordingStartTime > 0 ? Math.min(nextDatetimeMs - recordingStartTime, totalDuration) : startTimeMs + 3000;
+
+      let timeJson = {};
+      if (block.timeMs !== undefined) {
+        const datetimeMs = block.timeMs;
+
+        // Calculate relative start time from recording start
+        const startTimeMs = recordingStartTime > 0 ? Math.max(0, datetimeMs - recordingStartTime) : 0;
+
+        // Find next timestamp or use total duration
+        const nextDatetimeMs = times.find(time => time > datetimeMs) ?? datetimeMs + 3000;
+        const endTimeMs = recordingStartTime > 0 ? Math.min(nextDatetimeMs - recordingStartTime, totalDuration) : startTimeMs + 3000;
+
+        timeJson = {
+          DateTime: new Date(datetimeMs).toISOString(),
+          StartTime: this.formatDurationWithMs(startTimeMs),
+          EndTime: this.formatDurationWithMs(endTimeMs)
+        };
+      }
+
+      // Formatting ranges are relative to the trimmed Text that is saved
+      const leading = block.text.length - block.text.trimStart().length;
+      const formatJson = block.format && RichText.toJson({ ...block.format, spans: RichText.slice(block.format.spans, leading, leading + text.length) });
 
       timestamps.push({
         Index: timestamps.length,
         Speaker: speaker,
         Text: text,
-        DateTime: new Date(datetimeMs).toISOString(),
-        StartTime: this.formatDurationWithMs(startTimeMs),
-        EndTime: this.formatDurationWithMs(endTimeMs),
-        Highlight: false
+        ...timeJson,
+        Highlight: false,
+        ...NoteTags.toJson(block.tag),
+        ...NoteOutline.toJson(block), // Section heading / outline depth
+        ...(formatJson ? { Format: formatJson } : {})
       });
     }
 
     return timestamps;
   }
 
+  /**
+   * Note blocks from the Timestamps of a saved *_metadata.json, one per entry in Index order.
+   * StartTime (relative) plus the recording start gives each block's wall-clock time;
+   * entries without one stay untimed.
+   */
+  static readTimestamps(timestamps: any[], recordingStartTime: number): NoteBlock[] {
+    return [...timestamps]
+      .sort((a, b) => a.Index - b.Index)
+      .map(ts => NoteDocument.createBlock({
+        text: ts.Text || '',
+        speaker: ts.Speaker || undefined,
+        timeMs: ts.StartTime ? recordingStartTime + this.parseDurationWithMs(ts.StartTime) : undefined,
+        tag: NoteTags.fromJson(ts), // Action item / decision / question marker, if any
+        format: RichText.fromJson(ts.Format), // Bold/italic/links and list style, kept next to the plain Text
+        ...NoteOutline.fromJson(ts)
+      }));
+  }
+
   static formatDuration(ms: number): string {
     const totalSeconds = Math.floor(ms / 1000);
     const hours = Math.floor(totalSeconds / 3600);
@@ -134,6 +167,15 @@ export class MetadataBuilder {
       .padStart(2, '0')}:${seconds.toString().padStart(2, '0')}.${milliseconds.toString().padStart(3, '0')}0000`;
   }
 
+  // Parse HH:MM:SS.NNNNNNN (7 decimal digits, as written by formatDurationWithMs) to milliseconds
+  static parseDurationWithMs(value: string | undefined): number {
+    const match = value?.match(/(\d+):(\d+):(\d+)\.(\d+)/);
+    if (!match) return 0;
+    const fraction = match[4];
+    const ms = fraction.length === 7 ? parseInt(fraction) / 10000 : parseInt(fraction);
+    return parseInt(match[1]) * 3600000 + parseInt(match[2]) * 60000 + parseInt(match[3]) * 1000 + ms;
+  }
+
   // Parse timestamp string to milliseconds
   static parseTimestamp(timeStr: string): number {
     const parts = timeStr.match(/(\d{2}):(\d{2}):(\d{2})/);
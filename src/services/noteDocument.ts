@@ -0,0 +1,53 @@
+import type { NoteBlock } from '../types/types';
+
+// Separator of the legacy single-string notes (auto-backups written before note blocks)
+const LEGACY_SEPARATOR = '§§§';
+
+let blockCounter = 0;
+
+/**
+ * The notes as a list of blocks, one per line, each carrying its own speaker, time, tag
+ * and formatting. Blocks are immutable: edits build new blocks and a new list.
+ */
+export class NoteDocument {
+  static createBlock(fields: Partial<Omit<NoteBlock, 'id'>> = {}): NoteBlock {
+    return { id: `note-${Date.now()}-${blockCounter++}`, text: '', ...fields };
+  }
+
+  // A new document starts with one empty line to type in
+  static empty(): NoteBlock[] {
+    return [this.createBlock()];
+  }
+
+  static hasContent(blocks: NoteBlock[]): boolean {
+    return blocks.some(block => block.text.trim().length > 0);
+  }
+
+  static equals(a: NoteBlock[], b: NoteBlock[]): boolean {
+    return a === b || JSON.stringify(a) === JSON.stringify(b);
+  }
+
+  // Position in the recording, when both times are known
+  static audioTimeMs(block: NoteBlock, recordingStartTime: number): number | undefined {
+    return block.timeMs !== undefined && recordingStartTime > 0 ? Math.max(0, block.timeMs - recordingStartTime) : undefined;
+  }
+
+  // Copy of the list with one block changed
+  static update(blocks: NoteBlock[], index: number, changes: Partial<Omit<NoteBlock, 'id'>>): NoteBlock[] {
+    return blocks.map((block, i) => (i === index ? { ...block, ...changes } : block));
+  }
+
+  /**
+   * Blocks from the legacy shape: lines joined by "§§§", with timestamps keyed by the
+   * character position where their line starts
+   */
+  static fromLegacyText(notes: string, timestampMap: Map<number, number>): NoteBlock[] {
+    let position = 0;
+    const blocks = notes.split(LEGACY_SEPARATOR).map(text => {
+      const block = this.createBlock({ text, timeMs: timestampMap.get(position) });
+      position += text.length + LEGACY_SEPARATOR.length;
+      return block;
+    });
+    return blocks;
+  }
+}
@@ -0,0 +1,108 @@
+import type { NoteBlock, NoteOutlineJson, NoteSection } from '../types/types';
+
+// Deepest outline level a line can be indented to
+export const MAX_OUTLINE_DEPTH = 4;
+
+/**
+ * Section headings and indentation of the notes. A heading's section is the run of lines
+ * after it that are indented deeper than the heading itself.
+ */
+export class NoteOutline {
+  static depth(block: NoteBlock | undefined): number {
+    return block?.indent || 0;
+  }
+
+  // Depth of a new line added after the block: the same, or one level under a heading
+  static nextLineDepth(block: NoteBlock | undefined): number {
+    if (!block) return 0;
+    return block.heading ? Math.min(this.depth(block) + 1, MAX_OUTLINE_DEPTH) : this.depth(block);
+  }
+
+  // Index just past the last line nested under blocks[index]
+  static sectionEnd(blocks: NoteBlock[], index: number): number {
+    const depth = this.depth(blocks[index]);
+    let end = index + 1;
+    while (end < blocks.length && this.depth(blocks[end]) > depth) end++;
+    return end;
+  }
+
+  static sections(blocks: NoteBlock[]): NoteSection[] {
+    const sections: NoteSection[] = [];
+    blocks.forEach((block, index) => {
+      if (!block.heading) return;
+      const endIndex = this.sectionEnd(blocks, index);
+      const times = blocks
+        .slice(index, endIndex)
+        .map(item => item.timeMs)
+        .filter((time): time is number => time !== undefined);
+      sections.push({
+        blockId: block.id,
+        index,
+        endIndex,
+        depth: this.depth(block),
+        title: block.text.split('\n')[0].trim(),
+        ...(times.length > 0 ? { startMs: Math.min(...times), endMs: Math.max(...times) } : {})
+      });
+    });
+    return sections;
+  }
+
+  // Lines hidden under a collapsed heading (collapsed = heading block ids)
+  static hiddenIndices(blocks: NoteBlock[], collapsed: Set<string>): Set<number> {
+    const hidden = new Set<number>();
+    blocks.forEach((block, index) => {
+      if (!block.heading || !collapsed.has(block.id) || hidden.has(index)) return;
+      const end = this.sectionEnd(blocks, index);
+      for (let i = index + 1; i < end; i++) hidden.add(i);
+    });
+    return hidden;
+  }
+
+  // Headings whose sections contain the line, outermost first
+  static ancestors(blocks: NoteBlock[], index: number): NoteBlock[] {
+    const ancestors: NoteBlock[] = [];
+    let depth = this.depth(blocks[index]);
+    for (let i = index - 1; i >= 0 && depth > 0; i--) {
+      const candidate = blocks[i];
+      if (this.depth(candidate) < depth) {
+        if (candidate.heading) ancestors.unshift(candidate);
+        depth = this.depth(candidate);
+      }
+    }
+    return ancestors;
+  }
+
+  /**
+   * Indent (delta 1) or outdent (delta -1) a line. A heading takes its whole section along;
+   * a line can go at most one level deeper than the line above it.
+   */
+  static shift(blocks: NoteBlock[], index: number, delta: number): NoteBlock[] {
+    const depth = this.depth(blocks[index]);
+    const maxDepth = index > 0 ? Math.min(this.depth(blocks[index - 1]) + 1, MAX_OUTLINE_DEPTH) : 0;
+    const newDepth = Math.max(0, Math.min(depth + delta, maxDepth));
+    if (newDepth === depth) return blocks;
+
+    const end = blocks[index].heading ? this.sectionEnd(blocks, index) : index + 1;
+    const change = newDepth - depth;
+    return blocks.map((block, i) => {
+      if (i < index || i >= end) return block;
+      const indent = Math.min(this.depth(block) + change, MAX_OUTLINE_DEPTH);
+      return { ...block, indent: indent || undefined };
+    });
+  }
+
+  static toJson(block: NoteBlock): NoteOutlineJson {
+    return {
+      ...(block.heading ? { Heading: true } : {}),
+      ...(block.indent ? { Indent: block.indent } : {})
+    };
+  }
+
+  static fromJson(json: NoteOutlineJson): Pick<NoteBlock, 'heading' | 'indent'> {
+    const indent = Math.max(0, Math.min(Math.floor(Number(json.Indent) || 0), MAX_OUTLINE_DEPTH));
+    return {
+      ...(json.Heading ? { heading: true } : {}),
+      ...(indent ? { indent } : {})
+    };
+  }
+}
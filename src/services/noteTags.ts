@@ -0,0 +1,126 @@
+import type { FollowUpItem, NoteBlock, NoteTag, NoteTagJson, NoteTagKind } from '../types/types';
+import { NoteDocument } from './noteDocument';
+
+export const NOTE_TAG_LABELS: Record<NoteTagKind, string> = {
+  action: 'Việc cần làm',
+  decision: 'Quyết định',
+  question: 'Câu hỏi mở'
+};
+
+export const NOTE_TAG_COLORS: Record<NoteTagKind, string> = {
+  action: '#fa8c16',
+  decision: '#52c41a',
+  question: '#1677ff'
+};
+
+// Speaker-column prefixes, e.g. "AI: Lan 15/3", "QĐ:", "?: Minh"
+const SPEAKER_PREFIXES: Array<[RegExp, NoteTagKind]> = [
+  [/^(ai|todo|action|việc)\s*:\s*/iu, 'action'],
+  [/^(qđ|qd|dec|decision)\s*:\s*/iu, 'decision'],
+  [/^(\?|q|hỏi|question)\s*:\s*/iu, 'question']
+];
+
+// yyyy-mm-dd, or dd/mm[/yyyy] as typed in Vietnam
+const DATE_PATTERN = /(\d{4})-(\d{1,2})-(\d{1,2})|(\d{1,2})[/.](\d{1,2})(?:[/.](\d{2,4}))?/;
+
+const JSON_KINDS: Record<NoteTagKind, NonNullable<NoteTagJson['Tag']>> = {
+  action: 'ActionItem',
+  decision: 'Decision',
+  question: 'Question'
+};
+
+/**
+ * Action items, decisions and open questions marked on notes lines
+ */
+export class NoteTags {
+  /**
+   * Tag typed as a speaker-column prefix. The rest of the column stays the speaker;
+   * for an action item it is also the owner, and a date in it becomes the due date.
+   */
+  static parsePrefix(speaker: string, today: Date = new Date()): { tag: NoteTag; speaker: string } | null {
+    const prefix = SPEAKER_PREFIXES.find(([pattern]) => pattern.test(speaker));
+    if (!prefix) return null;
+
+    const [pattern, kind] = prefix;
+    let rest = speaker.replace(pattern, '');
+    if (kind !== 'action') return { tag: { kind }, speaker: rest.trim() };
+
+    let dueDate: string | undefined;
+    const dateMatch = rest.match(DATE_PATTERN);
+    if (dateMatch) {
+      dueDate = this.toIsoDate(dateMatch, today);
+      if (dueDate) rest = rest.replace(dateMatch[0], '');
+    }
+    const owner = rest.replace(/\s+/g, ' ').trim();
+    return {
+      tag: { kind, ...(owner ? { owner } : {}), ...(dueDate ? { dueDate } : {}) },
+      speaker: owner
+    };
+  }
+
+  // Convert to/from the fields stored on *_metadata.json Timestamps entries
+  static toJson(tag: NoteTag | undefined): NoteTagJson {
+    if (!tag) return {};
+    return {
+      Tag: JSON_KINDS[tag.kind],
+      ...(tag.owner ? { Owner: tag.owner } : {}),
+      ...(tag.dueDate ? { DueDate: tag.dueDate } : {}),
+      ...(tag.done ? { Done: true } : {})
+    };
+  }
+
+  static fromJson(entry: NoteTagJson | undefined): NoteTag | undefined {
+    const kind = (Object.keys(JSON_KINDS) as NoteTagKind[]).find(key => JSON_KINDS[key] === entry?.Tag);
+    if (!entry || !kind) return undefined;
+    return {
+      kind,
+      ...(entry.Owner ? { owner: entry.Owner } : {}),
+      ...(entry.DueDate ? { dueDate: entry.DueDate } : {}),
+      ...(entry.Done ? { done: true } : {})
+    };
+  }
+
+  /**
+   * Tagged lines in notes order, with their text, speaker and time in the recording
+   */
+  static collect(blocks: NoteBlock[], recordingStartTime: number): FollowUpItem[] {
+    const items: FollowUpItem[] = [];
+    blocks.forEach((block, lineIndex) => {
+      if (!block.tag) return;
+      items.push({
+        blockId: block.id,
+        lineIndex,
+        tag: block.tag,
+        text: block.text.trim(),
+        speaker: block.speaker,
+        timeMs: NoteDocument.audioTimeMs(block, recordingStartTime)
+      });
+    });
+    return items;
+  }
+
+  static isOverdue(tag: NoteTag, today: Date = new Date()): boolean {
+    if (tag.kind !== 'action' || tag.done || !tag.dueDate) return false;
+    return tag.dueDate < this.formatIsoDate(today);
+  }
+
+  // yyyy-mm-dd → dd/mm/yyyy
+  static formatDueDate(dueDate: string): string {
+    const [year, month, day] = dueDate.split('-');
+    return `${day}/${month}/${year}`;
+  }
+
+  private static toIsoDate(match: RegExpMatchArray, today: Date): string | undefined {
+    const year = match[1] ? Number(match[1]) : match[6] ? Number(match[6].length === 2 ? `20${match[6]}` : match[6]) : today.getFullYear();
+    const month = Number(match[1] ? match[2] : match[5]);
+    const day = Number(match[1] ? match[3] : match[4]);
+
+    const date = new Date(year, month - 1, day);
+    if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return undefined;
+    return this.formatIsoDate(date);
+  }
+
+  private static formatIsoDate(date: Date): string {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+  }
+}
@@ -0,0 +1,192 @@
+import { saveAs } from 'file-saver';
+import type { MeetingInfo, NoteBlock, NoteTemplate, NoteTemplateJson } from '../types/types';
+import { Agenda } from './agenda';
+import { NoteDocument } from './noteDocument';
+import { NoteOutline } from './noteOutline';
+import { SpeakerRegistry } from './speakerRegistry';
+
+const STORAGE_KEY = 'noteTemplates';
+
+let templateCounter = 0;
+
+/**
+ * Meeting templates kept in localStorage: meeting info defaults, agenda, section headings
+ * and speaker presets to start a recurring meeting from
+ */
+export class NoteTemplates {
+  static load(): NoteTemplate[] {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      if (saved) {
+        const templates = JSON.parse(saved);
+        return Array.isArray(templates) ? templates : [];
+      }
+    } catch (error) {
+      console.error('Failed to load templates:', error);
+    }
+    return [];
+  }
+
+  static save(templates: NoteTemplate[]): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+    } catch (error) {
+      console.error('Failed to save templates:', error);
+    }
+  }
+
+  static createId(): string {
+    return `template-${Date.now()}-${templateCounter++}`;
+  }
+
+  /**
+   * Template from the meeting being set up or recorded: its info, agenda plan,
+   * top-level section headings and named speakers
+   */
+  static fromMeeting(name: string, meetingInfo: MeetingInfo, blocks: NoteBlock[]): NoteTemplate {
+    const agenda = Agenda.resetTimes((meetingInfo.agenda || []).filter(item => item.title.trim()));
+    const headings = blocks
+      .filter(block => block.heading && NoteOutline.depth(block) === 0)
+      .map(block => block.text.split('\n')[0].trim())
+      .filter(Boolean);
+    const speakers = (meetingInfo.speakers || []).filter(profile => profile.name.trim() || profile.role.trim());
+
+    return {
+      id: this.createId(),
+      name: name.trim(),
+      ...(meetingInfo.title.trim() ? { title: meetingInfo.title.trim() } : {}),
+      ...(meetingInfo.location.trim() ? { location: meetingInfo.location.trim() } : {}),
+      ...(meetingInfo.host.trim() ? { host: meetingInfo.host.trim() } : {}),
+      ...(meetingInfo.attendees.trim() ? { attendees: meetingInfo.attendees.trim() } : {}),
+      ...(agenda.length > 0 ? { agenda } : {}),
+      ...(headings.length > 0 ? { headings } : {}),
+      ...(speakers.length > 0 ? { speakers } : {}),
+      updatedAt: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Meeting info for a new meeting from the template. Date and time stay those of the
+   * current setup; the agenda gets fresh items so it can be run again.
+   */
+  static applyToMeetingInfo(template: NoteTemplate, meetingInfo: MeetingInfo): MeetingInfo {
+    return {
+      ...meetingInfo,
+      ...(template.title ? { title: template.title } : {}),
+      ...(template.location ? { location: template.location } : {}),
+      ...(template.host ? { host: template.host } : {}),
+      ...(template.attendees ? { attendees: template.attendees } : {}),
+      agenda: (template.agenda || []).map(({ title, presenter, plannedMinutes }) =>
+        Agenda.createItem({ title, plannedMinutes, ...(presenter ? { presenter } : {}) })
+      ),
+      speakers: template.speakers ? template.speakers.map(profile => ({ ...profile })) : meetingInfo.speakers
+    };
+  }
+
+  /**
+   * Notes to start from: each heading with an empty line under it. The headings get a time
+   * when the first line of their section is written (see NotesEditor).
+   */
+  static createBlocks(template: NoteTemplate): NoteBlock[] {
+    const headings = template.headings || [];
+    if (headings.length === 0) return NoteDocument.empty();
+    return headings.flatMap(title => {
+      const heading = NoteDocument.createBlock({ text: title, heading: true });
+      return [heading, NoteDocument.createBlock({ indent: NoteOutline.nextLineDepth(heading) })];
+    });
+  }
+
+  // Short description for the template list, e.g. "5 mục · 3 tiêu đề · 4 người nói"
+  static summary(template: NoteTemplate): string {
+    const parts: string[] = [];
+    if (template.agenda?.length) parts.push(`${template.agenda.length} mục chương trình`);
+    if (template.headings?.length) parts.push(`${template.headings.length} tiêu đề`);
+    if (template.speakers?.length) parts.push(`${template.speakers.length} người nói`);
+    if (template.attendees) parts.push(`${template.attendees.split(/[,;\n]/).filter(name => name.trim()).length} người tham dự`);
+    return parts.join(' · ') || 'Chỉ có thông tin cuộc họp';
+  }
+
+  // Convert to/from the PascalCase shape used in template files
+  static toJson(template: NoteTemplate): NoteTemplateJson {
+    const agenda = Agenda.toJson(template.agenda);
+    const speakers = SpeakerRegistry.toJson(template.speakers);
+    return {
+      Name: template.name,
+      ...(template.title ? { MeetingTitle: template.title } : {}),
+      ...(template.location ? { Location: template.location } : {}),
+      ...(template.host ? { Host: template.host } : {}),
+      ...(template.attendees ? { Attendees: template.attendees } : {}),
+      ...(agenda ? { Agenda: agenda } : {}),
+      ...(template.headings?.length ? { Headings: template.headings } : {}),
+      ...(speakers ? { Speakers: speakers } : {}),
+      UpdatedAt: template.updatedAt
+    };
+  }
+
+  static fromJson(json: NoteTemplateJson): NoteTemplate | undefined {
+    if (!json || typeof json.Name !== 'string' || !json.Name.trim()) return undefined;
+    const text = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+    const agenda = Agenda.resetTimes(Agenda.fromJson(json.Agenda));
+    const headings = Array.isArray(json.Headings) ? json.Headings.map(text).filter((title): title is string => !!title) : [];
+    const speakers = SpeakerRegistry.fromJson(json.Speakers);
+    const [title, location, host, attendees] = [json.MeetingTitle, json.Location, json.Host, json.Attendees].map(text);
+
+    return {
+      id: this.createId(),
+      name: json.Name.trim(),
+      ...(title ? { title } : {}),
+      ...(location ? { location } : {}),
+      ...(host ? { host } : {}),
+      ...(attendees ? { attendees } : {}),
+      ...(agenda.length > 0 ? { agenda } : {}),
+      ...(headings.length > 0 ? { headings } : {}),
+      ...(speakers.length > 0 ? { speakers } : {}),
+      updatedAt: text(json.UpdatedAt) || new Date().toISOString()
+    };
+  }
+
+  /**
+   * Templates in an imported file: one template, a list, or an export of all templates
+   * ({ Templates: [...] }). Throws when the file holds none.
+   */
+  static parseFile(content: string): NoteTemplate[] {
+    const data = JSON.parse(content);
+    const entries: NoteTemplateJson[] = Array.isArray(data) ? data : Array.isArray(data?.Templates) ? data.Templates : [data];
+    const templates = entries
+      .map(entry => this.fromJson(entry))
+      .filter((template): template is NoteTemplate => template !== undefined);
+    if (templates.length === 0) {
+      throw new Error('File không chứa mẫu cuộc họp hợp lệ');
+    }
+    return templates;
+  }
+
+  /**
+   * Add imported templates; one with the same name as an existing template replaces it
+   */
+  static merge(templates: NoteTemplate[], imported: NoteTemplate[]): NoteTemplate[] {
+    const merged = [...templates];
+    imported.forEach((template) => {
+      const key = template.name.toLowerCase();
+      const index = merged.findIndex(item => item.name.toLowerCase() === key);
+      if (index === -1) {
+        merged.push(template);
+      } else {
+        merged[index] = { ...template, id: merged[index].id };
+      }
+    });
+    return merged;
+  }
+
+  // Download one template, or all of them, as a JSON file
+  static exportFile(templates: NoteTemplate[]): void {
+    const data = templates.length === 1
+      ? this.toJson(templates[0])
+      : { Templates: templates.map(template => this.toJson(template)) };
+    const fileName = templates.length === 1
+      ? `${templates[0].name.replace(/[<>:"/\\|?*\s]+/g, '_')}_template.json`
+      : 'meeting_templates.json';
+    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+    saveAs(blob, fileName);
+  }
+}
@@ -0,0 +1,73 @@
+import type {
+  MeetingMetadata,
+  PhraseHint
+} from '../types/types';
+
+// Google accepts boosts in this range; higher values risk false positives
+const MAX_BOOST = 20;
+
+export class PhraseHints {
+  /**
+   * Parse the editor text: one phrase per line, optional boost after "|"
+   * (e.g. "Kubernetes | 15"). Blank lines and duplicates are dropped.
+   */
+  static parse(text: string): PhraseHint[] {
+    const hints: PhraseHint[] = [];
+    text.split('\n').forEach((line) => {
+      const [phrasePart, boostPart] = line.split('|');
+      const phrase = phrasePart.trim();
+      if (!phrase || this.indexOf(hints, phrase) !== -1) return;
+
+      const boost = boostPart !== undefined ? parseFloat(boostPart) : NaN;
+      hints.push(isNaN(boost) ? { phrase } : { phrase, boost: Math.min(Math.max(boost, 0), MAX_BOOST) });
+    });
+    return hints;
+  }
+
+  static format(hints: PhraseHint[] | undefined): string {
+    return (hints || [])
+      .map(hint => (hint.boost !== undefined ? `${hint.phrase} | ${hint.boost}` : hint.phrase))
+      .join('\n');
+  }
+
+  /**
+   * Global list plus project list; a project entry overrides the global boost for the same phrase
+   */
+  static merge(globalHints: PhraseHint[] | undefined, projectHints: PhraseHint[] | undefined): PhraseHint[] {
+    const merged = [...(globalHints || [])];
+    (projectHints || []).forEach((hint) => {
+      const index = this.indexOf(merged, hint.phrase);
+      if (index === -1) {
+        merged.push(hint);
+      } else {
+        merged[index] = hint;
+      }
+    });
+    return merged;
+  }
+
+  /**
+   * Strongest hints first, for engines that can only take a limited number
+   */
+  static byPriority(hints: PhraseHint[]): PhraseHint[] {
+    return [...hints].sort((a, b) => (b.boost ?? 0) - (a.boost ?? 0));
+  }
+
+  // Convert to/from the PascalCase shape used in *_meeting_info.json
+  static toJson(hints: PhraseHint[] | undefined): MeetingMetadata['PhraseHints'] {
+    if (!hints || hints.length === 0) return undefined;
+    return hints.map(hint => (hint.boost !== undefined ? { Phrase: hint.phrase, Boost: hint.boost } : { Phrase: hint.phrase }));
+  }
+
+  static fromJson(json: MeetingMetadata['PhraseHints']): PhraseHint[] {
+    if (!Array.isArray(json)) return [];
+    return json
+      .filter(entry => entry && typeof entry.Phrase === 'string' && entry.Phrase.trim())
+      .map(entry => (typeof entry.Boost === 'number' ? { phrase: entry.Phrase.trim(), boost: entry.Boost } : { phrase: entry.Phrase.trim() }));
+  }
+
+  private static indexOf(hints: PhraseHint[], phrase: string): number {
+    const key = phrase.trim().toLowerCase();
+    return hints.findIndex(hint => hint.phrase.toLowerCase() === key);
+  }
+}
@@ -0,0 +1,130 @@
+import type { NoteBlock, TranscriptionResult } from '../types/types';
+import type { TextMatch } from './findReplace';
+import { NoteDocument } from './noteDocument';
+
+const MAX_RESULTS = 50;
+
+export interface SearchEntry {
+  key: string; // Unique: `note-${lineIndex}` or `transcript-${id}`
+  source: 'note' | 'transcript';
+  lineIndex?: number; // Notes line
+  transcriptionId?: string;
+  text: string;
+  speaker?: string;
+  timeMs?: number; // Relative to the recording
+  folded: FoldedText;
+  foldedSpeaker: string;
+}
+
+export interface SearchHit {
+  entry: SearchEntry;
+  match: TextMatch | null; // First query term in the text; null when only the speaker matched
+}
+
+export interface FoldedText {
+  value: string;
+  positions: number[]; // Index in the original text of each folded character
+}
+
+/**
+ * Full-text search over the loaded project: notes lines, their speakers and transcription segments.
+ * Matching ignores case and Vietnamese diacritics, so "ngan sach" finds "Ngân sách".
+ */
+export class ProjectSearch {
+  static buildIndex(
+    blocks: NoteBlock[],
+    recordingStartTime: number,
+    transcriptions: TranscriptionResult[]
+  ): SearchEntry[] {
+    const entries: SearchEntry[] = [];
+
+    blocks.forEach((block, lineIndex) => {
+      if (!block.text.trim() && !block.speaker) return;
+
+      entries.push(this.createEntry({
+        key: `note-${block.id}`,
+        source: 'note',
+        lineIndex,
+        text: block.text,
+        speaker: block.speaker,
+        timeMs: NoteDocument.audioTimeMs(block, recordingStartTime)
+      }));
+    });
+
+    transcriptions.filter(item => item.isFinal).forEach(item => {
+      entries.push(this.createEntry({
+        key: `transcript-${item.id}`,
+        source: 'transcript',
+        transcriptionId: item.id,
+        text: item.text,
+        speaker: item.speaker,
+        timeMs: item.audioTimeMs
+      }));
+    });
+
+    return entries;
+  }
+
+  /**
+   * Entries containing every word of the query (in the text or the speaker), in recording order
+   */
+  static search(index: SearchEntry[], query: string): SearchHit[] {
+    const terms = this.terms(query);
+    if (terms.length === 0) return [];
+
+    const hits: SearchHit[] = [];
+    for (const entry of index) {
+      const matchesAll = terms.every(term => entry.folded.value.includes(term) || entry.foldedSpeaker.includes(term));
+      if (!matchesAll) continue;
+      hits.push({ entry, match: this.firstMatch(entry.folded, terms) });
+    }
+
+    // Untimed notes keep their place after the timed results
+    return hits
+      .sort((a, b) => (a.entry.timeMs ?? Infinity) - (b.entry.timeMs ?? Infinity))
+      .slice(0, MAX_RESULTS);
+  }
+
+  // Folded words of a query
+  static terms(query: string): string[] {
+    return this.fold(query).value.split(/\s+/).filter(Boolean);
+  }
+
+  // Where the first of the terms found in the folded text sits in the original text
+  static firstMatch(folded: FoldedText, terms: string[]): TextMatch | null {
+    const term = terms.find(candidate => folded.value.includes(candidate));
+    return term ? this.toOriginal(folded, folded.value.indexOf(term), term.length) : null;
+  }
+
+  static createEntry(fields: Omit<SearchEntry, 'folded' | 'foldedSpeaker'>): SearchEntry {
+    return {
+      ...fields,
+      folded: this.fold(fields.text),
+      foldedSpeaker: fields.speaker ? this.fold(fields.speaker).value : ''
+    };
+  }
+
+  // Lowercase without diacritics, one character at a time so positions map back to the original
+  static fold(text: string): FoldedText {
+    let value = '';
+    const positions: number[] = [];
+    for (let i = 0; i < text.length; i++) {
+      const folded = text[i]
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/[đĐ]/g, 'd')
+        .toLowerCase();
+      for (const char of folded) {
+        value += char;
+        positions.push(i);
+      }
+    }
+    return { value, positions };
+  }
+
+  private static toOriginal(folded: FoldedText, index: number, length: number): TextMatch {
+    const start = folded.positions[index];
+    const end = folded.positions[index + length - 1] + 1;
+    return { index: start, length: end - start };
+  }
+}
@@ -0,0 +1,214 @@
+import type { NoteBlock, NoteLineFormat, NoteLineFormatJson, RichTextSpan } from '../types/types';
+
+// Formatting of one character (or one span)
+type Marks = Omit<RichTextSpan, 'start' | 'end'>;
+
+export type RichTextMark = 'bold' | 'italic';
+
+// A run of text with the same formatting; segments cover the whole line in order
+export interface RichTextSegment extends Marks {
+  text: string;
+  start: number;
+}
+
+/**
+ * Inline formatting (bold, italic, links) and list style of notes lines. The text itself
+ * stays plain; formatting is kept as character ranges next to it.
+ */
+export class RichText {
+  static segments(text: string, spans: RichTextSpan[]): RichTextSegment[] {
+    const segments: RichTextSegment[] = [];
+    let position = 0;
+    for (const span of spans) {
+      const start = Math.min(span.start, text.length);
+      const end = Math.min(span.end, text.length);
+      if (start >= end) continue;
+      if (start > position) segments.push({ text: text.slice(position, start), start: position });
+      const { start: _start, end: _end, ...marks } = span;
+      segments.push({ text: text.slice(start, end), start, ...marks });
+      position = end;
+    }
+    if (position < text.length || segments.length === 0) {
+      segments.push({ text: text.slice(position), start: position });
+    }
+    return segments;
+  }
+
+  // Whether every character of [start, end) has the mark
+  static isMarked(spans: RichTextSpan[], start: number, end: number, mark: RichTextMark): boolean {
+    if (start === end) {
+      // Caret: formatting of the character before it
+      return spans.some(span => span[mark] && span.start < start && start <= span.end);
+    }
+    const marks = this.toMarks(end, spans);
+    for (let i = start; i < end; i++) {
+      if (!marks[i][mark]) return false;
+    }
+    return true;
+  }
+
+  // Add the mark to [start, end), or remove it if the whole range already has it
+  static toggleMark(text: string, spans: RichTextSpan[], start: number, end: number, mark: RichTextMark): RichTextSpan[] {
+    const value = !this.isMarked(spans, start, end, mark);
+    const marks = this.toMarks(text.length, spans);
+    for (let i = start; i < end; i++) {
+      marks[i] = { ...marks[i], [mark]: value || undefined };
+    }
+    return this.fromMarks(marks);
+  }
+
+  // Link [start, end) to url, or unlink it when url is empty
+  static setLink(text: string, spans: RichTextSpan[], start: number, end: number, url?: string): RichTextSpan[] {
+    const marks = this.toMarks(text.length, spans);
+    for (let i = start; i < end; i++) {
+      marks[i] = { ...marks[i], link: url || undefined };
+    }
+    return this.fromMarks(marks);
+  }
+
+  // Link span the caret is in or next to
+  static linkAt(spans: RichTextSpan[], position: number): RichTextSpan | undefined {
+    return spans.find(span => span.link && span.start <= position && position <= span.end);
+  }
+
+  /**
+   * Keep the formatting in place after the text was edited. Only the changed middle part is
+   * touched: typed text takes the bold/italic of the character before it, and stays inside a
+   * link only when typed within it.
+   */
+  static applyEdit(spans: RichTextSpan[], oldText: string, newText: string): RichTextSpan[] {
+    if (spans.length === 0 || oldText === newText) return spans;
+
+    let prefix = 0;
+    while (prefix < oldText.length && prefix < newText.length && oldText[prefix] === newText[prefix]) prefix++;
+    let suffix = 0;
+    while (
+      suffix < oldText.length - prefix && suffix < newText.length - prefix
+      && oldText[oldText.length - 1 - suffix] === newText[newText.length - 1 - suffix]
+    ) suffix++;
+
+    const oldMarks = this.toMarks(oldText.length, spans);
+    const before = oldMarks[prefix - 1];
+    const after = oldMarks[oldText.length - suffix];
+    const inserted: Marks = {
+      bold: before?.bold,
+      italic: before?.italic,
+      link: before?.link && before.link === after?.link ? before.link : undefined
+    };
+
+    return this.fromMarks([
+      ...oldMarks.slice(0, prefix),
+      ...Array.from({ length: newText.length - prefix - suffix }, () => inserted),
+      ...oldMarks.slice(oldText.length - suffix)
+    ]);
+  }
+
+  // Spans of the text between start and end, relative to start
+  static slice(spans: RichTextSpan[], start: number, end: number = Infinity): RichTextSpan[] {
+    return spans
+      .filter(span => span.end > start && span.start < end)
+      .map(span => ({ ...span, start: Math.max(span.start, start) - start, end: Math.min(span.end, end) - start }));
+  }
+
+  // Spans of the two halves when a line is split at `at`
+  static split(spans: RichTextSpan[], at: number): [RichTextSpan[], RichTextSpan[]] {
+    return [this.slice(spans, 0, at), this.slice(spans, at)];
+  }
+
+  // Spans of two lines joined together
+  static concat(left: RichTextSpan[], leftLength: number, right: RichTextSpan[]): RichTextSpan[] {
+    const marks = [
+      ...this.toMarks(leftLength, left),
+      ...this.toMarks(right.reduce((length, span) => Math.max(length, span.end), 0), right)
+    ];
+    return this.fromMarks(marks);
+  }
+
+  // "•" or "1." before each list line; numbering restarts after any other line
+  static listMarkers(blocks: NoteBlock[]): Map<string, string> {
+    const markers = new Map<string, string>();
+    let number = 0;
+    blocks.forEach(block => {
+      const list = block.format?.list;
+      number = list === 'ordered' ? number + 1 : 0;
+      if (list === 'bullet') markers.set(block.id, '•');
+      if (list === 'ordered') markers.set(block.id, `${number}.`);
+    });
+    return markers;
+  }
+
+  static isEmpty(format: NoteLineFormat | undefined): boolean {
+    return !format || (format.spans.length === 0 && !format.list);
+  }
+
+  // Format to store on a block; an empty one is dropped
+  static normalize(format: NoteLineFormat): NoteLineFormat | undefined {
+    return this.isEmpty(format) ? undefined : format;
+  }
+
+  static toJson(format: NoteLineFormat | undefined): NoteLineFormatJson | undefined {
+    if (!format || this.isEmpty(format)) return undefined;
+    return {
+      ...(format.list ? { List: format.list === 'bullet' ? 'Bullet' : 'Ordered' } : {}),
+      ...(format.spans.length > 0
+        ? {
+            Spans: format.spans.map(span => ({
+              Start: span.start,
+              End: span.end,
+              ...(span.bold ? { Bold: true } : {}),
+              ...(span.italic ? { Italic: true } : {}),
+              ...(span.link ? { Link: span.link } : {})
+            }))
+          }
+        : {})
+    };
+  }
+
+  static fromJson(json: NoteLineFormatJson | undefined): NoteLineFormat | undefined {
+    if (!json) return undefined;
+    const format: NoteLineFormat = {
+      spans: (json.Spans || [])
+        .filter(span => span.End > span.Start)
+        .map(span => ({
+          start: span.Start,
+          end: span.End,
+          ...(span.Bold ? { bold: true } : {}),
+          ...(span.Italic ? { italic: true } : {}),
+          ...(span.Link ? { link: span.Link } : {})
+        })),
+      ...(json.List === 'Bullet' ? { list: 'bullet' as const } : json.List === 'Ordered' ? { list: 'ordered' as const } : {})
+    };
+    return this.isEmpty(format) ? undefined : format;
+  }
+
+  private static toMarks(length: number, spans: RichTextSpan[]): Marks[] {
+    const marks: Marks[] = Array.from({ length }, () => ({}));
+    spans.forEach(({ start, end, ...spanMarks }) => {
+      for (let i = start; i < Math.min(end, length); i++) marks[i] = spanMarks;
+    });
+    return marks;
+  }
+
+  // Merge runs of equally formatted characters into spans (unformatted runs are dropped)
+  private static fromMarks(marks: Marks[]): RichTextSpan[] {
+    const spans: RichTextSpan[] = [];
+    const sameMarks = (a: Marks, b: Marks) => !!a.bold === !!b.bold && !!a.italic === !!b.italic && a.link === b.link;
+
+    marks.forEach((mark, i) => {
+      if (!mark.bold && !mark.italic && !mark.link) return;
+      const last = spans[spans.length - 1];
+      if (last && last.end === i && sameMarks(last, mark)) {
+        last.end = i + 1;
+        return;
+      }
+      spans.push({
+        start: i,
+        end: i + 1,
+        ...(mark.bold ? { bold: true } : {}),
+        ...(mark.italic ? { italic: true } : {}),
+        ...(mark.link ? { link: mark.link } : {})
+      });
+    });
+    return spans;
+  }
+}
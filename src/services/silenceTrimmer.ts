@@ -0,0 +1,85 @@
+import { VoiceActivityDetector } from './voiceActivity';
+
+const MIN_SILENCE_MS = 2000; // Shorter gaps are part of normal speech rhythm
+const KEPT_SILENCE_MS = 400; // Left in place of each removed stretch so words stay apart
+
+// One stretch of audio kept after trimming: where it sits in the trimmed and the original audio
+export interface TrimSpan {
+  trimmedStartMs: number;
+  sourceStartMs: number;
+  durationMs: number;
+}
+
+export interface TrimmedAudio {
+  samples: Float32Array;
+  spans: TrimSpan[]; // Offset map, in order; times between spans were removed
+  removedMs: number;
+}
+
+/**
+ * Drops long silences (breaks, gaps between merged recordings) from decoded audio
+ * before it is sent for recognition, and maps times in the trimmed audio back to the original.
+ */
+export class SilenceTrimmer {
+  static trim(samples: Float32Array, sampleRate: number): TrimmedAudio {
+    const totalMs = (samples.length / sampleRate) * 1000;
+    const pauses = VoiceActivityDetector.findPauses(samples, sampleRate, MIN_SILENCE_MS);
+
+    // Keep everything except the middle of each long pause
+    const kept: Array<{ startMs: number; endMs: number }> = [];
+    let cursor = 0;
+    pauses.forEach((pause) => {
+      const cutStartMs = pause.startMs + KEPT_SILENCE_MS / 2;
+      const cutEndMs = Math.min(pause.endMs - KEPT_SILENCE_MS / 2, totalMs);
+      if (cutStartMs > cursor) kept.push({ startMs: cursor, endMs: cutStartMs });
+      cursor = Math.max(cursor, cutEndMs);
+    });
+    if (cursor < totalMs) kept.push({ startMs: cursor, endMs: totalMs });
+
+    const ranges = kept.map(range => ({
+      from: Math.floor((range.startMs / 1000) * sampleRate),
+      to: Math.min(Math.floor((range.endMs / 1000) * sampleRate), samples.length)
+    })).filter(range => range.to > range.from);
+
+    const trimmed = new Float32Array(ranges.reduce((sum, range) => sum + range.to - range.from, 0));
+    const spans: TrimSpan[] = [];
+    let offset = 0;
+    ranges.forEach(({ from, to }) => {
+      trimmed.set(samples.subarray(from, to), offset);
+      spans.push({
+        trimmedStartMs: (offset / sampleRate) * 1000,
+        sourceStartMs: (from / sampleRate) * 1000,
+        durationMs: ((to - from) / sampleRate) * 1000
+      });
+      offset += to - from;
+    });
+
+    return {
+      samples: trimmed,
+      spans,
+      removedMs: ((samples.length - trimmed.length) / sampleRate) * 1000
+    };
+  }
+
+  /**
+   * Position in the original audio of a time in the trimmed audio
+   */
+  static toSourceMs(spans: TrimSpan[], trimmedMs: number): number {
+    if (spans.length === 0) return trimmedMs;
+
+    // Last span starting at or before trimmedMs
+    let low = 0;
+    let high = spans.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (spans[middle].trimmedStartMs <= trimmedMs) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+
+    const span = spans[low];
+    return span.sourceStartMs + (trimmedMs - span.trimmedStartMs);
+  }
+}
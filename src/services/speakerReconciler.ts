@@ -0,0 +1,92 @@
+// A word from one recognised chunk, already placed on the recording timeline
+export interface ReconcilerWord {
+  text: string;
+  startMs: number;
+  endMs: number;
+  speakerTag?: number; // Chunk-local tag from the diarization engine
+}
+
+// Words heard in both chunks must start this close together to count as the same word
+const MATCH_TOLERANCE_MS = 400;
+
+/**
+ * Label shown for a diarized speaker, shared by live and file transcription
+ */
+export const formatSpeakerLabel = (speakerNumber: number): string => `Người ${speakerNumber}`;
+
+const normalizeWord = (text: string): string =>
+  text.toLowerCase().replace(/[.,!?;:"'()…-]/g, '');
+
+/**
+ * Keeps speaker identities stable across independently diarized chunks.
+ * Chunks are recorded with an overlap; words recognised in both chunks vote
+ * for which earlier speaker each new chunk-local tag belongs to.
+ */
+export class SpeakerReconciler {
+  private speakerCount = 0;
+  private previousWords: Array<{ text: string; startMs: number; speaker: number }> = [];
+
+  public reset(): void {
+    this.speakerCount = 0;
+    this.previousWords = [];
+  }
+
+  /**
+   * Map the chunk-local speaker tags of one chunk to recording-wide labels.
+   * Chunks must be passed in recording order.
+   */
+  public reconcile(words: ReconcilerWord[]): Map<number, string> {
+    // votes[tag][speaker] = number of overlapping words that agree
+    const votes = new Map<number, Map<number, number>>();
+    const tags: number[] = [];
+
+    words.forEach((word) => {
+      if (word.speakerTag === undefined) return;
+      if (!tags.includes(word.speakerTag)) tags.push(word.speakerTag);
+
+      const text = normalizeWord(word.text);
+      const match = this.previousWords.find(previous =>
+        previous.text === text && Math.abs(previous.startMs - word.startMs) <= MATCH_TOLERANCE_MS
+      );
+      if (!match) return;
+
+      const tagVotes = votes.get(word.speakerTag) || new Map<number, number>();
+      tagVotes.set(match.speaker, (tagVotes.get(match.speaker) || 0) + 1);
+      votes.set(word.speakerTag, tagVotes);
+    });
+
+    // Greedy one-to-one assignment, strongest agreement first
+    const candidates: Array<{ tag: number; speaker: number; count: number }> = [];
+    votes.forEach((tagVotes, tag) => {
+      tagVotes.forEach((count, speaker) => candidates.push({ tag, speaker, count }));
+    });
+    candidates.sort((a, b) => b.count - a.count);
+
+    const assigned = new Map<number, number>();
+    const usedSpeakers = new Set<number>();
+    candidates.forEach(({ tag, speaker }) => {
+      if (assigned.has(tag) || usedSpeakers.has(speaker)) return;
+      assigned.set(tag, speaker);
+      usedSpeakers.add(speaker);
+    });
+
+    // Tags with no overlap evidence are new speakers
+    tags.forEach((tag) => {
+      if (!assigned.has(tag)) {
+        assigned.set(tag, ++this.speakerCount);
+      }
+    });
+
+    this.previousWords = words
+      .filter(word => word.speakerTag !== undefined)
+      .map(word => ({
+        text: normalizeWord(word.text),
+        startMs: word.startMs,
+        speaker: assigned.get(word.speakerTag!)!
+      }));
+
+    const labels = new Map<number, string>();
+    assigned.forEach((speaker, tag) => labels.set(tag, formatSpeakerLabel(speaker)));
+    return labels;
+  }
+}
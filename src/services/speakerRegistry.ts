@@ -0,0 +1,70 @@
+import type {
+  MeetingMetadata,
+  SpeakerProfile,
+  TranscriptionResult
+} from '../types/types';
+
+// Tag colours assigned to new speakers, in order
+const SPEAKER_COLORS = ['#722ed1', '#13c2c2', '#fa8c16', '#eb2f96', '#52c41a', '#1677ff', '#faad14', '#f5222d'];
+
+export class SpeakerRegistry {
+  /**
+   * Name to show for a speaker (falls back to the diarization label)
+   */
+  static displayName(profile: SpeakerProfile): string {
+    return profile.name.trim() || profile.label;
+  }
+
+  /**
+   * Diarization label of a segment (segments saved before the registry only have `speaker`)
+   */
+  static labelOf(transcription: TranscriptionResult): string {
+    return transcription.speakerLabel || transcription.speaker;
+  }
+
+  static find(speakers: SpeakerProfile[] | undefined, label: string): SpeakerProfile | undefined {
+    return speakers?.find(profile => profile.label === label);
+  }
+
+  static createProfile(label: string, index: number): SpeakerProfile {
+    return {
+      label,
+      name: '',
+      color: SPEAKER_COLORS[index % SPEAKER_COLORS.length],
+      role: ''
+    };
+  }
+
+  /**
+   * Labels seen in transcriptions plus any already registered, in first-seen order
+   */
+  static collectLabels(speakers: SpeakerProfile[] | undefined, transcriptions: TranscriptionResult[]): string[] {
+    const labels: string[] = (speakers || []).map(profile => profile.label);
+    transcriptions.forEach((item) => {
+      const label = this.labelOf(item);
+      if (label && !labels.includes(label)) labels.push(label);
+    });
+    return labels;
+  }
+
+  // Convert to/from the PascalCase shape used in *_meeting_info.json
+  static toJson(speakers: SpeakerProfile[] | undefined): MeetingMetadata['Speakers'] {
+    if (!speakers || speakers.length === 0) return undefined;
+    return speakers.map(profile => ({
+      Label: profile.label,
+      Name: profile.name,
+      Color: profile.color,
+      Role: profile.role
+    }));
+  }
+
+  static fromJson(json: MeetingMetadata['Speakers']): SpeakerProfile[] {
+    if (!Array.isArray(json)) return [];
+    return json.map((entry, index) => ({
+      label: entry.Label || '',
+      name: entry.Name || '',
+      color: entry.Color || SPEAKER_COLORS[index % SPEAKER_COLORS.length],
+      role: entry.Role || ''
+    })).filter(profile => profile.label);
+  }
+}
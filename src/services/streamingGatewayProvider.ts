@@ -0,0 +1,280 @@
+import type {
+  SpeechToTextConfig,
+  TranscriptionCallbacks,
+  TranscriptionProvider,
+  TranscriptionResult,
+  TranscriptionWord
+} from '../types/types';
+import { DEFAULT_LANGUAGE_CODE } from './languages';
+import { formatSpeakerLabel } from './speakerReconciler';
+
+const DEFAULT_ENDPOINT = 'ws://localhost:8765/v1/stream';
+const SAMPLE_RATE = 16000;
+const FRAME_MS = 100;
+const STOP_GRACE_MS = 3000; // How long to wait for the last final results after "stop"
+
+// Served from public/, next to index.html
+const WORKLET_URL = 'pcm-encoder-worklet.js';
+
+/**
+ * Messages the gateway sends (JSON text frames). Times are milliseconds from the first
+ * audio sample of the stream.
+ *
+ *   { "type": "ready" }
+ *   { "type": "partial", "text": "xin chào mọi", "startMs": 1200 }
+ *   { "type": "final", "text": "Xin chào mọi người.", "startMs": 1200, "endMs": 2900,
+ *     "confidence": 0.93, "speaker": "2", "languageCode": "vi-VN",
+ *     "words": [{ "text": "Xin", "startMs": 1200, "endMs": 1450, "confidence": 0.97 }] }
+ *   { "type": "error", "message": "...", "code": "..." }
+ *
+ * Only "type" and "text" are required; everything else is optional.
+ */
+interface GatewayMessage {
+  type: 'ready' | 'partial' | 'final' | 'error';
+  text?: string;
+  startMs?: number;
+  endMs?: number;
+  confidence?: number;
+  speaker?: string;
+  languageCode?: string;
+  words?: Array<{ text: string; startMs: number; endMs: number; confidence?: number }>;
+  message?: string;
+  code?: string;
+}
+
+/**
+ * Streaming provider: microphone audio is encoded to 16kHz PCM in an AudioWorklet and sent
+ * over a WebSocket to a recognition gateway, which answers with partial and final results.
+ *
+ * Client → gateway:
+ *   1. { "type": "start", "sampleRate": 16000, "encoding": "pcm_s16le", "channels": 1,
+ *        "languageCode", "alternativeLanguageCodes", "enableSpeakerDiarization",
+ *        "enableAutomaticPunctuation", "phraseHints", "token" }
+ *   2. Binary frames of raw PCM (100 ms each)
+ *   3. { "type": "stop" } - the gateway sends the remaining finals, then closes
+ *
+ * See scripts/mock-stream-gateway.mjs for a stand-in gateway.
+ */
+export class StreamingGatewayProvider implements TranscriptionProvider {
+  readonly id = 'streaming-gateway';
+  readonly name = 'Streaming Gateway (WebSocket)';
+  readonly description = 'Nhận dạng trực tuyến qua WebSocket tới gateway cục bộ. Độ trễ thấp, có kết quả tạm thời khi đang nói.';
+  readonly capabilities = {
+    liveStreaming: true,
+    fileTranscription: false,
+    interimResults: true,
+    speakerDiarization: true, // If the gateway's engine reports speakers
+    wordTimings: true,
+    requiresApiKey: false,
+    recoversFromErrors: false // A closed connection isn't reopened
+  };
+  readonly configSchema = [
+    {
+      name: 'apiEndpoint' as const,
+      label: 'Gateway URL',
+      type: 'text' as const, // ws:// and wss:// don't pass the http(s) URL rule
+      required: true,
+      placeholder: DEFAULT_ENDPOINT,
+      help: 'Địa chỉ WebSocket của gateway (ws:// hoặc wss://). Chạy thử: npm run mock:stream',
+      defaultValue: DEFAULT_ENDPOINT
+    },
+    {
+      name: 'apiKey' as const,
+      label: 'Token',
+      type: 'password' as const,
+      placeholder: 'Token của gateway (nếu có)',
+      help: 'Gửi trong thông điệp "start"'
+    }
+  ];
+
+  private socket: WebSocket | null = null;
+  private audioContext: AudioContext | null = null;
+  private sourceNode: MediaStreamAudioSourceNode | null = null;
+  private encoderNode: AudioWorkletNode | null = null;
+  private isTranscribing: boolean = false;
+  private transcriptionIdCounter: number = 0;
+  private transcriptionStartTime: number = 0;
+  private utteranceCounter: number = 0; // Partials of one utterance share an id until its final arrives
+  private liveSession: number = 0; // Bumped by stopLive, so a start still connecting knows it was cancelled
+
+  public isAvailable(config: SpeechToTextConfig): boolean {
+    return /^wss?:\/\//.test(config.apiEndpoint || '') && typeof AudioWorkletNode !== 'undefined';
+  }
+
+  public async startLive(
+    stream: MediaStream,
+    config: SpeechToTextConfig,
+    callbacks: TranscriptionCallbacks
+  ): Promise<void> {
+    this.isTranscribing = true;
+    this.transcriptionStartTime = Date.now();
+    this.transcriptionIdCounter = 0;
+    this.utteranceCounter = 0;
+    const session = ++this.liveSession;
+
+    const socket = await this.openSocket(config.apiEndpoint || DEFAULT_ENDPOINT);
+    if (session !== this.liveSession) {
+      // Stopped during the handshake
+      socket.close();
+      return;
+    }
+    this.socket = socket;
+
+    socket.onmessage = (event) => {
+      if (typeof event.data === 'string') this.handleMessage(event.data, callbacks);
+    };
+    socket.onclose = (event) => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.releaseAudio();
+      if (this.isTranscribing) {
+        // Unexpected close: the service falls back to another provider or ends transcription
+        this.isTranscribing = false;
+        const error: Error & { code?: string } = new Error(`Gateway connection closed (${event.code})`);
+        error.code = 'network';
+        if (callbacks.onError) callbacks.onError(error);
+      }
+    };
+
+    socket.send(JSON.stringify({
+      type: 'start',
+      sampleRate: SAMPLE_RATE,
+      encoding: 'pcm_s16le',
+      channels: 1,
+      languageCode: config.languageCode || DEFAULT_LANGUAGE_CODE,
+      alternativeLanguageCodes: config.alternativeLanguageCodes || [],
+      enableSpeakerDiarization: config.enableSpeakerDiarization,
+      enableAutomaticPunctuation: config.enableAutomaticPunctuation,
+      phraseHints: config.phraseHints || [],
+      token: config.apiKey || undefined
+    }));
+
+    try {
+      await this.startEncoder(stream, socket);
+    } catch (error) {
+      this.stopLive();
+      throw error;
+    }
+  }
+
+  public stopLive(): void {
+    this.isTranscribing = false;
+    this.liveSession++;
+    this.releaseAudio();
+
+    const socket = this.socket;
+    if (!socket) return;
+
+    // Ask for the remaining finals; close ourselves if the gateway doesn't
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify({ type: 'stop' }));
+      setTimeout(() => {
+        if (socket.readyState !== WebSocket.CLOSED) socket.close();
+        if (this.socket === socket) this.socket = null;
+      }, STOP_GRACE_MS);
+    } else {
+      socket.close();
+      this.socket = null;
+    }
+  }
+
+  public async transcribeFile(): Promise<void> {
+    throw new Error(`${this.name} only supports live recognition.`);
+  }
+
+  private openSocket(url: string): Promise<WebSocket> {
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(url);
+      socket.binaryType = 'arraybuffer';
+      socket.onopen = () => resolve(socket);
+      socket.onerror = () => reject(new Error(`Cannot connect to streaming gateway at ${url}`));
+    });
+  }
+
+  private async startEncoder(stream: MediaStream, socket: WebSocket): Promise<void> {
+    const audioContext = new AudioContext();
+    this.audioContext = audioContext;
+
+    await audioContext.audioWorklet.addModule(new URL(WORKLET_URL, document.baseURI).href);
+    if (this.audioContext !== audioContext) return; // Stopped while the worklet was loading
+
+    this.sourceNode = audioContext.createMediaStreamSource(stream);
+    this.encoderNode = new AudioWorkletNode(audioContext, 'pcm-encoder', {
+      numberOfOutputs: 0, // Processed without being connected to the speakers
+      processorOptions: { targetSampleRate: SAMPLE_RATE, frameMs: FRAME_MS }
+    });
+    this.encoderNode.port.onmessage = (event: MessageEvent<ArrayBuffer>) => {
+      if (socket.readyState === WebSocket.OPEN) socket.send(event.data);
+    };
+    this.sourceNode.connect(this.encoderNode);
+  }
+
+  private releaseAudio(): void {
+    this.sourceNode?.disconnect();
+    if (this.encoderNode) {
+      this.encoderNode.port.onmessage = null;
+      this.encoderNode.disconnect();
+    }
+    this.audioContext?.close().catch(() => undefined);
+    this.sourceNode = null;
+    this.encoderNode = null;
+    this.audioContext = null;
+  }
+
+  private handleMessage(raw: string, callbacks: TranscriptionCallbacks): void {
+    let message: GatewayMessage;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      console.warn('Ignoring non-JSON gateway message:', raw);
+      return;
+    }
+
+    if (message.type === 'error') {
+      console.error('Streaming gateway error:', message.message);
+      const error: Error & { code?: string } = new Error(message.message || 'Streaming gateway error');
+      error.code = message.code;
+      if (callbacks.onError) callbacks.onError(error);
+      return;
+    }
+
+    if ((message.type !== 'partial' && message.type !== 'final') || !message.text?.trim()) return;
+
+    const isFinal = message.type === 'final';
+    const startMs = message.startMs ?? Date.now() - this.transcriptionStartTime;
+    const endMs = message.endMs;
+
+    const transcriptionResult: TranscriptionResult = {
+      id: isFinal
+        ? `stream-${Date.now()}-${this.transcriptionIdCounter++}`
+        : `stream-interim-${this.utteranceCounter}`,
+      text: message.text.trim(),
+      startTime: new Date(this.transcriptionStartTime + startMs).toISOString(),
+      endTime: new Date(this.transcriptionStartTime + (endMs ?? startMs)).toISOString(),
+      audioTimeMs: Math.floor(startMs),
+      audioEndTimeMs: endMs !== undefined ? Math.floor(endMs) : undefined,
+      confidence: message.confidence ?? 0,
+      speaker: this.speakerOf(message.speaker),
+      languageCode: message.languageCode,
+      isFinal,
+      isManuallyEdited: false,
+      words: isFinal && Array.isArray(message.words)
+        ? message.words.map((word): TranscriptionWord => ({
+            text: word.text,
+            startMs: Math.floor(word.startMs),
+            endMs: Math.floor(word.endMs),
+            confidence: word.confidence ?? 0
+          }))
+        : undefined
+    };
+
+    if (isFinal) this.utteranceCounter++;
+    callbacks.onTranscription(transcriptionResult);
+  }
+
+  // Numeric speaker ids become diarization labels ("Người 2"); names are kept as sent
+  private speakerOf(speaker?: string): string {
+    if (!speaker) return 'Person1';
+    return /^\d+$/.test(speaker) ? formatSpeakerLabel(Number(speaker)) : speaker;
+  }
+}
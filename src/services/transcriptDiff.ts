@@ -0,0 +1,130 @@
+import type { TranscriptionResult } from '../types/types';
+
+export type DiffOp = 'same' | 'added' | 'removed';
+
+export interface DiffToken {
+  op: DiffOp;
+  text: string;
+}
+
+// Segments of two transcript versions covering the same stretch of audio
+export interface AlignedRow {
+  key: string;
+  startMs?: number; // Undefined for segments without audio time (kept in list order at the end)
+  left: TranscriptionResult[];
+  right: TranscriptionResult[];
+}
+
+// Used as the length of segments that don't report an end time
+const DEFAULT_SEGMENT_MS = 3000;
+
+// Above this many word pairs the LCS table gets too big; fall back to "all changed"
+const MAX_DIFF_CELLS = 250000;
+
+export class TranscriptDiff {
+  /**
+   * Word-level diff (LCS). Tokens are compared case- and punctuation-insensitively,
+   * so a file pass that only adds punctuation doesn't light up every word.
+   */
+  static diffWords(oldText: string, newText: string): DiffToken[] {
+    const oldWords = oldText.split(/\s+/).filter(Boolean);
+    const newWords = newText.split(/\s+/).filter(Boolean);
+    const oldKeys = oldWords.map(word => this.normalizeWord(word));
+    const newKeys = newWords.map(word => this.normalizeWord(word));
+
+    if (oldWords.length * newWords.length > MAX_DIFF_CELLS) {
+      return [
+        ...oldWords.map(text => ({ op: 'removed' as const, text })),
+        ...newWords.map(text => ({ op: 'added' as const, text }))
+      ];
+    }
+
+    // lengths[i][j] = LCS length of oldKeys[i..] and newKeys[j..]
+    const lengths: number[][] = Array.from({ length: oldKeys.length + 1 }, () => new Array(newKeys.length + 1).fill(0));
+    for (let i = oldKeys.length - 1; i >= 0; i--) {
+      for (let j = newKeys.length - 1; j >= 0; j--) {
+        lengths[i][j] = oldKeys[i] === newKeys[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    const tokens: DiffToken[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < oldKeys.length && j < newKeys.length) {
+      if (oldKeys[i] === newKeys[j]) {
+        tokens.push({ op: 'same', text: newWords[j] });
+        i++;
+        j++;
+      } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+        tokens.push({ op: 'removed', text: oldWords[i++] });
+      } else {
+        tokens.push({ op: 'added', text: newWords[j++] });
+      }
+    }
+    while (i < oldKeys.length) tokens.push({ op: 'removed', text: oldWords[i++] });
+    while (j < newKeys.length) tokens.push({ op: 'added', text: newWords[j++] });
+
+    return tokens;
+  }
+
+  /**
+   * Pair up the segments of two versions by audio time. Segments whose time spans
+   * overlap (directly or through a chain) end up in the same row.
+   */
+  static alignSegments(left: TranscriptionResult[], right: TranscriptionResult[]): AlignedRow[] {
+    const timed = [
+      ...left.filter(item => item.audioTimeMs !== undefined).map(item => ({ item, side: 'left' as const })),
+      ...right.filter(item => item.audioTimeMs !== undefined).map(item => ({ item, side: 'right' as const }))
+    ].sort((a, b) => a.item.audioTimeMs! - b.item.audioTimeMs!);
+
+    const rows: AlignedRow[] = [];
+    let rowEndMs = -Infinity;
+
+    timed.forEach(({ item, side }) => {
+      const startMs = item.audioTimeMs!;
+      const endMs = Math.max(item.audioEndTimeMs ?? startMs + DEFAULT_SEGMENT_MS, startMs + 1);
+
+      // Touching is not overlapping: a segment starting where the row ends opens a new row
+      if (rows.length === 0 || startMs >= rowEndMs) {
+        rows.push({ key: `t-${startMs}-${rows.length}`, startMs, left: [], right: [] });
+        rowEndMs = endMs;
+      } else {
+        rowEndMs = Math.max(rowEndMs, endMs);
+      }
+      rows[rows.length - 1][side].push(item);
+    });
+
+    // Segments without audio time can only be paired by position
+    const untimedLeft = left.filter(item => item.audioTimeMs === undefined);
+    const untimedRight = right.filter(item => item.audioTimeMs === undefined);
+    for (let i = 0; i < Math.max(untimedLeft.length, untimedRight.length); i++) {
+      rows.push({
+        key: `u-${i}`,
+        left: untimedLeft[i] ? [untimedLeft[i]] : [],
+        right: untimedRight[i] ? [untimedRight[i]] : []
+      });
+    }
+
+    return rows;
+  }
+
+  /**
+   * Text of a row side, for diffing
+   */
+  static joinText(items: TranscriptionResult[]): string {
+    return items.map(item => item.text).join(' ');
+  }
+
+  /**
+   * Same segments with the same text (used to avoid storing a version twice)
+   */
+  static isSameTranscript(a: TranscriptionResult[], b: TranscriptionResult[]): boolean {
+    return a.length === b.length && a.every((item, index) => item.id === b[index].id && item.text === b[index].text);
+  }
+
+  private static normalizeWord(word: string): string {
+    return word.toLowerCase().replace(/[.,!?;:"'()…]/g, '');
+  }
+}
@@ -0,0 +1,50 @@
+import type { AudioRange, TranscriptionResult, TranscriptionWord } from '../types/types';
+
+// Same bands as the confidence tags in TranscriptionPanel
+export const LOW_CONFIDENCE = 0.7;
+export const MEDIUM_CONFIDENCE = 0.9;
+
+const DEFAULT_SEGMENT_MS = 4000; // Played when a segment has no end time
+const SNIPPET_PADDING_MS = 300; // Context around a snippet, so the first and last words are audible
+
+/**
+ * Finds what needs a human check in a transcript and tracks review progress
+ */
+export class TranscriptReview {
+  // Words the recognizer was unsure about (0 = not reported, never flagged)
+  static isLowWord(word: TranscriptionWord, threshold: number): boolean {
+    return word.confidence > 0 && word.confidence < threshold;
+  }
+
+  /**
+   * A final segment that isn't reviewed yet and has a low confidence, or a low-confidence word
+   */
+  static needsReview(item: TranscriptionResult, threshold: number): boolean {
+    if (!item.isFinal || item.isReviewed) return false;
+    if (item.confidence > 0 && item.confidence < threshold) return true;
+    return (item.words || []).some(word => this.isLowWord(word, threshold));
+  }
+
+  /**
+   * Share of final segments marked as reviewed, 0-100
+   */
+  static reviewedPercent(transcriptions: TranscriptionResult[]): number {
+    const finals = transcriptions.filter(item => item.isFinal);
+    if (finals.length === 0) return 0;
+    return Math.round((finals.filter(item => item.isReviewed).length / finals.length) * 100);
+  }
+
+  /**
+   * Audio span to play for a segment, or for one of its words
+   */
+  static snippet(item: TranscriptionResult, word?: TranscriptionWord): AudioRange | null {
+    if (word) {
+      return { startMs: Math.max(0, word.startMs - SNIPPET_PADDING_MS), endMs: word.endMs + SNIPPET_PADDING_MS };
+    }
+    if (item.audioTimeMs === undefined) return null;
+
+    const lastWord = item.words?.[item.words.length - 1];
+    const endMs = item.audioEndTimeMs ?? lastWord?.endMs ?? item.audioTimeMs + DEFAULT_SEGMENT_MS;
+    return { startMs: Math.max(0, item.audioTimeMs - SNIPPET_PADDING_MS), endMs: endMs + SNIPPET_PADDING_MS };
+  }
+}
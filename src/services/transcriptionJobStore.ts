@@ -0,0 +1,109 @@
+// Persists long-file transcription progress in IndexedDB
+// so a reload (or a failed run) only re-sends the chunks that are missing
+
+import type { ChunkState } from '../types/types';
+
+// Separate database so upgrades don't collide with the auto-backup store
+const DB_NAME = 'MeetingNoteTranscriptionDB';
+const DB_VERSION = 1;
+const JOB_STORE = 'chunkJobs';
+
+// Jobs untouched for this long are dropped
+const JOB_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface StoredTranscriptionJob {
+  id: string;
+  chunks: ChunkState[];
+  responses: Record<number, any>; // Raw provider response per finished chunk
+  updatedAt: number;
+}
+
+// One shared connection, opened on first use
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Open IndexedDB connection (or reuse the open one)
+const openDB = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Reopen next time if the browser closes it or another tab upgrades the database
+      db.onclose = () => { dbPromise = null; };
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+      if (!db.objectStoreNames.contains(JOB_STORE)) {
+        db.createObjectStore(JOB_STORE, { keyPath: 'id' });
+      }
+    };
+  });
+  return dbPromise;
+};
+
+// Load a job, or null if it doesn't exist or is too old
+export const loadJob = async (id: string): Promise<StoredTranscriptionJob | null> => {
+  try {
+    const db = await openDB();
+    const job = await new Promise<StoredTranscriptionJob | null>((resolve, reject) => {
+      const transaction = db.transaction([JOB_STORE], 'readonly');
+      const request = transaction.objectStore(JOB_STORE).get(id);
+
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(request.error);
+    });
+
+    if (job && Date.now() - job.updatedAt > JOB_MAX_AGE_MS) {
+      await deleteJob(id);
+      return null;
+    }
+    return job;
+  } catch (error) {
+    console.error('Failed to load transcription job:', error);
+    return null;
+  }
+};
+
+// Save (insert or replace) a job
+export const saveJob = async (job: StoredTranscriptionJob): Promise<void> => {
+  try {
+    const db = await openDB();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction([JOB_STORE], 'readwrite');
+      const request = transaction.objectStore(JOB_STORE).put({ ...job, updatedAt: Date.now() });
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  } catch (error) {
+    console.error('Failed to save transcription job:', error);
+  }
+};
+
+// Delete a finished job
+export const deleteJob = async (id: string): Promise<void> => {
+  try {
+    const db = await openDB();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction([JOB_STORE], 'readwrite');
+      const request = transaction.objectStore(JOB_STORE).delete(id);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  } catch (error) {
+    console.error('Failed to delete transcription job:', error);
+  }
+};
@@ -0,0 +1,205 @@
+import type { AudioRange } from '../types/types';
+
+const FRAME_MS = 30; // Energy is measured over 30 ms frames
+const MIN_SPEECH_RMS = 0.01; // About -40 dBFS; quieter than this is never speech on a live mic
+const MIN_FILE_SPEECH_RMS = 0.003; // Recordings can be normalised quieter than a live mic
+const SPEECH_MARGIN = 3; // Speech must be ~10 dB above the noise floor
+const MIN_SPEECH_MS = 90; // Shorter bursts (clicks, bumps) don't start speech
+
+export interface VoiceActivityOptions {
+  minPauseMs: number; // Silence needed before a pause is reported
+  onSpeechStart?: (atMs: number) => void; // Epoch ms when speech began
+  onPause?: (speechEndMs: number) => void; // Epoch ms when the speech before the pause ended
+}
+
+/**
+ * Energy-based voice activity detection.
+ * Live: follows a MediaStream and reports speech starts and pauses, so segments and
+ * chunks end where people stop talking instead of on fixed timers.
+ * Files: the static helpers find pauses in decoded samples and plan chunk boundaries on them.
+ */
+export class VoiceActivityDetector {
+  private audioContext: AudioContext | null = null;
+  private analyser: AnalyserNode | null = null;
+  private interval: NodeJS.Timeout | null = null;
+  private noiseFloor: number = 0;
+  private speaking: boolean = false;
+  private loudMs: number = 0;
+  private quietMs: number = 0;
+  private lastTick: number = 0;
+  private lastSpeechStart: number | null = null;
+
+  constructor(private options: VoiceActivityOptions) {}
+
+  get isSpeaking(): boolean {
+    return this.speaking;
+  }
+
+  // Epoch ms when the current (or last) stretch of speech began; null before any speech
+  get speechStartedAt(): number | null {
+    return this.lastSpeechStart;
+  }
+
+  public start(stream: MediaStream): void {
+    this.stop();
+
+    const audioContext = new AudioContext();
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 2048; // ~43 ms at 48kHz, enough to cover one frame
+    audioContext.createMediaStreamSource(stream).connect(analyser);
+
+    const samples = new Float32Array(analyser.fftSize);
+    this.audioContext = audioContext;
+    this.analyser = analyser;
+    this.noiseFloor = 0;
+    this.speaking = false;
+    this.loudMs = 0;
+    this.quietMs = 0;
+    this.lastTick = Date.now();
+    this.lastSpeechStart = null;
+
+    this.interval = setInterval(() => {
+      analyser.getFloatTimeDomainData(samples);
+      this.update(VoiceActivityDetector.rms(samples, 0, samples.length));
+    }, FRAME_MS);
+  }
+
+  public stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+    this.analyser?.disconnect();
+    this.audioContext?.close().catch(() => undefined);
+    this.analyser = null;
+    this.audioContext = null;
+    this.speaking = false;
+  }
+
+  private update(rms: number): void {
+    const now = Date.now();
+    const elapsed = now - this.lastTick; // Timers can be throttled; count real time
+    this.lastTick = now;
+
+    // The floor drops quickly to quiet frames and creeps up slowly, so speech doesn't raise it
+    if (this.noiseFloor === 0) {
+      this.noiseFloor = rms;
+    } else if (rms < this.noiseFloor) {
+      this.noiseFloor = this.noiseFloor * 0.8 + rms * 0.2;
+    } else {
+      this.noiseFloor = this.noiseFloor * 0.998 + rms * 0.002;
+    }
+    const threshold = Math.max(MIN_SPEECH_RMS, this.noiseFloor * SPEECH_MARGIN);
+
+    if (rms >= threshold) {
+      this.loudMs += elapsed;
+      this.quietMs = 0;
+      if (!this.speaking && this.loudMs >= MIN_SPEECH_MS) {
+        this.speaking = true;
+        this.lastSpeechStart = now - this.loudMs;
+        this.options.onSpeechStart?.(this.lastSpeechStart);
+      }
+    } else {
+      this.quietMs += elapsed;
+      this.loudMs = 0;
+      if (this.speaking && this.quietMs >= this.options.minPauseMs) {
+        this.speaking = false;
+        this.options.onPause?.(now - this.quietMs);
+      }
+    }
+  }
+
+  /**
+   * Silent stretches of at least minPauseMs in decoded audio
+   */
+  static findPauses(samples: Float32Array, sampleRate: number, minPauseMs: number): AudioRange[] {
+    const energies = this.frameEnergies(samples, sampleRate);
+    const threshold = this.fileThreshold(energies);
+    const pauses: AudioRange[] = [];
+
+    let runStart = -1;
+    for (let frame = 0; frame <= energies.length; frame++) {
+      const quiet = frame < energies.length && energies[frame] < threshold;
+      if (quiet && runStart < 0) runStart = frame;
+      if (!quiet && runStart >= 0) {
+        if ((frame - runStart) * FRAME_MS >= minPauseMs) {
+          pauses.push({ startMs: runStart * FRAME_MS, endMs: frame * FRAME_MS });
+        }
+        runStart = -1;
+      }
+    }
+
+    return pauses;
+  }
+
+  /**
+   * Split decoded audio into consecutive chunks of at most maxMs, cutting in the middle of
+   * the longest pause between minMs and maxMs (or the quietest moment if nobody pauses),
+   * so no word is split across chunks.
+   */
+  static planChunks(
+    samples: Float32Array,
+    sampleRate: number,
+    { minMs, maxMs }: { minMs: number; maxMs: number }
+  ): AudioRange[] {
+    const totalMs = (samples.length / sampleRate) * 1000;
+    const energies = this.frameEnergies(samples, sampleRate);
+    const threshold = this.fileThreshold(energies);
+    const cuts: number[] = [0];
+
+    while (totalMs - cuts[cuts.length - 1] > maxMs) {
+      const chunkStart = cuts[cuts.length - 1];
+      const from = Math.ceil((chunkStart + minMs) / FRAME_MS);
+      const to = Math.min(Math.floor((chunkStart + maxMs) / FRAME_MS), energies.length);
+
+      let bestStart = -1;
+      let bestLength = 0;
+      let quietest = from;
+      let runStart = -1;
+      for (let frame = from; frame < to; frame++) {
+        if (energies[frame] < energies[quietest]) quietest = frame;
+        if (energies[frame] < threshold) {
+          if (runStart < 0) runStart = frame;
+          if (frame - runStart + 1 > bestLength) {
+            bestStart = runStart;
+            bestLength = frame - runStart + 1;
+          }
+        } else {
+          runStart = -1;
+        }
+      }
+
+      const cutFrame = bestLength > 0 ? bestStart + Math.floor(bestLength / 2) : quietest;
+      cuts.push(Math.max(cutFrame * FRAME_MS, chunkStart + FRAME_MS));
+    }
+
+    return cuts.map((startMs, index) => ({
+      startMs,
+      endMs: index < cuts.length - 1 ? cuts[index + 1] : totalMs
+    }));
+  }
+
+  private static frameEnergies(samples: Float32Array, sampleRate: number): Float32Array {
+    const frameLength = Math.max(1, Math.round((sampleRate * FRAME_MS) / 1000));
+    const energies = new Float32Array(Math.ceil(samples.length / frameLength));
+    for (let frame = 0; frame < energies.length; frame++) {
+      energies[frame] = this.rms(samples, frame * frameLength, Math.min((frame + 1) * frameLength, samples.length));
+    }
+    return energies;
+  }
+
+  // Whole-file threshold: above the noise floor (10th percentile), but below the typical speech level
+  private static fileThreshold(energies: Float32Array): number {
+    if (energies.length === 0) return MIN_FILE_SPEECH_RMS;
+    const sorted = Float32Array.from(energies).sort();
+    const noiseFloor = sorted[Math.floor(sorted.length * 0.1)];
+    const speechLevel = sorted[Math.floor(sorted.length * 0.9)];
+    return Math.min(Math.max(noiseFloor * SPEECH_MARGIN, MIN_FILE_SPEECH_RMS), speechLevel * 0.5);
+  }
+
+  private static rms(samples: Float32Array, from: number, to: number): number {
+    let sum = 0;
+    for (let i = from; i < to; i++) sum += samples[i] * samples[i];
+    return to > from ? Math.sqrt(sum / (to - from)) : 0;
+  }
+}
@@ -0,0 +1,414 @@
+import type {
+  FileTranscriptionOptions,
+  SpeechToTextConfig,
+  TranscriptionCallbacks,
+  TranscriptionProvider,
+  TranscriptionResult
+} from '../types/types';
+import { DEFAULT_LANGUAGE_CODE } from './languages';
+import { VoiceActivityDetector } from './voiceActivity';
+
+const SEGMENT_PAUSE_MS = 700; // Silence on the microphone that ends a segment
+const RESULT_LAG_MS = 500; // Recognised text trails the audio; wait for the last words before finalizing
+const MAX_SEGMENT_CHARS = 400; // Safety net for long stretches without any pause
+
+/**
+ * Web Speech API provider
+ * Free, browser-based recognition (Chrome/Edge). No speaker diarization.
+ */
+export class WebSpeechProvider implements TranscriptionProvider {
+  readonly id = 'web-speech';
+  readonly name = 'Web Speech API';
+  readonly description = 'Miễn phí, chạy trên trình duyệt Chrome/Edge. Không hỗ trợ nhận diện người nói.';
+  readonly capabilities = {
+    liveStreaming: true,
+    fileTranscription: true,
+    interimResults: true,
+    speakerDiarization: false,
+    wordTimings: false,
+    requiresApiKey: false,
+    recoversFromErrors: true // Recognition restarts in onend
+  };
+  readonly configSchema = [];
+
+  private recognition: any = null;
+  private isTranscribing: boolean = false;
+  private transcriptionIdCounter: number = 0;
+  private lastInterimText: string = '';
+  private interimResultIndex: number = -1; // Result index the pending interim text belongs to
+  private interimFullText: string = ''; // Whole text of that result, including any part already emitted
+  private forcedResultIndex: number = -1; // Result emitted before the recognizer finished it (pause or length)
+  private forcedText: string = ''; // Its text as emitted; later interims/final only add the words after it
+  private voiceActivity: VoiceActivityDetector | null = null;
+  private pauseTimer: NodeJS.Timeout | null = null;
+  private transcriptionStartTime: number = 0; // Track when transcription started
+  private segmentStartTimeMs: number = 0; // Track when current segment started (for fixed audioTimeMs)
+  private languageCode: string = DEFAULT_LANGUAGE_CODE; // Web Speech recognises a single language
+
+  private static getRecognitionClass(): any {
+    return (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
+  }
+
+  /**
+   * Phrase hints as a JSGF grammar. Only some browsers use grammars (Chrome ignores them),
+   * so this is best effort.
+   */
+  private static applyPhraseHints(recognition: any, config: SpeechToTextConfig): void {
+    const GrammarList = (window as any).SpeechGrammarList || (window as any).webkitSpeechGrammarList;
+    const phrases = (config.phraseHints || [])
+      .map(hint => hint.phrase.replace(/[;|<>=*+()[\]\/"]/g, ' ').trim())
+      .filter(phrase => phrase.length > 0);
+    if (!GrammarList || phrases.length === 0) return;
+
+    try {
+      const grammars = new GrammarList();
+      grammars.addFromString(`#JSGF V1.0; grammar phrases; public <phrase> = ${phrases.join(' | ')} ;`, 1);
+      recognition.grammars = grammars;
+    } catch (error) {
+      console.warn('Speech grammars not supported:', error);
+    }
+  }
+
+  public isAvailable(_config: SpeechToTextConfig): boolean {
+    return !!WebSpeechProvider.getRecognitionClass();
+  }
+
+  /**
+   * Start live recognition. Web Speech API listens to the default microphone itself;
+   * the recorder's stream drives voice activity detection, which decides where segments end.
+   */
+  public async startLive(
+    stream: MediaStream,
+    config: SpeechToTextConfig,
+    callbacks: TranscriptionCallbacks
+  ): Promise<void> {
+    const SpeechRecognition = WebSpeechProvider.getRecognitionClass();
+    if (!SpeechRecognition) {
+      throw new Error('Web Speech API is not available in this browser.');
+    }
+
+    const onTranscription = callbacks.onTranscription;
+
+    this.recognition = new SpeechRecognition();
+    this.recognition.continuous = true;
+    this.recognition.interimResults = true;
+    this.languageCode = config.languageCode || DEFAULT_LANGUAGE_CODE;
+    this.recognition.lang = this.languageCode;
+    this.recognition.maxAlternatives = 1;
+    WebSpeechProvider.applyPhraseHints(this.recognition, config);
+
+    // Reset tracking variables
+    this.isTranscribing = true;
+    this.transcriptionStartTime = Date.now();
+    this.lastInterimText = '';
+    this.interimResultIndex = -1;
+    this.forcedResultIndex = -1;
+    this.segmentStartTimeMs = 0; // Will be set when first text arrives
+
+    // A pause in speech ends the current segment once the recognizer has caught up
+    this.voiceActivity = new VoiceActivityDetector({
+      minPauseMs: SEGMENT_PAUSE_MS,
+      onPause: () => {
+        if (this.pauseTimer) clearTimeout(this.pauseTimer);
+        this.pauseTimer = setTimeout(() => {
+          this.pauseTimer = null;
+          this.finalizeInterim(onTranscription);
+        }, RESULT_LAG_MS);
+      }
+    });
+    this.voiceActivity.start(stream);
+
+    this.recognition.onresult = (event: any) => {
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i];
+        const fullText = result[0].transcript.trim();
+        let transcript = result[0].transcript;
+        const confidence = result[0].confidence || 0;
+        const isFinal = result.isFinal;
+
+        // Already emitted before the recognizer finished it: Chrome still sends its interims
+        // and final for the same result, so only words after the emitted text are new
+        if (i === this.forcedResultIndex) {
+          transcript = fullText.startsWith(this.forcedText) ? fullText.slice(this.forcedText.length).trim() : '';
+          if (isFinal) this.forcedResultIndex = -1;
+          if (!transcript) {
+            // The recognizer settled on no more words than were emitted: drop any pending tail
+            if (isFinal && this.interimResultIndex === i) {
+              this.lastInterimText = '';
+              this.interimResultIndex = -1;
+            }
+            continue;
+          }
+        }
+
+        const now = new Date();
+
+        // Set segment start time when first text arrives in new segment
+        if (!this.lastInterimText && transcript.trim()) {
+          // Speech onset from voice activity; otherwise estimate ~1 second of recognition delay
+          const speechStartedAt = this.voiceActivity?.speechStartedAt ?? now.getTime() - 1000;
+          this.segmentStartTimeMs = Math.max(0, speechStartedAt - this.transcriptionStartTime);
+        }
+
+        // Check if we should force segment completion
+        const shouldForceSegment = this.shouldForceSegment(transcript, isFinal);
+
+        if (shouldForceSegment || isFinal) {
+          // Natural final result, or interim result forced to become final
+          const transcriptionResult: TranscriptionResult = {
+            id: `transcription-${++this.transcriptionIdCounter}`,
+            text: transcript.trim(),
+            startTime: now.toISOString(),
+            endTime: now.toISOString(),
+            audioTimeMs: this.segmentStartTimeMs, // Fixed at segment start
+            confidence: confidence,
+            speaker: 'Person1', // Default speaker
+            languageCode: this.languageCode,
+            isFinal: true
+          };
+
+          onTranscription(transcriptionResult);
+          if (!isFinal) {
+            this.forcedResultIndex = i;
+            this.forcedText = fullText;
+          }
+          this.lastInterimText = ''; // Reset for next segment
+          this.interimResultIndex = -1;
+          this.segmentStartTimeMs = 0; // Reset for next segment
+        } else if (transcript !== this.lastInterimText) {
+          // Interim result - only send if text changed
+          const transcriptionResult: TranscriptionResult = {
+            id: `transcription-${this.transcriptionIdCounter + 1}`, // Use next ID but don't increment
+            text: transcript,
+            startTime: now.toISOString(),
+            endTime: now.toISOString(),
+            audioTimeMs: this.segmentStartTimeMs, // Use segment start time
+            confidence: confidence,
+            speaker: 'Person1', // Default speaker
+            languageCode: this.languageCode,
+            isFinal: false
+          };
+
+          onTranscription(transcriptionResult);
+          this.lastInterimText = transcript;
+          this.interimResultIndex = i;
+          this.interimFullText = fullText;
+        }
+      }
+    };
+
+    this.recognition.onerror = (event: any) => {
+      console.error('Speech recognition error:', event.error);
+      if (callbacks.onError) {
+        const error: Error & { code?: string } = new Error(`Speech recognition error: ${event.error}`);
+        error.code = event.error;
+        callbacks.onError(error);
+      }
+    };
+
+    this.recognition.onend = () => {
+      // A restarted session numbers its results from 0 again
+      this.forcedResultIndex = -1;
+      this.interimResultIndex = -1;
+
+      // Restart if still transcribing
+      if (this.isTranscribing && this.recognition) {
+        try {
+          this.recognition.start();
+        } catch (e) {
+          console.error('Failed to restart recognition:', e);
+        }
+      }
+    };
+
+    this.recognition.start();
+  }
+
+  /**
+   * Check if current segment should be forced to complete before a pause
+   */
+  private shouldForceSegment(transcript: string, isFinal: boolean): boolean {
+    if (isFinal) return false; // Already final, no need to force
+
+    // Segments normally end on pauses; only cut speech that runs on without any
+    return transcript.trim().length > MAX_SEGMENT_CHARS;
+  }
+
+  /**
+   * Finalize the pending interim text after a pause in speech
+   */
+  private finalizeInterim(onTranscription: (result: TranscriptionResult) => void): void {
+    if (!this.isTranscribing || !this.lastInterimText) return;
+
+    const transcriptionResult: TranscriptionResult = {
+      id: `transcription-${++this.transcriptionIdCounter}`,
+      text: this.lastInterimText.trim(),
+      startTime: new Date().toISOString(),
+      endTime: new Date().toISOString(),
+      audioTimeMs: this.segmentStartTimeMs, // Fixed at segment start
+      confidence: 0.8, // Moderate confidence for pause-forced segments
+      speaker: 'Person1', // Default speaker
+      languageCode: this.languageCode,
+      isFinal: true
+    };
+
+    onTranscription(transcriptionResult);
+    this.forcedResultIndex = this.interimResultIndex; // Chrome still finishes this result itself
+    this.forcedText = this.interimFullText;
+    this.lastInterimText = '';
+    this.interimResultIndex = -1;
+    this.segmentStartTimeMs = 0; // Reset for next segment
+  }
+
+  public stopLive(): void {
+    this.isTranscribing = false;
+    this.transcriptionStartTime = 0;
+
+    // Stop voice activity detection
+    if (this.pauseTimer) {
+      clearTimeout(this.pauseTimer);
+      this.pauseTimer = null;
+    }
+    if (this.voiceActivity) {
+      this.voiceActivity.stop();
+      this.voiceActivity = null;
+    }
+
+    if (this.recognition) {
+      try {
+        this.recognition.stop();
+      } catch (e) {
+        console.error('Error stopping recognition:', e);
+      }
+      this.recognition = null;
+    }
+
+    // Reset tracking variables
+    this.lastInterimText = '';
+    this.interimResultIndex = -1;
+    this.forcedResultIndex = -1;
+  }
+
+  /**
+   * Transcribe audio file by playing it (almost silently) while recognition listens
+   */
+  public async transcribeFile(
+    audioBlob: Blob,
+    config: SpeechToTextConfig,
+    callbacks: TranscriptionCallbacks,
+    options: FileTranscriptionOptions = {}
+  ): Promise<void> {
+    const { onTranscription, onProgress } = callbacks;
+    const { signal } = options;
+
+    // Create audio element to play the file
+    const audioUrl = URL.createObjectURL(audioBlob);
+    const audio = new Audio(audioUrl);
+
+    // Get audio duration
+    await new Promise<void>((resolve) => {
+      audio.addEventListener('loadedmetadata', () => resolve(), { once: true });
+    });
+
+    const duration = audio.duration;
+
+    // Create audio context and stream
+    const audioContext = new AudioContext();
+    const source = audioContext.createMediaStreamDestination();
+    const mediaElementSource = audioContext.createMediaElementSource(audio);
+    mediaElementSource.connect(source);
+    mediaElementSource.connect(audioContext.destination); // Also play to speakers (silently)
+
+    // Setup Web Speech API
+    const SpeechRecognition = WebSpeechProvider.getRecognitionClass();
+    const recognition = new SpeechRecognition();
+    recognition.continuous = true;
+    recognition.interimResults = false; // Only final results for file transcription
+    recognition.lang = config.languageCode || DEFAULT_LANGUAGE_CODE;
+    recognition.maxAlternatives = 1;
+    WebSpeechProvider.applyPhraseHints(recognition, config);
+
+    let lastResultTime = 0;
+
+    recognition.onresult = (event: any) => {
+      const currentTime = audio.currentTime * 1000; // Convert to ms
+
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i];
+        if (result.isFinal) {
+          const transcript = result[0].transcript;
+          const confidence = result[0].confidence || 0;
+
+          const transcriptionResult: TranscriptionResult = {
+            id: `file-${Date.now()}-${this.transcriptionIdCounter++}`,
+            text: transcript,
+            startTime: new Date(Date.now()).toISOString(),
+            endTime: new Date(Date.now()).toISOString(),
+            audioTimeMs: Math.floor(lastResultTime),
+            confidence: confidence,
+            speaker: 'Person1', // Web Speech API doesn't support speaker diarization
+            languageCode: recognition.lang,
+            isFinal: true,
+            isManuallyEdited: false
+          };
+
+          onTranscription(transcriptionResult);
+          lastResultTime = currentTime;
+        }
+      }
+
+    };
+
+    // Playback position is the real progress (results alone arrive too rarely)
+    audio.addEventListener('timeupdate', () => {
+      if (onProgress && duration > 0) {
+        onProgress(Math.min((audio.currentTime / duration) * 100, 100));
+      }
+    });
+
+    recognition.onerror = (event: any) => {
+      console.error('Speech recognition error:', event.error);
+    };
+
+    if (signal?.aborted) {
+      audioContext.close();
+      URL.revokeObjectURL(audioUrl);
+      throw new DOMException('Transcription cancelled', 'AbortError');
+    }
+
+    // Start recognition and play audio
+    recognition.start();
+    audio.volume = 0.01; // Play almost silently
+    await audio.play();
+
+    // Wait for audio to finish (or the caller to cancel)
+    await new Promise<void>((resolve, reject) => {
+      const cleanup = () => {
+        signal?.removeEventListener('abort', handleAbort);
+        recognition.stop();
+        audioContext.close();
+        URL.revokeObjectURL(audioUrl);
+      };
+
+      const handleAbort = () => {
+        audio.pause();
+        cleanup();
+        reject(new DOMException('Transcription cancelled', 'AbortError'));
+      };
+
+      audio.addEventListener('ended', () => {
+        cleanup();
+        resolve();
+      }, { once: true });
+
+      audio.addEventListener('error', () => {
+        cleanup();
+        reject(new Error('Cannot play the audio file for transcription'));
+      }, { once: true });
+
+      signal?.addEventListener('abort', handleAbort, { once: true });
+    });
+
+    if (onProgress) onProgress(100);
+  }
+}
@@ -0,0 +1,363 @@
+import type {
+  FileTranscriptionOptions,
+  SpeechToTextConfig,
+  TranscriptionCallbacks,
+  TranscriptionProvider,
+  TranscriptionResult
+} from '../types/types';
+import { AudioUtils } from './audioUtils';
+import { ChunkQueue } from './chunkQueue';
+import { PhraseHints } from './phraseHints';
+import { Languages, DEFAULT_LANGUAGE_CODE } from './languages';
+import { VoiceActivityDetector } from './voiceActivity';
+
+const DEFAULT_ENDPOINT = 'http://localhost:8080/v1/audio/transcriptions';
+const DEFAULT_MODEL = 'whisper-1';
+
+// Most servers (and OpenAI) reject uploads above 25 MB
+const MAX_UPLOAD_BYTES = 24 * 1024 * 1024;
+const FILE_CHUNK_DURATION_SECONDS = 600; // 10 minutes of 16kHz WAV ≈ 19 MB
+const FILE_CHUNK_MIN_SECONDS = 480; // Look for a pause to cut at after 8 minutes
+const FILE_CHUNK_CONCURRENCY = 2;
+const LIVE_MIN_CHUNK_MS = 5000; // End a live chunk at the first pause after this long...
+const LIVE_MAX_CHUNK_MS = 25000; // ...or here if nobody pauses (Whisper reads 30 s windows)
+const LIVE_PAUSE_MS = 600; // Silence that counts as a pause for cutting live chunks
+const MAX_PROMPT_CHARS = 600; // Whisper only reads the last ~224 tokens of a prompt
+
+// Segment from a verbose_json response
+interface WhisperSegment {
+  start: number; // seconds
+  end: number;   // seconds
+  text: string;
+  avg_logprob?: number;
+  no_speech_prob?: number;
+}
+
+/**
+ * OpenAI/Whisper-compatible HTTP provider
+ * Posts audio to any /v1/audio/transcriptions endpoint (whisper.cpp server,
+ * faster-whisper server, OpenAI...) and reads verbose_json segments.
+ */
+export class WhisperProvider implements TranscriptionProvider {
+  readonly id = 'whisper-http';
+  readonly name = 'Whisper (OpenAI-compatible)';
+  readonly description = 'Gửi âm thanh tới máy chủ Whisper tương thích OpenAI (có thể tự triển khai nội bộ). Không hỗ trợ nhận diện người nói.';
+  readonly capabilities = {
+    liveStreaming: true,
+    fileTranscription: true,
+    interimResults: false,
+    speakerDiarization: false,
+    wordTimings: false,
+    requiresApiKey: false,
+    recoversFromErrors: true
+  };
+  readonly configSchema = [
+    {
+      name: 'apiEndpoint' as const,
+      label: 'Transcription Endpoint',
+      type: 'url' as const,
+      required: true,
+      placeholder: DEFAULT_ENDPOINT,
+      help: 'URL đầy đủ tới /v1/audio/transcriptions (whisper.cpp, faster-whisper server, OpenAI...)',
+      defaultValue: DEFAULT_ENDPOINT
+    },
+    {
+      name: 'model' as const,
+      label: 'Model',
+      type: 'text' as const,
+      placeholder: DEFAULT_MODEL,
+      help: 'Tên model máy chủ yêu cầu (VD: whisper-1, large-v3)',
+      defaultValue: DEFAULT_MODEL
+    },
+    {
+      name: 'apiKey' as const,
+      label: 'API Key',
+      type: 'password' as const,
+      placeholder: 'Để trống nếu máy chủ không yêu cầu',
+      help: 'Gửi dưới dạng "Authorization: Bearer <key>"'
+    }
+  ];
+
+  private mediaRecorder: MediaRecorder | null = null;
+  private chunkTimer: NodeJS.Timeout | null = null;
+  private voiceActivity: VoiceActivityDetector | null = null;
+  private chunkStartTime: number = 0;
+  private isTranscribing: boolean = false;
+  private transcriptionIdCounter: number = 0;
+  private liveStartTime: number = 0;
+
+  public isAvailable(config: SpeechToTextConfig): boolean {
+    return !!config.apiEndpoint && config.apiEndpoint.length > 0;
+  }
+
+  /**
+   * Alternative languages configured: let Whisper detect the language instead of forcing one
+   */
+  private detectsLanguage(config: SpeechToTextConfig): boolean {
+    return (config.alternativeLanguageCodes || []).some(code => code !== config.languageCode);
+  }
+
+  /**
+   * Glossary prompt from the phrase hints, strongest first so truncation drops the weakest
+   */
+  private buildPrompt(config: SpeechToTextConfig): string {
+    let prompt = '';
+    for (const hint of PhraseHints.byPriority(config.phraseHints || [])) {
+      const next = prompt ? `${prompt}, ${hint.phrase}` : hint.phrase;
+      if (next.length > MAX_PROMPT_CHARS) break;
+      prompt = next;
+    }
+    return prompt;
+  }
+
+  /**
+   * Post one audio blob and return the verbose_json payload
+   */
+  private async requestTranscription(
+    audioBlob: Blob,
+    fileName: string,
+    config: SpeechToTextConfig,
+    signal?: AbortSignal
+  ): Promise<any> {
+    const formData = new FormData();
+    formData.append('file', audioBlob, fileName);
+    formData.append('model', config.model || DEFAULT_MODEL);
+    formData.append('response_format', 'verbose_json');
+    formData.append('timestamp_granularities[]', 'segment');
+
+    // Whisper expects ISO-639-1 ("vi"), not BCP-47 ("vi-VN").
+    // With alternative languages it detects the language itself (one per request).
+    if (!this.detectsLanguage(config)) {
+      formData.append('language', Languages.shortCode(config.languageCode || DEFAULT_LANGUAGE_CODE));
+    }
+
+    // Vocabulary hints go in the prompt, which biases spelling of names and terms
+    const prompt = this.buildPrompt(config);
+    if (prompt) {
+      formData.append('prompt', prompt);
+    }
+
+    const headers: Record<string, string> = {};
+    if (config.apiKey) {
+      headers['Authorization'] = `Bearer ${config.apiKey}`;
+    }
+
+    const response = await fetch(config.apiEndpoint || DEFAULT_ENDPOINT, {
+      method: 'POST',
+      headers,
+      body: formData,
+      signal
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      const error: Error & { code?: string } = new Error(`Whisper API error: ${response.status} - ${errorText}`);
+      error.code = String(response.status);
+      throw error;
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Map a verbose_json response to results, offsetting segment times by the chunk start
+   */
+  private emitResults(
+    data: any,
+    offsetMs: number,
+    idPrefix: string,
+    config: SpeechToTextConfig,
+    callbacks: TranscriptionCallbacks
+  ): void {
+    const segments: WhisperSegment[] = Array.isArray(data?.segments) ? data.segments : [];
+    const languageCode = (this.detectsLanguage(config) && Languages.fromWhisper(data?.language))
+      || config.languageCode
+      || DEFAULT_LANGUAGE_CODE;
+
+    // Servers that ignore response_format only return { text }
+    if (segments.length === 0 && typeof data?.text === 'string' && data.text.trim()) {
+      segments.push({ start: 0, end: typeof data.duration === 'number' ? data.duration : 0, text: data.text });
+    }
+
+    segments.forEach((segment) => {
+      const text = (segment.text || '').trim();
+      if (!text) return;
+
+      const transcriptionResult: TranscriptionResult = {
+        id: `${idPrefix}-${Date.now()}-${this.transcriptionIdCounter++}`,
+        text,
+        startTime: new Date().toISOString(),
+        endTime: new Date().toISOString(),
+        audioTimeMs: Math.floor(offsetMs + segment.start * 1000),
+        audioEndTimeMs: segment.end > 0 ? Math.floor(offsetMs + segment.end * 1000) : undefined,
+        // avg_logprob is a log-probability; exp() gives a rough 0..1 confidence
+        confidence: typeof segment.avg_logprob === 'number'
+          ? Math.max(0, Math.min(1, Math.exp(segment.avg_logprob)))
+          : 0,
+        speaker: 'Person1', // Whisper doesn't support speaker diarization
+        languageCode,
+        isFinal: true,
+        isManuallyEdited: false
+      };
+
+      callbacks.onTranscription(transcriptionResult);
+    });
+  }
+
+  /**
+   * Live mode: restart MediaRecorder every chunk so each upload is a complete,
+   * decodable file (timeslice chunks after the first lack container headers).
+   * Chunks end at pauses in speech, so sentences aren't cut in half.
+   */
+  public async startLive(
+    stream: MediaStream,
+    config: SpeechToTextConfig,
+    callbacks: TranscriptionCallbacks
+  ): Promise<void> {
+    this.isTranscribing = true;
+    this.liveStartTime = Date.now();
+
+    this.voiceActivity = new VoiceActivityDetector({
+      minPauseMs: LIVE_PAUSE_MS,
+      onPause: () => {
+        const recorder = this.mediaRecorder;
+        if (recorder && recorder.state !== 'inactive' && Date.now() - this.chunkStartTime >= LIVE_MIN_CHUNK_MS) {
+          recorder.stop();
+        }
+      }
+    });
+    this.voiceActivity.start(stream);
+
+    this.recordLiveChunk(stream, config, callbacks);
+  }
+
+  private recordLiveChunk(
+    stream: MediaStream,
+    config: SpeechToTextConfig,
+    callbacks: TranscriptionCallbacks
+  ): void {
+    if (!this.isTranscribing || !stream.active) return;
+
+    const mimeType = MediaRecorder.isTypeSupported('audio/webm;codecs=opus')
+      ? 'audio/webm;codecs=opus'
+      : 'audio/webm';
+    const recorder = new MediaRecorder(stream, { mimeType });
+    const chunkOffsetMs = Date.now() - this.liveStartTime;
+    const parts: Blob[] = [];
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) parts.push(event.data);
+    };
+
+    recorder.onstop = () => {
+      if (this.chunkTimer) clearTimeout(this.chunkTimer);
+
+      // Start the next chunk immediately to avoid gaps, then upload this one
+      this.recordLiveChunk(stream, config, callbacks);
+
+      const chunkBlob = new Blob(parts, { type: mimeType });
+      if (chunkBlob.size < 1000) return; // Too small to contain speech
+
+      this.requestTranscription(chunkBlob, 'chunk.webm', config)
+        .then(data => this.emitResults(data, chunkOffsetMs, 'whisper', config, callbacks))
+        .catch((error) => {
+          console.error('Failed to send audio to Whisper server:', error);
+        });
+    };
+
+    recorder.onerror = (event) => {
+      console.error('MediaRecorder error:', event);
+    };
+
+    this.mediaRecorder = recorder;
+    this.chunkStartTime = Date.now();
+    recorder.start();
+
+    this.chunkTimer = setTimeout(() => {
+      if (recorder.state !== 'inactive') recorder.stop();
+    }, LIVE_MAX_CHUNK_MS);
+  }
+
+  public stopLive(): void {
+    this.isTranscribing = false;
+
+    if (this.voiceActivity) {
+      this.voiceActivity.stop();
+      this.voiceActivity = null;
+    }
+
+    if (this.chunkTimer) {
+      clearTimeout(this.chunkTimer);
+      this.chunkTimer = null;
+    }
+
+    // Stopping flushes the last partial chunk through onstop
+    if (this.mediaRecorder && this.mediaRecorder.state !== 'inactive') {
+      try {
+        this.mediaRecorder.stop();
+      } catch (e) {
+        console.error('Error stopping MediaRecorder:', e);
+      }
+    }
+    this.mediaRecorder = null;
+  }
+
+  public async transcribeFile(
+    audioBlob: Blob,
+    config: SpeechToTextConfig,
+    callbacks: TranscriptionCallbacks,
+    options: FileTranscriptionOptions = {}
+  ): Promise<void> {
+    const { onProgress } = callbacks;
+    this.transcriptionIdCounter = 0;
+
+    // Small enough: send the original file, the server decodes it
+    if (audioBlob.size <= MAX_UPLOAD_BYTES) {
+      if (onProgress) onProgress(10);
+      const extension = (audioBlob.type.split('/')[1] || 'webm').split(';')[0];
+      const data = await this.requestTranscription(audioBlob, `audio.${extension}`, config, options.signal);
+      if (onProgress) onProgress(90);
+      this.emitResults(data, 0, 'file', config, callbacks);
+      if (onProgress) onProgress(100);
+      return;
+    }
+
+    // Too large: decode and upload 16kHz WAV chunks through a retrying queue
+    const arrayBuffer = await audioBlob.arrayBuffer();
+    const audioContext = new AudioContext();
+
+    try {
+      const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
+      const sampleRate = audioBuffer.sampleRate;
+      const channelData = audioBuffer.getChannelData(0);
+      const chunks = VoiceActivityDetector.planChunks(channelData, sampleRate, {
+        minMs: FILE_CHUNK_MIN_SECONDS * 1000,
+        maxMs: FILE_CHUNK_DURATION_SECONDS * 1000
+      });
+
+      console.log(`📦 Splitting into ${chunks.length} chunks at pauses (up to ${FILE_CHUNK_DURATION_SECONDS}s each)`);
+
+      const queue = new ChunkQueue<any>({
+        chunks,
+        concurrency: FILE_CHUNK_CONCURRENCY,
+        process: (i, signal) => {
+          const chunkSamples = channelData.slice(
+            Math.floor((chunks[i].startMs / 1000) * sampleRate),
+            Math.floor((chunks[i].endMs / 1000) * sampleRate)
+          );
+          const chunkBlob = AudioUtils.samplesToWavBlob(chunkSamples, sampleRate, 16000);
+          return this.requestTranscription(chunkBlob, `chunk-${i}.wav`, config, signal);
+        },
+        onChunkDone: (i, data, alreadyEmitted) => {
+          if (!alreadyEmitted) this.emitResults(data, chunks[i].startMs, `chunk-${i}`, config, callbacks);
+        },
+        onProgress,
+        onChunkStatus: callbacks.onChunkStatus
+      }, options);
+
+      await queue.run();
+    } finally {
+      audioContext.close();
+    }
+  }
+}
@@ -1,6 +1,29 @@
-import { Document, Paragraph, TextRun, HeadingLevel, AlignmentType } from 'docx';
+import { Document, Paragraph, TextRun, ExternalHyperlink, TableOfContents, HeadingLevel, AlignmentType, LevelFormat } from 'docx';
 import { saveAs } from 'file-saver';
-import type { MeetingInfo, TranscriptionResult } from '../types/types';
+import type {
+  AgendaItem,
+  FollowUpItem,
+  MeetingInfo,
+  NoteBlock,
+  NoteListKind,
+  NoteTagKind,
+  RichTextSpan,
+  TranscriptionResult
+} from '../types/types';
+import { Languages } from './languages';
+import { NoteTags } from './noteTags';
+import { RichText } from './richText';
+import { NoteOutline } from './noteOutline';
+import { Agenda } from './agenda';
+
+// Numbering definition used by numbered lists in the notes
+const NOTES_NUMBERING = 'notes-numbering';
+
+// Section headings in the notes, by outline depth; the report's own sections use levels 1-2
+const NOTE_HEADING_LEVELS = [HeadingLevel.HEADING_3, HeadingLevel.HEADING_4, HeadingLevel.HEADING_5];
+
+// Indentation per outline level (twips)
+const OUTLINE_INDENT = 360;
 
 // Helper function to add timestamp prefix to filename
 function addTimestampPrefix(fileName: string): string {
@@ -18,11 +41,22 @@ export class WordExporter {
   // Create Word blob without downloading
   static async createWordBlob(
     meetingInfo: MeetingInfo,
-    notesText: string,
-    transcriptions?: TranscriptionResult[]
+    noteBlocks: NoteBlock[],
+    transcriptions?: TranscriptionResult[],
+    followUps: FollowUpItem[] = []
   ): Promise<Blob> {
-    // Text is already clean (no timestamps embedded)
-    const paragraphs = this.parseTextToParagraphs(notesText);
+    const paragraphs = this.createNoteParagraphs(noteBlocks);
+
+    // The agenda, with the time each item actually took
+    const agendaParagraphs = this.createAgendaParagraphs(meetingInfo.agenda || []);
+
+    // A table of contents once the notes are organised into sections
+    const tocParagraphs = noteBlocks.some(block => block.heading)
+      ? this.createTableOfContents()
+      : [];
+
+    // Action items, decisions and open questions get their own sections before the notes
+    const followUpParagraphs = this.createFollowUpParagraphs(followUps);
     
     // Add transcription section if available
     const transcriptionParagraphs = transcriptions && transcriptions.length > 0
@@ -31,6 +65,24 @@ export class WordExporter {
     
     // Create document
     const doc = new Document({
+      // Word fills in the table of contents when the document is opened
+      ...(tocParagraphs.length > 0 ? { features: { updateFields: true } } : {}),
+      numbering: {
+        config: [
+          {
+            reference: NOTES_NUMBERING,
+            levels: [
+              {
+                level: 0,
+                format: LevelFormat.DECIMAL,
+                text: '%1.',
+                alignment: AlignmentType.START,
+                style: { paragraph: { indent: { left: 720, hanging: 360 } } }
+              }
+            ]
+          }
+        ]
+      },
       sections: [
         {
           properties: {},
@@ -97,6 +149,12 @@ export class WordExporter {
               ],
               spacing: { after: 300 }
             }),
+
+            ...agendaParagraphs,
+
+            ...tocParagraphs,
+
+            ...followUpParagraphs,
             
             // Notes content
             new Paragraph({
@@ -122,58 +180,207 @@ export class WordExporter {
   // Export with auto-download (for fallback browsers)
   static async exportToWord(
     meetingInfo: MeetingInfo,
-    notesText: string,
+    noteBlocks: NoteBlock[],
     fileName: string,
-    transcriptions?: TranscriptionResult[]
+    transcriptions?: TranscriptionResult[],
+    followUps: FollowUpItem[] = []
   ): Promise<void> {
     const fileNameWithTimestamp = addTimestampPrefix(fileName);
-    const blob = await this.createWordBlob(meetingInfo, notesText, transcriptions);
+    const blob = await this.createWordBlob(meetingInfo, noteBlocks, transcriptions, followUps);
     saveAs(blob, fileNameWithTimestamp);
   }
   
-  private static parseTextToParagraphs(text: string): Paragraph[] {
+  private static createNoteParagraphs(noteBlocks: NoteBlock[]): Paragraph[] {
     const paragraphs: Paragraph[] = [];
+
+    // Each run of numbered lines starts again at 1
+    let listInstance = 0;
+    let previousList: NoteListKind | undefined;
     
-    // BLOCK_SEPARATOR is used in NotesEditor to separate lines
-    const BLOCK_SEPARATOR = '§§§';
-    
-    // First split by BLOCK_SEPARATOR to get individual notes/lines
-    let lines = text.split(BLOCK_SEPARATOR);
-    
-    // Then split each line by newlines for multi-line content
-    const allLines: string[] = [];
-    lines.forEach((line) => {
-      const subLines = line.split('\n');
-      allLines.push(...subLines);
-    });
-    
-    allLines.forEach((line) => {
-      const trimmed = line.trim();
-      if (trimmed) {
+    noteBlocks.forEach(block => {
+      const { text: line, format } = block;
+      const depth = NoteOutline.depth(block);
+      if (format?.list === 'ordered' && previousList !== 'ordered') listInstance++;
+      previousList = format?.list;
+
+      // Section headings become Word headings, so they show up in the table of contents
+      if (block.heading) {
+        const title = line.trim();
+        if (!title) return;
+        const start = line.length - line.trimStart().length;
         paragraphs.push(
           new Paragraph({
-            children: [
-              new TextRun({ text: trimmed, size: 24 })
-            ],
-            spacing: { after: 100 }
+            children: this.createRichTextRuns(title, format ? RichText.slice(format.spans, start, start + title.length) : []),
+            heading: NOTE_HEADING_LEVELS[Math.min(depth, NOTE_HEADING_LEVELS.length - 1)],
+            spacing: { before: 200, after: 100 },
+            ...(depth > 0 ? { indent: { left: depth * OUTLINE_INDENT } } : {})
           })
         );
-      } else {
-        // Empty line for spacing
+        return;
+      }
+
+      // Then split each line by newlines for multi-line content
+      let offset = 0;
+      line.split('\n').forEach((subLine, subIndex) => {
+        const start = offset + subLine.length - subLine.trimStart().length;
+        const trimmed = subLine.trim();
+        offset += subLine.length + 1;
+
+        if (!trimmed) {
+          // Empty line for spacing
+          paragraphs.push(
+            new Paragraph({
+              children: [
+                new TextRun({ text: '', size: 24 })
+              ],
+              spacing: { after: 50 }
+            })
+          );
+          return;
+        }
+
+        // The list marker goes on the first line of the item; the rest is indented under it
+        const spans = format ? RichText.slice(format.spans, start, start + trimmed.length) : [];
+        const list = subIndex === 0 ? format?.list : undefined;
         paragraphs.push(
           new Paragraph({
-            children: [
-              new TextRun({ text: '', size: 24 })
-            ],
-            spacing: { after: 50 }
+            children: this.createRichTextRuns(trimmed, spans),
+            spacing: { after: 100 },
+            ...(list === 'bullet' ? { bullet: { level: 0 } } : {}),
+            ...(list === 'ordered' ? { numbering: { reference: NOTES_NUMBERING, level: 0, instance: listInstance } } : {}),
+            ...this.noteIndent(depth, format?.list, subIndex > 0)
           })
         );
-      }
+      });
     });
     
     return paragraphs;
   }
+
+  // Outline depth adds to the list indentation; list continuation lines line up with the item text
+  private static noteIndent(depth: number, list: NoteListKind | undefined, isContinuation: boolean) {
+    if (list) {
+      if (isContinuation) return { indent: { left: 720 + depth * OUTLINE_INDENT } };
+      return depth > 0 ? { indent: { left: 720 + depth * OUTLINE_INDENT, hanging: 360 } } : {};
+    }
+    return depth > 0 ? { indent: { left: depth * OUTLINE_INDENT } } : {};
+  }
+
+  // "1. Title (Presenter) — Dự kiến: 10 phút · Thực tế: 12 phút (+2)"
+  private static createAgendaParagraphs(agenda: AgendaItem[]): Paragraph[] {
+    const items = agenda.filter(item => item.title.trim());
+    if (items.length === 0) return [];
+
+    const paragraphs: Paragraph[] = [
+      new Paragraph({
+        text: 'CHƯƠNG TRÌNH HỌP',
+        heading: HeadingLevel.HEADING_2,
+        spacing: { before: 200, after: 200 }
+      })
+    ];
+
+    items.forEach((item, index) => {
+      const times = [`Dự kiến: ${Agenda.formatMinutes(item.plannedMinutes)}`];
+      const actualMs = item.endMs !== undefined ? Agenda.actualMs(item) : undefined;
+      if (actualMs !== undefined) {
+        const difference = Math.round(actualMs / 60000) - item.plannedMinutes;
+        times.push(`Thực tế: ${Agenda.formatMinutes(actualMs / 60000)}${difference !== 0 ? ` (${difference > 0 ? '+' : ''}${difference})` : ''}`);
+      }
+
+      paragraphs.push(
+        new Paragraph({
+          children: [
+            new TextRun({ text: `${index + 1}. `, bold: true, size: 24 }),
+            new TextRun({ text: item.title.trim(), size: 24 }),
+            ...(item.presenter ? [new TextRun({ text: ` (${item.presenter})`, size: 24 })] : []),
+            new TextRun({
+              text: ` — ${times.join(' · ')}`,
+              italics: true,
+              size: 22,
+              ...(Agenda.overTimeMs(item) > 0 && item.endMs !== undefined ? { color: 'C00000' } : {})
+            })
+          ],
+          spacing: { after: 100 }
+        })
+      );
+    });
+
+    return paragraphs;
+  }
+
+  private static createTableOfContents(): Array<Paragraph | TableOfContents> {
+    return [
+      new Paragraph({
+        text: 'MỤC LỤC',
+        heading: HeadingLevel.HEADING_2,
+        spacing: { before: 200, after: 200 }
+      }),
+      new TableOfContents('Mục lục', { hyperlink: true, headingStyleRange: '2-5' })
+    ];
+  }
+
+  // Bold/italic runs and clickable links of one notes line
+  private static createRichTextRuns(text: string, spans: RichTextSpan[]): Array<TextRun | ExternalHyperlink> {
+    return RichText.segments(text, spans).map(segment => {
+      const run = new TextRun({
+        text: segment.text,
+        size: 24,
+        bold: segment.bold,
+        italics: segment.italic,
+        ...(segment.link ? { color: '0563C1', underline: {} } : {})
+      });
+      return segment.link ? new ExternalHyperlink({ link: segment.link, children: [run] }) : run;
+    });
+  }
   
+  // One section per kind of follow-up that has items
+  private static createFollowUpParagraphs(followUps: FollowUpItem[]): Paragraph[] {
+    const sections: Array<{ kind: NoteTagKind; heading: string }> = [
+      { kind: 'action', heading: 'VIỆC CẦN LÀM' },
+      { kind: 'decision', heading: 'QUYẾT ĐỊNH' },
+      { kind: 'question', heading: 'CÂU HỎI MỞ' }
+    ];
+    const paragraphs: Paragraph[] = [];
+
+    sections.forEach(({ kind, heading }) => {
+      const items = followUps.filter(item => item.tag.kind === kind);
+      if (items.length === 0) return;
+
+      paragraphs.push(
+        new Paragraph({
+          text: heading,
+          heading: HeadingLevel.HEADING_2,
+          spacing: { before: 200, after: 200 }
+        })
+      );
+
+      items.forEach((item, index) => {
+        const details: string[] = [];
+        if (kind === 'action') {
+          details.push(`Phụ trách: ${item.tag.owner || 'chưa giao'}`);
+          if (item.tag.dueDate) details.push(`Hạn: ${NoteTags.formatDueDate(item.tag.dueDate)}`);
+          if (item.tag.done) details.push('Đã xong');
+        } else {
+          if (item.speaker) details.push(item.speaker);
+          if (kind === 'question' && item.tag.done) details.push('Đã trả lời');
+        }
+
+        paragraphs.push(
+          new Paragraph({
+            children: [
+              new TextRun({ text: `${index + 1}. `, bold: true, size: 24 }),
+              new TextRun({ text: item.text.replace(/\n/g, ' '), size: 24 }),
+              ...(details.length > 0 ? [new TextRun({ text: ` (${details.join(' · ')})`, italics: true, size: 22 })] : [])
+            ],
+            spacing: { after: 100 }
+          })
+        );
+      });
+    });
+
+    return paragraphs;
+  }
+
   // Create paragraphs for transcription results
   private static createTranscriptionParagraphs(transcriptions: TranscriptionResult[]): Paragraph[] {
     const paragraphs: Paragraph[] = [];
@@ -187,6 +394,9 @@ export class WordExporter {
       })
     );
     
+    // Tag each item with its language when the meeting mixes languages
+    const isMultilingual = Languages.detected(transcriptions).length > 1;
+
     // Add transcription items
     transcriptions.forEach((item, index) => {
       // Format audio time if available
@@ -205,7 +415,8 @@ export class WordExporter {
       }
       
       // Create paragraph with speaker and timestamp
-      const prefix = `[${index + 1}] ${item.speaker}${timeStr ? ` (${timeStr})` : ''}: `;
+      const languageStr = isMultilingual && item.languageCode ? ` [${Languages.tag(item.languageCode)}]` : '';
+      const prefix = `[${index + 1}] ${item.speaker}${timeStr ? ` (${timeStr})` : ''}${languageStr}: `;
       
       paragraphs.push(
         new Paragraph({
@@ -61,8 +61,15 @@ declare module 'docx' {
   export class TextRun {
     constructor(options: any);
   }
+  export class ExternalHyperlink {
+    constructor(options: any);
+  }
+  export class TableOfContents {
+    constructor(alias?: string, options?: any);
+  }
   export const HeadingLevel: any;
   export const AlignmentType: any;
+  export const LevelFormat: any;
   export class Packer {
     static toBlob(doc: Document): Promise<Blob>;
   }
@@ -7,6 +7,70 @@ export interface MeetingInfo {
   location: string;
   host: string;
   attendees: string;
+  speakers?: SpeakerProfile[]; // Speaker registry: diarization label → display name
+  phraseHints?: PhraseHint[]; // Project vocabulary, added to the global list in SpeechToTextConfig
+  agenda?: AgendaItem[]; // Planned items, timed while recording
+}
+
+// One agenda item: planned before the meeting, started and ended with the "next item" hotkey
+export interface AgendaItem {
+  id: string;
+  title: string;
+  presenter?: string;
+  plannedMinutes: number;
+  startMs?: number; // Wall-clock time the item started
+  endMs?: number;   // Wall-clock time the next item (or the end of the agenda) took over
+}
+
+// Agenda entry of *_metadata.json: plan plus actual time
+export interface AgendaItemJson {
+  Title: string;
+  Presenter?: string;
+  PlannedMinutes: number;
+  StartedAt?: string; // ISO format datetime
+  EndedAt?: string;
+  ActualMinutes?: number;
+}
+
+// Reusable starting point for a recurring meeting type (stand-up, board meeting, interview)
+export interface NoteTemplate {
+  id: string;
+  name: string;
+  title?: string;      // Meeting info defaults; empty fields are left as they are
+  location?: string;
+  host?: string;
+  attendees?: string;
+  agenda?: AgendaItem[];       // Plan only, without times
+  headings?: string[];         // Section headings pre-filled in the notes
+  speakers?: SpeakerProfile[]; // Speaker presets: diarization label → name, role, color
+  updatedAt: string;           // ISO format datetime
+}
+
+// Template as imported/exported in a *_template.json file
+export interface NoteTemplateJson {
+  Name: string;
+  MeetingTitle?: string;
+  Location?: string;
+  Host?: string;
+  Attendees?: string;
+  Agenda?: AgendaItemJson[];
+  Headings?: string[];
+  Speakers?: MeetingMetadata['Speakers'];
+  UpdatedAt?: string;
+}
+
+// A word or phrase the recognizer should expect (codenames, acronyms, proper names)
+export interface PhraseHint {
+  phrase: string;
+  boost?: number; // Google speech adaptation boost (0-20); other engines ignore it or use it for ordering
+}
+
+// Meeting-level identity for one diarized speaker
+export interface SpeakerProfile {
+  label: string; // Label produced by diarization, e.g. "Người 2"
+  name: string;  // Display name; empty = show the label
+  color: string; // Hex colour used for tags
+  role: string;
 }
 
 export interface TranscriptionSegment {
@@ -33,9 +97,100 @@ export interface MeetingMetadata {
   Location: string;
   Host: string;
   Attendees: string;
+  Speakers?: Array<{ Label: string; Name: string; Color: string; Role: string }>;
+  PhraseHints?: Array<{ Phrase: string; Boost?: number }>;
   CreatedAt: string;
 }
 
+// Follow-up marker on a notes line
+export type NoteTagKind = 'action' | 'decision' | 'question';
+
+export interface NoteTag {
+  kind: NoteTagKind;
+  owner?: string; // Action items only
+  dueDate?: string; // Action items only, yyyy-mm-dd
+  done?: boolean; // Action item completed / question answered
+}
+
+// Tag fields of a *_metadata.json Timestamps entry
+export interface NoteTagJson {
+  Tag?: 'ActionItem' | 'Decision' | 'Question';
+  Owner?: string;
+  DueDate?: string;
+  Done?: boolean;
+}
+
+// A tagged notes line, as listed in the follow-ups panel and the Word report
+export interface FollowUpItem {
+  blockId: string;
+  lineIndex: number;
+  tag: NoteTag;
+  text: string;
+  speaker?: string;
+  timeMs?: number; // Relative to the recording
+}
+
+// Inline formatting of a notes line, as a character range of its plain text
+export interface RichTextSpan {
+  start: number;
+  end: number; // Exclusive
+  bold?: boolean;
+  italic?: boolean;
+  link?: string;
+}
+
+export type NoteListKind = 'bullet' | 'ordered';
+
+export interface NoteLineFormat {
+  spans: RichTextSpan[]; // Sorted, non-overlapping
+  list?: NoteListKind;
+}
+
+// `Format` of a *_metadata.json Timestamps entry; `Text` stays plain for older readers
+export interface NoteLineFormatJson {
+  List?: 'Bullet' | 'Ordered';
+  Spans?: Array<{ Start: number; End: number; Bold?: boolean; Italic?: boolean; Link?: string }>;
+}
+
+// One line of the notes document. The block list is the single source of truth for the
+// notes; legacy shapes (joined text, position-keyed timestamps) only exist at file boundaries.
+export interface NoteBlock {
+  id: string; // Stable across edits, unlike the line index
+  text: string;
+  speaker?: string;
+  timeMs?: number; // Wall-clock time (epoch ms); minus recordingStartTime gives the audio position
+  tag?: NoteTag;
+  format?: NoteLineFormat;
+  heading?: boolean; // Section heading (agenda item); the lines indented below it are its section
+  indent?: number; // Outline depth, 0 when unset
+}
+
+// Outline fields of a *_metadata.json Timestamps entry
+export interface NoteOutlineJson {
+  Heading?: boolean;
+  Indent?: number;
+}
+
+// A heading line and the lines nested under it
+export interface NoteSection {
+  blockId: string;
+  index: number; // Index of the heading line
+  endIndex: number; // Exclusive; the section's lines are index + 1 .. endIndex - 1
+  depth: number;
+  title: string;
+  startMs?: number; // Wall-clock span of the section's timestamps (heading included)
+  endMs?: number;
+}
+
+// Where a global find/replace looks
+export type FindReplaceScope = 'notes' | 'noteSpeakers' | 'transcripts' | 'transcriptSpeakers';
+
+export interface FindOptions {
+  query: string;
+  matchCase: boolean;
+  useRegex: boolean;
+}
+
 export interface TimestampEntry {
   position: number;
   timeMs: number;
@@ -55,11 +210,103 @@ export interface FileSystemSupport {
 
 // Google Cloud Speech-to-Text types
 export interface SpeechToTextConfig {
+  providerId?: TranscriptionProviderId; // Undefined = pick automatically (legacy behaviour)
   apiKey: string;
   apiEndpoint?: string;
-  languageCode: string;
+  model?: string; // Model name for OpenAI/Whisper-compatible servers
+  languageCode: string; // Primary language (BCP-47)
+  alternativeLanguageCodes?: string[]; // Other languages spoken in the meeting (code-switching)
   enableSpeakerDiarization: boolean;
   enableAutomaticPunctuation: boolean;
+  phraseHints?: PhraseHint[]; // Global vocabulary; the service merges in the project's list before calling providers
+}
+
+// Transcription provider types
+export type TranscriptionProviderId = 'web-speech' | 'google-cloud' | 'whisper-http' | (string & {});
+
+export interface TranscriptionProviderCapabilities {
+  liveStreaming: boolean;      // Can transcribe a live MediaStream while recording
+  fileTranscription: boolean;  // Can transcribe a recorded audio Blob
+  interimResults: boolean;     // Emits non-final results while the speaker is talking
+  speakerDiarization: boolean; // Can tell speakers apart
+  wordTimings: boolean;        // Returns per-word start/end offsets
+  requiresApiKey: boolean;
+  recoversFromErrors: boolean; // Keeps recognizing after a live error (restarts or skips the failed chunk)
+}
+
+// Describes one configuration field a provider needs, so TranscriptionConfig can render it
+export interface TranscriptionProviderConfigField {
+  name: keyof SpeechToTextConfig;
+  label: string;
+  type: 'text' | 'password' | 'url';
+  required?: boolean;
+  minLength?: number;
+  placeholder?: string;
+  help?: string;
+  defaultValue?: string;
+}
+
+export interface TranscriptionCallbacks {
+  onTranscription: (result: TranscriptionResult) => void;
+  onProgress?: (progress: number) => void;
+  onError?: (error: Error & { code?: string }) => void;
+  onChunkStatus?: (chunks: ChunkState[]) => void; // Long files only: per-chunk queue status
+}
+
+// Per-chunk state of a long-file transcription job
+export type ChunkStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface ChunkState {
+  index: number;
+  startMs: number;
+  endMs: number;
+  status: ChunkStatus;
+  attempts: number;
+  error?: string;
+  emittedIn?: string; // Page session whose caller got the results; a reload empties the caller's list
+}
+
+export interface FileTranscriptionOptions {
+  jobId?: string; // Stable key for persisted chunk progress; rerunning the same job resumes missing chunks
+  signal?: AbortSignal;
+  waitWhilePaused?: () => Promise<void>;
+  skipEmitted?: boolean; // Results of chunks an interrupted run already handed over are still in the caller's list
+}
+
+// A span of the recording, e.g. a region selected on the waveform
+export interface AudioRange {
+  startMs: number;
+  endMs: number;
+}
+
+export interface TranscriptionProvider {
+  readonly id: TranscriptionProviderId;
+  readonly name: string;
+  readonly description: string;
+  readonly capabilities: TranscriptionProviderCapabilities;
+  readonly configSchema: TranscriptionProviderConfigField[];
+
+  // True when the provider can run in this browser with the given config
+  isAvailable(config: SpeechToTextConfig): boolean;
+
+  startLive(stream: MediaStream, config: SpeechToTextConfig, callbacks: TranscriptionCallbacks): Promise<void>;
+  stopLive(): void;
+
+  transcribeFile(
+    audioBlob: Blob,
+    config: SpeechToTextConfig,
+    callbacks: TranscriptionCallbacks,
+    options?: FileTranscriptionOptions
+  ): Promise<void>;
+}
+
+// One recognised word with its position in the audio
+export interface TranscriptionWord {
+  text: string;
+  startMs: number; // Relative to recording start, like audioTimeMs
+  endMs: number;
+  confidence: number; // 0 when the provider doesn't report per-word confidence
+  speaker?: string;
 }
 
 export interface TranscriptionResult {
@@ -68,10 +315,24 @@ export interface TranscriptionResult {
   startTime: string; // ISO format datetime
   endTime: string;   // ISO format datetime
   audioTimeMs?: number; // Relative time in audio (milliseconds from recording start)
+  audioEndTimeMs?: number; // Relative end time in audio, when the provider reports it
   confidence: number;
   speaker: string;  // Speaker identification - default "Person1"
+  speakerLabel?: string; // Original diarization label, kept when the speaker is renamed
+  languageCode?: string; // Language the recognizer detected (or was told to use) for this segment
   isFinal: boolean;
   isManuallyEdited?: boolean; // True if user manually edited the text
+  isReviewed?: boolean; // Checked by a person in review mode; saved in the transcription JSON
+  words?: TranscriptionWord[]; // Word-level timings, when the provider supports them
+}
+
+// A stored transcription pass (e.g. the live results before a file re-transcription)
+export interface TranscriptVersion {
+  id: string;
+  name: string;
+  source: 'live' | 'file';
+  createdAt: string; // ISO format datetime
+  transcriptions: TranscriptionResult[]; // Final results only
 }
 
 export interface SpeechRecognitionAlternative {
@@ -99,4 +360,10 @@ declare global {
       mode?: 'read' | 'readwrite';
     }) => Promise<FileSystemDirectoryHandle>;
   }
+
+  // Permission checks for handles restored from IndexedDB (Chromium)
+  interface FileSystemHandle {
+    queryPermission?: (descriptor?: { mode?: 'read' | 'readwrite' }) => Promise<PermissionState>;
+    requestPermission?: (descriptor?: { mode?: 'read' | 'readwrite' }) => Promise<PermissionState>;
+  }
 }